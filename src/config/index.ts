@@ -2,8 +2,27 @@
  * Configuration loader - reads from environment variables with sensible defaults
  */
 
+import * as fs from 'fs';
 import dotenv from 'dotenv';
-import type { ExtractorConfig } from '../types/index.js';
+import type {
+  ExtractorConfig,
+  County,
+  ScraperBackend,
+  ClassificationPolicy,
+  EntityType,
+  SaleType,
+  SaleTypeMode,
+} from '../types/index.js';
+import {
+  TPAD_BASE_URL,
+  getCountyName,
+  joinCountyNames,
+  getClassificationCode,
+  getClassificationName,
+} from './selectors.js';
+import { loadFilterRules } from '../processors/filter-rules.js';
+import { ENTITY_TYPES, parseEntityType } from '../processors/entity.js';
+import { SALE_TYPES } from '../processors/sale-type.js';
 
 // Load .env file if present
 dotenv.config();
@@ -39,6 +58,85 @@ function parseInt(value: string | undefined, defaultValue: number): number {
   return Number.isNaN(parsed) ? defaultValue : parsed;
 }
 
+/**
+ * Parse a decimal number from environment variable
+ */
+function parseNumber(value: string | undefined, defaultValue: number): number {
+  if (value === undefined || value === '') {
+    return defaultValue;
+  }
+  const parsed = Number.parseFloat(value);
+  return Number.isNaN(parsed) ? defaultValue : parsed;
+}
+
+/**
+ * Build the county list from COUNTY_CODE (a single code or a comma-separated list)
+ * COUNTY_NAME may give display names in the same order; missing names come from COUNTY_NAMES
+ */
+function parseCounties(codes: string | undefined, names: string | undefined): County[] {
+  const countyCodes = parseList(codes, ['084']); // Tipton County
+  const countyNames = parseList(names, []);
+
+  return countyCodes.map((code, index) => ({
+    code,
+    name: countyNames[index] || getCountyName(code),
+  }));
+}
+
+/**
+ * Environment variable suffix for a classification's policy overrides, e.g. "FARM"
+ */
+function getPolicyEnvName(policy: Pick<ClassificationPolicy, 'name'>): string {
+  return policy.name.toUpperCase().replace(/[^A-Z0-9]+/g, '_');
+}
+
+/**
+ * Build a filter policy for each CLASSIFICATIONS entry (default: residential only)
+ * MIN_SALE_PRICE_<NAME> and INSTRUMENT_DENYLIST_<NAME> override the defaults per
+ * classification, e.g. MIN_SALE_PRICE_FARM=50000
+ */
+function parseClassifications(
+  value: string | undefined,
+  minSalePrice: number,
+  instrumentDenylist: string[]
+): ClassificationPolicy[] {
+  return parseList(value, ['residential']).map((entry) => {
+    // Unknown entries are kept as-is so validateConfig can report them
+    const code = getClassificationCode(entry) ?? entry;
+    const name = getClassificationName(code);
+    const envName = getPolicyEnvName({ name });
+
+    return {
+      code,
+      name,
+      minSalePrice: parseInt(process.env[`MIN_SALE_PRICE_${envName}`], minSalePrice),
+      instrumentDenylist: parseList(process.env[`INSTRUMENT_DENYLIST_${envName}`], instrumentDenylist),
+    };
+  });
+}
+
+/**
+ * Read SALE_TYPE_<TYPE> for each sale type, e.g. SALE_TYPE_VACANT_LOT=exclude
+ * Unknown values are kept as-is so validateConfig can report them
+ */
+function parseSaleTypeModes(): Record<SaleType, SaleTypeMode> {
+  return Object.fromEntries(SALE_TYPES.map(type => [
+    type,
+    (process.env[`SALE_TYPE_${type.toUpperCase()}`] || DEFAULT_SALE_TYPE_MODES[type]).trim().toLowerCase(),
+  ])) as Record<SaleType, SaleTypeMode>;
+}
+
+/**
+ * New construction buyers are the best leads, so they get their own section by default
+ */
+const DEFAULT_SALE_TYPE_MODES: Record<SaleType, SaleTypeMode> = {
+  new_construction: 'separate',
+  existing_home: 'include',
+  vacant_lot: 'include',
+};
+
+const SALE_TYPE_MODES: SaleTypeMode[] = ['include', 'exclude', 'separate'];
+
 /**
  * Default instrument denylist for filtering non-arm's-length transfers
  */
@@ -54,29 +152,67 @@ const DEFAULT_INSTRUMENT_DENYLIST = [
   'Affidavit',
 ];
 
+/**
+ * Supported values for SCRAPER_BACKEND
+ */
+const SCRAPER_BACKENDS: ScraperBackend[] = ['playwright'];
+
 /**
  * Load configuration from environment variables
  */
 export function loadConfig(): ExtractorConfig {
+  const counties = parseCounties(process.env.COUNTY_CODE, process.env.COUNTY_NAME);
+  const minSalePrice = parseInt(process.env.MIN_SALE_PRICE, 100000);
+  const instrumentDenylist = parseList(process.env.INSTRUMENT_DENYLIST, DEFAULT_INSTRUMENT_DENYLIST);
+
   return {
     // Output configuration
     outDir: process.env.OUT_DIR || './data',
     headless: parseBool(process.env.HEADLESS, true),
+    exportSalesHistory: parseBool(process.env.EXPORT_SALES_HISTORY, false),
+
+    // Browser configuration (Playwright backend)
+    browserProxyServer: process.env.BROWSER_PROXY_SERVER || '',
+    browserProxyUsername: process.env.BROWSER_PROXY_USERNAME || '',
+    browserProxyPassword: process.env.BROWSER_PROXY_PASSWORD || '',
+    browserLocale: process.env.BROWSER_LOCALE || 'en-US',
+    browserTimezone: process.env.BROWSER_TIMEZONE || 'America/Chicago',
+    browserTimeoutMs: parseInt(process.env.BROWSER_TIMEOUT_MS, 30000),
+    browserNavigationTimeoutMs: parseInt(process.env.BROWSER_NAVIGATION_TIMEOUT_MS, 60000),
+    browserStorageState: process.env.BROWSER_STORAGE_STATE || '',
+    browserBlockedResources: parseList(process.env.BROWSER_BLOCK_RESOURCES, ['image', 'media', 'font'])
+      .map(type => type.toLowerCase())
+      .filter(type => type !== 'none'),
+    browserIsolateWorkers: parseBool(process.env.BROWSER_ISOLATE_WORKERS, false),
 
     // Scraper configuration
     concurrency: parseInt(process.env.CONCURRENCY, 3),
     requestDelayMs: parseInt(process.env.REQUEST_DELAY_MS, 1000),
+    maxRequestDelayMs: parseInt(process.env.MAX_REQUEST_DELAY_MS, 30000),
+    slowResponseMs: parseInt(process.env.SLOW_RESPONSE_MS, 10000),
+    parcelCacheTtlHours: parseInt(process.env.PARCEL_CACHE_TTL_HOURS, 168),
+    maxSearchResults: parseInt(process.env.MAX_SEARCH_RESULTS, 500),
 
     // Filtering configuration
-    minSalePrice: parseInt(process.env.MIN_SALE_PRICE, 100000),
-    instrumentDenylist: parseList(
-      process.env.INSTRUMENT_DENYLIST,
-      DEFAULT_INSTRUMENT_DENYLIST
-    ),
+    minSalePrice,
+    instrumentDenylist,
+    classifications: parseClassifications(process.env.CLASSIFICATIONS, minSalePrice, instrumentDenylist),
+    // Unknown entries are kept as-is so validateConfig can report them
+    excludedEntityTypes: parseList(process.env.EXCLUDE_ENTITY_TYPES, [])
+      .map(type => parseEntityType(type) ?? type as EntityType),
+    saleTypeModes: parseSaleTypeModes(),
+    filterRulesFile: process.env.FILTER_RULES_FILE || '',
+    fuzzyDedupeThreshold: parseNumber(process.env.FUZZY_DEDUPE_THRESHOLD, 0),
 
     // County configuration
-    countyCode: process.env.COUNTY_CODE || '084', // Tipton County
-    countyName: process.env.COUNTY_NAME || 'Tipton',
+    counties,
+    countyName: joinCountyNames(counties.map(c => c.name)),
+
+    // TPAD site (override to point the scraper at a mirror or local test server)
+    tpadBaseUrl: (process.env.TPAD_BASE_URL || TPAD_BASE_URL).replace(/\/+$/, ''),
+
+    // Scraper backend
+    scraperBackend: (process.env.SCRAPER_BACKEND || 'playwright').toLowerCase() as ScraperBackend,
 
     // Email configuration
     sendgridApiKey: process.env.SENDGRID_API_KEY || '',
@@ -114,10 +250,105 @@ export function validateConfig(config: ExtractorConfig, requireEmail: boolean =
     errors.push('CONCURRENCY must be between 1 and 10');
   }
 
+  if (config.browserTimeoutMs < 1 || config.browserNavigationTimeoutMs < 1) {
+    errors.push('BROWSER_TIMEOUT_MS and BROWSER_NAVIGATION_TIMEOUT_MS must be positive');
+  }
+
+  if (config.browserStorageState && !fs.existsSync(config.browserStorageState)) {
+    errors.push(`BROWSER_STORAGE_STATE file not found: ${config.browserStorageState}`);
+  }
+
+  if (config.requestDelayMs < 0 || config.maxRequestDelayMs < config.requestDelayMs) {
+    errors.push('REQUEST_DELAY_MS must be non-negative and no more than MAX_REQUEST_DELAY_MS');
+  }
+
+  if (config.parcelCacheTtlHours < 0) {
+    errors.push('PARCEL_CACHE_TTL_HOURS must be non-negative');
+  }
+
+  if (config.maxSearchResults < 1) {
+    errors.push('MAX_SEARCH_RESULTS must be at least 1');
+  }
+
+  if (!SCRAPER_BACKENDS.includes(config.scraperBackend)) {
+    errors.push(`SCRAPER_BACKEND must be one of: ${SCRAPER_BACKENDS.join(', ')}`);
+  }
+
+  if (config.counties.length === 0) {
+    errors.push('COUNTY_CODE must list at least one county');
+  }
+
+  const duplicateCodes = config.counties
+    .map(c => c.code)
+    .filter((code, index, codes) => codes.indexOf(code) !== index);
+  if (duplicateCodes.length > 0) {
+    errors.push(`COUNTY_CODE lists duplicate counties: ${duplicateCodes.join(', ')}`);
+  }
+
+  const unknownEntityTypes = config.excludedEntityTypes.filter(type => !ENTITY_TYPES.includes(type));
+  if (unknownEntityTypes.length > 0) {
+    errors.push(`EXCLUDE_ENTITY_TYPES has unknown types: ${unknownEntityTypes.join(', ')} (expected: ${ENTITY_TYPES.join(', ')})`);
+  }
+
+  for (const type of SALE_TYPES) {
+    if (!SALE_TYPE_MODES.includes(config.saleTypeModes[type])) {
+      errors.push(`SALE_TYPE_${type.toUpperCase()} must be one of: ${SALE_TYPE_MODES.join(', ')}`);
+    }
+  }
+
+  if (config.fuzzyDedupeThreshold < 0 || config.fuzzyDedupeThreshold > 1) {
+    errors.push('FUZZY_DEDUPE_THRESHOLD must be between 0 and 1');
+  }
+
+  if (config.filterRulesFile) {
+    try {
+      loadFilterRules(config.filterRulesFile);
+    } catch (error) {
+      errors.push((error as Error).message);
+    }
+
+    // The rules file replaces the built-in chain, so these settings would be silently ignored
+    const ignored = [
+      ...config.classifications
+        .filter(p => p.minSalePrice !== config.minSalePrice)
+        .map(p => `MIN_SALE_PRICE_${getPolicyEnvName(p)}`),
+      ...config.classifications
+        .filter(p => p.instrumentDenylist.join(',') !== config.instrumentDenylist.join(','))
+        .map(p => `INSTRUMENT_DENYLIST_${getPolicyEnvName(p)}`),
+      ...(config.excludedEntityTypes.length > 0 ? ['EXCLUDE_ENTITY_TYPES'] : []),
+      ...SALE_TYPES
+        .filter(type => config.saleTypeModes[type] === 'exclude')
+        .map(type => `SALE_TYPE_${type.toUpperCase()}=exclude`),
+    ];
+    if (ignored.length > 0) {
+      errors.push(`FILTER_RULES_FILE replaces the built-in filters, so ${ignored.join(', ')} would be ignored; add them to the rules file instead`);
+    }
+  }
+
   if (config.minSalePrice < 0) {
     errors.push('MIN_SALE_PRICE must be non-negative');
   }
 
+  if (config.classifications.length === 0) {
+    errors.push('CLASSIFICATIONS must list at least one classification');
+  }
+
+  for (const policy of config.classifications) {
+    if (!/^\d{2}$/.test(policy.code)) {
+      errors.push(`CLASSIFICATIONS entry "${policy.code}" is not a known classification name or two-digit code`);
+    }
+    if (policy.minSalePrice < 0) {
+      errors.push(`MIN_SALE_PRICE for ${policy.name} must be non-negative`);
+    }
+  }
+
+  const duplicateClasses = config.classifications
+    .map(c => c.code)
+    .filter((code, index, codes) => codes.indexOf(code) !== index);
+  if (duplicateClasses.length > 0) {
+    errors.push(`CLASSIFICATIONS lists duplicate classifications: ${duplicateClasses.join(', ')}`);
+  }
+
   return errors;
 }
 
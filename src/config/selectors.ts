@@ -10,6 +10,13 @@
 
 export const TPAD_BASE_URL = 'https://assessment.cot.tn.gov/TPAD';
 
+/**
+ * Resolve a (possibly relative) TPAD link like "./Parcel/Details?..." to a full URL
+ */
+export function resolveTpadUrl(url: string, baseUrl: string = TPAD_BASE_URL): string {
+  return url.startsWith('http') ? url : `${baseUrl}${url.replace('./', '/')}`;
+}
+
 /**
  * Selectors for the TPAD search page (new interface)
  */
@@ -27,6 +34,8 @@ export const SELECTORS = {
     ownerInput: '#ownerSelect',
     // Property address input
     propertyAddressInput: '#propertyAddressSelect',
+    // Parcel ID input
+    parcelIdInput: '#parcelIdSelect',
     // Search buttons (there are two - basic and advanced)
     searchButton: 'button.searchButton',
     basicSearchButton: 'button.basic-search-btn',
@@ -63,8 +72,28 @@ export const SELECTORS = {
     loadingSpinner: '.loading, .spinner, .loader',
   },
 
+  // DataTables results grid on the search page
+  resultsTable: {
+    table: '#searchResultsTable',
+    headers: '#searchResultsTable thead th',
+    rows: '#searchResultsTable tbody tr',
+    info: '.dataTables_info',
+    nextButton: '.paginate_button.next',
+    enabledNextButton: '.paginate_button.next:not(.disabled)',
+    currentPage: '.paginate_button.current',
+  },
+
   // Parcel details page
   parcelDetails: {
+    // Bootstrap cards the scraper reads
+    ownerCard: '.card:has-text("Property Owner")',
+    locationCard: '.card:has-text("Property Location")',
+    generalInfoCard: '.card:has-text("General Information")',
+    valueCard: '.card:has-text("Value Information")',
+    cardBody: '.card-body',
+    // Sales (and other) tables; the sales table is found by its headers
+    dataTables: 'table.table-striped',
+
     // Header info
     parcelId: '.parcel-id, #parcelId, [data-field="parcelId"]',
     ownerName: '.owner-name, #ownerName, [data-field="ownerName"]',
@@ -100,6 +129,16 @@ export const SELECTORS = {
   },
 } as const;
 
+/**
+ * Data rows in #searchResultsTable have at least this many cells (13 with the GIS map link)
+ */
+export const MIN_RESULT_COLUMNS = 12;
+
+/**
+ * Headers that identify the sales table on a parcel details page (lowercased)
+ */
+export const SALES_TABLE_HEADERS = ['sale date', 'price'];
+
 /**
  * County names for Tennessee counties (for dropdown selection)
  * The new TPAD uses county names, not codes
@@ -209,6 +248,32 @@ export function getCountyName(code: string): string {
   return COUNTY_NAMES[code] || code;
 }
 
+/**
+ * Join county names for display: "Tipton", "Tipton & Shelby", "Tipton, Shelby & Fayette"
+ */
+export function joinCountyNames(names: string[]): string {
+  if (names.length <= 1) {
+    return names[0] || '';
+  }
+  return `${names.slice(0, -1).join(', ')} & ${names[names.length - 1]}`;
+}
+
+/**
+ * Report label for one or more counties: "Tipton County", "Tipton & Shelby Counties"
+ */
+export function formatCountyLabel(names: string[]): string {
+  return `${joinCountyNames(names)} ${names.length > 1 ? 'Counties' : 'County'}`;
+}
+
+/**
+ * Filename and S3 key safe slug: "tipton", "tipton_shelby_fayette"
+ */
+export function getCountySlug(names: string[]): string {
+  return names
+    .map(name => name.toLowerCase().replace(/[^a-z0-9]+/g, '_'))
+    .join('_');
+}
+
 /**
  * Classification options (for dropdown selection)
  */
@@ -232,6 +297,51 @@ export const CLASSIFICATION_CODES = {
   STATE_ASSESSED: '05',
 } as const;
 
+/**
+ * Look up the code for a CLASSIFICATIONS entry: a CLASSIFICATION_CODES name
+ * ("farm", "state assessed") or a two-digit code as listed in the TPAD dropdown
+ */
+export function getClassificationCode(nameOrCode: string): string | null {
+  const value = nameOrCode.trim();
+  if (/^\d{2}$/.test(value)) {
+    return value;
+  }
+
+  const key = value.toUpperCase().replace(/[\s-]+/g, '_') as keyof typeof CLASSIFICATION_CODES;
+  return CLASSIFICATION_CODES[key] ?? null;
+}
+
+/**
+ * Read the code from a classification as TPAD shows it ("00", "00 - Residential")
+ */
+export function parseClassificationCode(text: string | undefined): string | null {
+  const match = text?.match(/^\s*(\d{2})\b/);
+  return match ? match[1] : null;
+}
+
+/**
+ * Report name for a classification code ("00" -> "Residential")
+ */
+export function getClassificationName(code: string): string {
+  const entry = Object.entries(CLASSIFICATION_CODES).find(([, value]) => value === code);
+  if (!entry) {
+    return `Class ${code}`;
+  }
+
+  return entry[0]
+    .split('_')
+    .map(word => word.charAt(0) + word.slice(1).toLowerCase())
+    .join(' ');
+}
+
+/**
+ * Pick the classification dropdown option for a code ("00" -> "00 - Residential")
+ * Matched by code prefix so the label text itself doesn't need to be known
+ */
+export function findClassificationOption(labels: string[], code: string): string | null {
+  return labels.find(label => label.trim() === code || label.trim().startsWith(`${code} `)) ?? null;
+}
+
 /**
  * Legacy county codes (kept for compatibility)
  */
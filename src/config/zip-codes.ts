@@ -0,0 +1,105 @@
+/**
+ * Bundled Tennessee ZIP code table
+ *
+ * Covers the ZIP codes of the West Tennessee counties the extractor is usually run
+ * for. Used to sanity-check learned city/ZIP pairs and to fill in a ZIP when only
+ * the city is known. A ZIP can straddle county lines, so each lists every county it serves.
+ */
+
+/**
+ * One ZIP code: its USPS city name and the counties (by name) it serves
+ */
+export interface ZipCodeEntry {
+  city: string;
+  counties: string[];
+}
+
+export const TN_ZIP_CODES: Record<string, ZipCodeEntry> = {
+  // Tipton
+  '38004': { city: 'ATOKA', counties: ['Tipton'] },
+  '38011': { city: 'BRIGHTON', counties: ['Tipton'] },
+  '38015': { city: 'BURLISON', counties: ['Tipton'] },
+  '38019': { city: 'COVINGTON', counties: ['Tipton'] },
+  '38023': { city: 'DRUMMONDS', counties: ['Tipton'] },
+  '38049': { city: 'MASON', counties: ['Tipton', 'Fayette'] },
+  '38058': { city: 'MUNFORD', counties: ['Tipton'] },
+  '38071': { city: 'TIPTON', counties: ['Tipton'] },
+
+  // Shelby
+  '38002': { city: 'ARLINGTON', counties: ['Shelby', 'Fayette', 'Tipton'] },
+  '38016': { city: 'CORDOVA', counties: ['Shelby'] },
+  '38017': { city: 'COLLIERVILLE', counties: ['Shelby', 'Fayette'] },
+  '38018': { city: 'CORDOVA', counties: ['Shelby'] },
+  '38028': { city: 'EADS', counties: ['Shelby', 'Fayette'] },
+  '38053': { city: 'MILLINGTON', counties: ['Shelby', 'Tipton'] },
+  '38103': { city: 'MEMPHIS', counties: ['Shelby'] },
+  '38104': { city: 'MEMPHIS', counties: ['Shelby'] },
+  '38105': { city: 'MEMPHIS', counties: ['Shelby'] },
+  '38106': { city: 'MEMPHIS', counties: ['Shelby'] },
+  '38107': { city: 'MEMPHIS', counties: ['Shelby'] },
+  '38108': { city: 'MEMPHIS', counties: ['Shelby'] },
+  '38109': { city: 'MEMPHIS', counties: ['Shelby'] },
+  '38111': { city: 'MEMPHIS', counties: ['Shelby'] },
+  '38112': { city: 'MEMPHIS', counties: ['Shelby'] },
+  '38114': { city: 'MEMPHIS', counties: ['Shelby'] },
+  '38115': { city: 'MEMPHIS', counties: ['Shelby'] },
+  '38116': { city: 'MEMPHIS', counties: ['Shelby'] },
+  '38117': { city: 'MEMPHIS', counties: ['Shelby'] },
+  '38118': { city: 'MEMPHIS', counties: ['Shelby'] },
+  '38119': { city: 'MEMPHIS', counties: ['Shelby'] },
+  '38120': { city: 'MEMPHIS', counties: ['Shelby'] },
+  '38122': { city: 'MEMPHIS', counties: ['Shelby'] },
+  '38125': { city: 'MEMPHIS', counties: ['Shelby'] },
+  '38126': { city: 'MEMPHIS', counties: ['Shelby'] },
+  '38127': { city: 'MEMPHIS', counties: ['Shelby'] },
+  '38128': { city: 'MEMPHIS', counties: ['Shelby'] },
+  '38131': { city: 'MEMPHIS', counties: ['Shelby'] },
+  '38132': { city: 'MEMPHIS', counties: ['Shelby'] },
+  '38133': { city: 'MEMPHIS', counties: ['Shelby'] },
+  '38134': { city: 'MEMPHIS', counties: ['Shelby'] },
+  '38135': { city: 'MEMPHIS', counties: ['Shelby'] },
+  '38138': { city: 'GERMANTOWN', counties: ['Shelby'] },
+  '38139': { city: 'GERMANTOWN', counties: ['Shelby'] },
+  '38141': { city: 'MEMPHIS', counties: ['Shelby'] },
+
+  // Fayette
+  '38036': { city: 'GALLAWAY', counties: ['Fayette'] },
+  '38039': { city: 'GRAND JUNCTION', counties: ['Fayette', 'Hardeman'] },
+  '38046': { city: 'LA GRANGE', counties: ['Fayette'] },
+  '38048': { city: 'MACON', counties: ['Fayette'] },
+  '38057': { city: 'MOSCOW', counties: ['Fayette'] },
+  '38060': { city: 'OAKLAND', counties: ['Fayette'] },
+  '38066': { city: 'ROSSVILLE', counties: ['Fayette'] },
+  '38068': { city: 'SOMERVILLE', counties: ['Fayette'] },
+  '38076': { city: 'WILLISTON', counties: ['Fayette'] },
+
+  // Lauderdale
+  '38037': { city: 'GATES', counties: ['Lauderdale'] },
+  '38040': { city: 'HALLS', counties: ['Lauderdale'] },
+  '38041': { city: 'HENNING', counties: ['Lauderdale'] },
+  '38063': { city: 'RIPLEY', counties: ['Lauderdale'] },
+};
+
+/**
+ * Look up a ZIP code (ZIP+4 is accepted)
+ */
+export function getZipCode(zip: string): ZipCodeEntry | null {
+  return TN_ZIP_CODES[zip.trim().slice(0, 5)] ?? null;
+}
+
+/**
+ * ZIP codes in the table for a city within a county
+ */
+export function getCityZipCodes(city: string, county: string): string[] {
+  const name = city.trim().toUpperCase();
+  return Object.entries(TN_ZIP_CODES)
+    .filter(([, entry]) => entry.city === name && entry.counties.includes(county))
+    .map(([zip]) => zip);
+}
+
+/**
+ * Whether the table knows the county at all (so a ZIP outside it can be rejected)
+ */
+export function hasCountyZipCodes(county: string): boolean {
+  return Object.values(TN_ZIP_CODES).some(entry => entry.counties.includes(county));
+}
@@ -3,11 +3,14 @@
  */
 
 import sgMail from '@sendgrid/mail';
-import type { CleanedSale, ExtractorConfig, DateRange } from '../types/index.js';
-import { getSalesStats, formatSalePrice, formatDisplayDate } from '../processors/transform.js';
+import type { CleanedSale, ExtractorConfig, DateRange, SaleType } from '../types/index.js';
+import { getSalesStats, formatSalePrice, formatDisplayDate, formatAcreage } from '../processors/transform.js';
 import { cleanedSalesToCsvString } from '../output/csv-writer.js';
 import { logger, logEmailSent } from '../utils/logger.js';
 import { getPropertyImageUrl, getGoogleMapsLink, buildFullAddress } from '../utils/maps.js';
+import { formatCountyLabel, getCountySlug } from '../config/selectors.js';
+import { ENTITY_TYPE_LABELS } from '../processors/entity.js';
+import { SALE_TYPES, SALE_TYPE_LABELS } from '../processors/sale-type.js';
 
 /**
  * Initialize SendGrid with API key
@@ -16,6 +19,32 @@ export function initializeSendGrid(apiKey: string): void {
   sgMail.setApiKey(apiKey);
 }
 
+/**
+ * Owner name with its entity type, e.g. "ABC HOMES LLC (Builder)"
+ */
+function formatOwner(sale: CleanedSale): string {
+  if (!sale.owner_name) return 'N/A';
+  return sale.owner_entity_type
+    ? `${sale.owner_name} (${ENTITY_TYPE_LABELS[sale.owner_entity_type]})`
+    : sale.owner_name;
+}
+
+/**
+ * Highlight for new construction, the highest-value leads ('' for other sales)
+ */
+function formatNewConstructionBadge(sale: CleanedSale): string {
+  return sale.sale_type === 'new_construction'
+    ? ` <span style="display: inline-block; background: #fef3c7; color: #92400e; font-size: 11px; font-weight: 600; padding: 2px 6px; border-radius: 4px;">${SALE_TYPE_LABELS.new_construction}</span>`
+    : '';
+}
+
+/**
+ * Sale types the config reports in their own sections
+ */
+function getSeparateSaleTypes(config?: ExtractorConfig): SaleType[] {
+  return config ? SALE_TYPES.filter(type => config.saleTypeModes[type] === 'separate') : [];
+}
+
 /**
  * Generate a property card with image for the email
  */
@@ -47,15 +76,17 @@ function generatePropertyCard(
       ${imageHtml}
       <div style="padding: 16px;">
         <div style="font-weight: 600; font-size: 16px; color: #1f2937; margin-bottom: 4px;">
-          <a href="${mapsLink}" target="_blank" style="color: #1f2937; text-decoration: none;">${sale.situs_address}</a>
+          <a href="${mapsLink}" target="_blank" style="color: #1f2937; text-decoration: none;">${sale.situs_address}</a>${formatNewConstructionBadge(sale)}
         </div>
-        <div style="color: #6b7280; font-size: 14px; margin-bottom: 16px;">${sale.city}, ${sale.state} ${sale.zip || ''}</div>
+        <div style="color: #6b7280; font-size: 14px; margin-bottom: 16px;">${sale.city}, ${sale.state} ${sale.zip || ''}${sale.acreage !== null ? ` &middot; ${formatAcreage(sale.acreage)}` : ''}</div>
         
         <table style="width: 100%; border-top: 1px solid #e5e7eb; padding-top: 12px; border-collapse: collapse;">
           <tr>
             <td style="padding: 12px 0; vertical-align: top; width: 60%;">
               <div style="font-size: 11px; color: #9ca3af; text-transform: uppercase; letter-spacing: 0.5px; margin-bottom: 4px;">Owner</div>
               <div style="font-size: 14px; color: #1f2937; font-weight: 500;">${sale.owner_name || 'N/A'}</div>
+              ${sale.owner_entity_type ? `<div style="font-size: 12px; color: #6b7280; margin-top: 4px;">${ENTITY_TYPE_LABELS[sale.owner_entity_type]}</div>` : ''}
+              ${sale.seller_name ? `<div style="font-size: 12px; color: #6b7280; margin-top: 4px;">Bought from ${sale.seller_name}</div>` : ''}
             </td>
             <td style="padding: 12px 0; vertical-align: top; width: 40%; text-align: right;">
               <div style="font-size: 11px; color: #9ca3af; text-transform: uppercase; letter-spacing: 0.5px; margin-bottom: 4px;">Sold ${formatDisplayDate(sale.sale_date)}</div>
@@ -69,17 +100,16 @@ function generatePropertyCard(
 }
 
 /**
- * Generate HTML email template for the report
+ * Generate the property list for a set of sales
+ * Uses image cards when a Google Maps API key is configured, otherwise a table
  */
-export function generateEmailHtml(
+function generatePropertiesHtml(
   sales: CleanedSale[],
-  dateRange: DateRange,
-  countyName: string,
-  config?: ExtractorConfig
+  config?: ExtractorConfig,
+  heading?: string
 ): string {
-  const stats = getSalesStats(sales);
   const hasImages = config?.googleMapsApiKey;
-  
+
   // Generate property cards if we have Google Maps API key, otherwise use table
   let propertiesHtml: string;
   
@@ -92,7 +122,7 @@ export function generateEmailHtml(
     
     propertiesHtml = `
       <div style="padding: 15px 20px; border-bottom: 1px solid #e5e7eb;">
-        <h2 style="margin: 0; font-size: 18px; color: #1f2937;">Properties${sales.length > 50 ? ` (showing 50 of ${sales.length})` : ''}</h2>
+        <h2 style="margin: 0; font-size: 18px; color: #1f2937;">${heading ?? 'Properties'}${sales.length > 50 ? ` (showing 50 of ${sales.length})` : ''}</h2>
         <p style="margin: 5px 0 0 0; font-size: 13px; color: #6b7280;">Click images to open in Google Maps</p>
       </div>
       <div style="padding: 16px;">
@@ -105,9 +135,10 @@ export function generateEmailHtml(
       .slice(0, 50)
       .map((sale, index) => `
         <tr style="background-color: ${index % 2 === 0 ? '#ffffff' : '#f9fafb'};">
-          <td style="padding: 12px; border-bottom: 1px solid #e5e7eb;">${sale.situs_address}</td>
+          <td style="padding: 12px; border-bottom: 1px solid #e5e7eb;">${sale.situs_address}${formatNewConstructionBadge(sale)}</td>
           <td style="padding: 12px; border-bottom: 1px solid #e5e7eb;">${sale.city}</td>
-          <td style="padding: 12px; border-bottom: 1px solid #e5e7eb;">${sale.owner_name || 'N/A'}</td>
+          <td style="padding: 12px; border-bottom: 1px solid #e5e7eb;">${formatOwner(sale)}</td>
+          <td style="padding: 12px; border-bottom: 1px solid #e5e7eb; text-align: right;">${formatAcreage(sale.acreage)}</td>
           <td style="padding: 12px; border-bottom: 1px solid #e5e7eb;">${formatDisplayDate(sale.sale_date)}</td>
           <td style="padding: 12px; border-bottom: 1px solid #e5e7eb; text-align: right;">${formatSalePrice(sale.sale_price)}</td>
         </tr>
@@ -116,7 +147,7 @@ export function generateEmailHtml(
 
     propertiesHtml = `
       <div style="padding: 15px 20px; border-bottom: 1px solid #e5e7eb;">
-        <h2 style="margin: 0; font-size: 18px; color: #1f2937;">Recent Sales${sales.length > 50 ? ` (showing 50 of ${sales.length})` : ''}</h2>
+        <h2 style="margin: 0; font-size: 18px; color: #1f2937;">${heading ?? 'Recent Sales'}${sales.length > 50 ? ` (showing 50 of ${sales.length})` : ''}</h2>
       </div>
       <div style="overflow-x: auto;">
         <table style="width: 100%; border-collapse: collapse; font-size: 14px;">
@@ -125,6 +156,7 @@ export function generateEmailHtml(
               <th style="padding: 12px; text-align: left; border-bottom: 2px solid #e5e7eb; color: #6b7280; font-weight: 600;">Address</th>
               <th style="padding: 12px; text-align: left; border-bottom: 2px solid #e5e7eb; color: #6b7280; font-weight: 600;">City</th>
               <th style="padding: 12px; text-align: left; border-bottom: 2px solid #e5e7eb; color: #6b7280; font-weight: 600;">Owner</th>
+              <th style="padding: 12px; text-align: right; border-bottom: 2px solid #e5e7eb; color: #6b7280; font-weight: 600;">Lot</th>
               <th style="padding: 12px; text-align: left; border-bottom: 2px solid #e5e7eb; color: #6b7280; font-weight: 600;">Sale Date</th>
               <th style="padding: 12px; text-align: right; border-bottom: 2px solid #e5e7eb; color: #6b7280; font-weight: 600;">Price</th>
             </tr>
@@ -137,7 +169,159 @@ export function generateEmailHtml(
     `;
   }
 
-  const limitNote = sales.length > 50
+
+  return `
+    <div style="background: white; border-radius: 8px; box-shadow: 0 1px 3px rgba(0,0,0,0.1); overflow: hidden; margin-bottom: 20px;">
+      ${propertiesHtml}
+    </div>
+  `;
+}
+
+/**
+ * A group of sales shown under its own heading in the report
+ */
+export interface ReportSection {
+  /** Null when the report covers a single county */
+  county: string | null;
+  /** Null when the report covers a single classification */
+  propertyClass: string | null;
+  /** Set for a sale type reported in its own section */
+  saleType: SaleType | null;
+  sales: CleanedSale[];
+}
+
+/**
+ * Split sales into report sections: first one for each sale type reported separately,
+ * then one per county for multi-county reports, and one per classification (within
+ * each county) when several are reported on
+ */
+export function getReportSections(
+  sales: CleanedSale[],
+  countyNames: string[],
+  classNames: string[] = [],
+  separateSaleTypes: SaleType[] = []
+): ReportSection[] {
+  const counties = countyNames.length > 1 ? countyNames : [null];
+  const classes = classNames.length > 1 ? classNames : [null];
+  const rest = sales.filter(s => !separateSaleTypes.includes(s.sale_type));
+
+  return [
+    ...separateSaleTypes.map(saleType => ({
+      county: null,
+      propertyClass: null,
+      saleType,
+      sales: sales.filter(s => s.sale_type === saleType),
+    })),
+    ...counties.flatMap(county => classes.map(propertyClass => ({
+      county,
+      propertyClass,
+      saleType: null,
+      sales: rest.filter(s =>
+        (county === null || s.county === county) &&
+        (propertyClass === null || s.property_class === propertyClass)
+      ),
+    }))),
+  ];
+}
+
+/**
+ * Heading for a report section: "Tipton County - Farm", "New Construction", or null for
+ * a single-section report
+ */
+function getSectionHeading(section: ReportSection): string | null {
+  const parts = [
+    section.county ? `${section.county} County` : null,
+    section.propertyClass,
+    section.saleType ? SALE_TYPE_LABELS[section.saleType] : null,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' - ') : null;
+}
+
+/**
+ * Generate a summary table with a row per county or classification
+ */
+function generateBreakdownHtml(
+  heading: string,
+  groupLabel: string,
+  groups: { label: string; sales: CleanedSale[] }[]
+): string {
+  const rows = groups
+    .map(({ label, sales }) => {
+      const stats = getSalesStats(sales);
+      return `
+        <tr>
+          <td style="padding: 10px 12px; border-bottom: 1px solid #e5e7eb;">${label}</td>
+          <td style="padding: 10px 12px; border-bottom: 1px solid #e5e7eb; text-align: right;">${stats.count}</td>
+          <td style="padding: 10px 12px; border-bottom: 1px solid #e5e7eb; text-align: right;">${formatSalePrice(stats.totalValue)}</td>
+          <td style="padding: 10px 12px; border-bottom: 1px solid #e5e7eb; text-align: right;">${formatSalePrice(stats.averagePrice)}</td>
+          <td style="padding: 10px 12px; border-bottom: 1px solid #e5e7eb; text-align: right;">${formatSalePrice(stats.medianPrice)}</td>
+        </tr>
+      `;
+    })
+    .join('');
+
+  return `
+    <div style="background: white; border-radius: 8px; box-shadow: 0 1px 3px rgba(0,0,0,0.1); overflow: hidden; margin-bottom: 20px;">
+      <div style="padding: 15px 20px; border-bottom: 1px solid #e5e7eb;">
+        <h2 style="margin: 0; font-size: 18px; color: #1f2937;">${heading}</h2>
+      </div>
+      <table style="width: 100%; border-collapse: collapse; font-size: 14px;">
+        <thead>
+          <tr style="background: #f9fafb;">
+            <th style="padding: 10px 12px; text-align: left; border-bottom: 2px solid #e5e7eb; color: #6b7280; font-weight: 600;">${groupLabel}</th>
+            <th style="padding: 10px 12px; text-align: right; border-bottom: 2px solid #e5e7eb; color: #6b7280; font-weight: 600;">Sales</th>
+            <th style="padding: 10px 12px; text-align: right; border-bottom: 2px solid #e5e7eb; color: #6b7280; font-weight: 600;">Total Value</th>
+            <th style="padding: 10px 12px; text-align: right; border-bottom: 2px solid #e5e7eb; color: #6b7280; font-weight: 600;">Avg Price</th>
+            <th style="padding: 10px 12px; text-align: right; border-bottom: 2px solid #e5e7eb; color: #6b7280; font-weight: 600;">Median Price</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${rows}
+        </tbody>
+      </table>
+    </div>
+  `;
+}
+
+/**
+ * Generate HTML email template for the report
+ * Multi-county and multi-classification reports get a breakdown table for each
+ * and one property section per county and classification
+ */
+export function generateEmailHtml(
+  sales: CleanedSale[],
+  dateRange: DateRange,
+  countyNames: string[],
+  config?: ExtractorConfig
+): string {
+  const stats = getSalesStats(sales);
+  const countyLabel = formatCountyLabel(countyNames);
+  const classNames = config?.classifications.map(c => c.name) ?? [];
+  const sections = getReportSections(sales, countyNames, classNames, getSeparateSaleTypes(config));
+  const newConstructionCount = sales.filter(s => s.sale_type === 'new_construction').length;
+
+  const breakdownsHtml = [
+    countyNames.length > 1
+      ? generateBreakdownHtml('By County', 'County', countyNames.map(county => ({
+        label: county,
+        sales: sales.filter(s => s.county === county),
+      })))
+      : '',
+    classNames.length > 1
+      ? generateBreakdownHtml('By Classification', 'Classification', classNames.map(name => ({
+        label: name,
+        sales: sales.filter(s => s.property_class === name),
+      })))
+      : '',
+  ].join('');
+
+  const propertiesHtml = breakdownsHtml + sections
+    .map(section => generatePropertiesHtml(section.sales, config, getSectionHeading(section) ?? undefined))
+    .join('');
+
+  const isTruncated = sections.some(section => section.sales.length > 50);
+
+  const limitNote = isTruncated
     ? `<p style="margin-top: 15px; color: #6b7280; font-size: 14px; text-align: center;">📎 Full list of ${sales.length} properties attached as CSV</p>`
     : '';
 
@@ -147,13 +331,13 @@ export function generateEmailHtml(
 <head>
   <meta charset="utf-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>New Homeowners Report - ${countyName} County</title>
+  <title>New Homeowners Report - ${countyLabel}</title>
 </head>
 <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; line-height: 1.6; color: #1f2937; max-width: 800px; margin: 0 auto; padding: 20px;">
   
   <div style="background: linear-gradient(135deg, #059669 0%, #047857 100%); color: white; padding: 30px; border-radius: 12px 12px 0 0;">
     <h1 style="margin: 0 0 10px 0; font-size: 24px;">Woodlawn New Homeowners Report</h1>
-    <p style="margin: 0; opacity: 0.9; font-size: 16px;">${countyName} County, TN - ${dateRange.label}</p>
+    <p style="margin: 0; opacity: 0.9; font-size: 16px;">${countyLabel}, TN - ${dateRange.label}</p>
   </div>
   
   <div style="background: #f3f4f6; padding: 20px; border-radius: 0 0 12px 12px;">
@@ -176,12 +360,14 @@ export function generateEmailHtml(
         <div style="font-size: 24px; font-weight: bold; color: #059669;">${formatSalePrice(stats.medianPrice)}</div>
         <div style="color: #6b7280; font-size: 14px;">Median Price</div>
       </div>
+      <div style="flex: 1; min-width: 150px; background: white; padding: 20px; border-radius: 8px; box-shadow: 0 1px 3px rgba(0,0,0,0.1);">
+        <div style="font-size: 24px; font-weight: bold; color: #92400e;">${newConstructionCount}</div>
+        <div style="color: #6b7280; font-size: 14px;">New Construction</div>
+      </div>
     </div>
 
     <!-- Properties Section -->
-    <div style="background: white; border-radius: 8px; box-shadow: 0 1px 3px rgba(0,0,0,0.1); overflow: hidden;">
-      ${propertiesHtml}
-    </div>
+    ${propertiesHtml}
 
     ${limitNote}
 
@@ -203,13 +389,15 @@ export function generateEmailHtml(
 export function generateEmailText(
   sales: CleanedSale[],
   dateRange: DateRange,
-  countyName: string
+  countyNames: string[],
+  classNames: string[] = [],
+  separateSaleTypes: SaleType[] = []
 ): string {
   const stats = getSalesStats(sales);
   
   let text = `
 NEW HOMEOWNERS REPORT
-${countyName} County, TN - ${dateRange.label}
+${formatCountyLabel(countyNames)}, TN - ${dateRange.label}
 ${'='.repeat(50)}
 
 SUMMARY
@@ -218,22 +406,43 @@ New Sales: ${stats.count}
 Total Value: ${formatSalePrice(stats.totalValue)}
 Average Price: ${formatSalePrice(stats.averagePrice)}
 Median Price: ${formatSalePrice(stats.medianPrice)}
-
-RECENT SALES
-------------
+New Construction: ${sales.filter(s => s.sale_type === 'new_construction').length}
 `;
 
-  for (const sale of sales.slice(0, 30)) {
+  // Separately reported sale types first, then one section per county and classification
+  // when there are several
+  const sections = getReportSections(sales, countyNames, classNames, separateSaleTypes).map(section => ({
+    heading: (getSectionHeading(section) ?? 'Recent Sales').toUpperCase(),
+    sales: section.sales,
+  }));
+
+  for (const section of sections) {
+    const sectionStats = getSalesStats(section.sales);
+
     text += `
+${section.heading}
+${'-'.repeat(section.heading.length)}
+`;
+
+    if (sections.length > 1) {
+      text += `New Sales: ${sectionStats.count} | Total: ${formatSalePrice(sectionStats.totalValue)} | Median: ${formatSalePrice(sectionStats.medianPrice)}\n`;
+    }
+
+    for (const sale of section.sales.slice(0, 30)) {
+      text += `
 ${sale.situs_address}, ${sale.city}
-  Owner: ${sale.owner_name || 'N/A'}
+  Owner: ${formatOwner(sale)}
+  Seller: ${sale.seller_name || 'N/A'}
+  Type: ${SALE_TYPE_LABELS[sale.sale_type]}
+  Lot: ${formatAcreage(sale.acreage)}
   Sale Date: ${formatDisplayDate(sale.sale_date)}
   Price: ${formatSalePrice(sale.sale_price)}
 `;
-  }
+    }
 
-  if (sales.length > 30) {
-    text += `\n... and ${sales.length - 30} more (see attached CSV)\n`;
+    if (section.sales.length > 30) {
+      text += `\n... and ${section.sales.length - 30} more (see attached CSV)\n`;
+    }
   }
 
   text += `
@@ -265,12 +474,19 @@ export async function sendReportEmail(
 
   initializeSendGrid(config.sendgridApiKey);
 
-  const htmlContent = generateEmailHtml(sales, dateRange, config.countyName, config);
-  const textContent = generateEmailText(sales, dateRange, config.countyName);
+  const countyNames = config.counties.map(c => c.name);
+  const htmlContent = generateEmailHtml(sales, dateRange, countyNames, config);
+  const textContent = generateEmailText(
+    sales,
+    dateRange,
+    countyNames,
+    config.classifications.map(c => c.name),
+    getSeparateSaleTypes(config)
+  );
   const csvContent = cleanedSalesToCsvString(sales);
 
   const dateLabel = dateRange.label.replace('Week of ', '').replace(/-/g, '_');
-  const attachmentFilename = `new_homeowners_${config.countyName.toLowerCase()}_${dateLabel}.csv`;
+  const attachmentFilename = `new_homeowners_${getCountySlug(countyNames)}_${dateLabel}.csv`;
 
   // Support multiple recipients (comma-separated in EMAIL_TO)
   const recipients = config.emailTo.split(',').map(email => email.trim()).filter(Boolean);
@@ -278,7 +494,7 @@ export async function sendReportEmail(
   const msg = {
     to: recipients,
     from: config.emailFrom,
-    subject: `Woodlawn New Homeowners Report - ${config.countyName} County - ${dateRange.label}`,
+    subject: `Woodlawn New Homeowners Report - ${formatCountyLabel(countyNames)} - ${dateRange.label}`,
     text: textContent,
     html: htmlContent,
     attachments: [
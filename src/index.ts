@@ -9,6 +9,10 @@
  *   npx newhomeowners --out ./data
  *   npx newhomeowners --week 2025-01-06 --out ./data
  *   npx newhomeowners --dry-run
+ *   npx newhomeowners --resume
+ *   npx newhomeowners --week 2025-01-06 --refresh
+ *   npx newhomeowners check-site
+ *   npx newhomeowners lookup --address "467 Owen Rd"
  */
 
 import { Command } from 'commander';
@@ -21,13 +25,31 @@ import {
 } from './utils/date-range.js';
 import { logger, logExtractionStart, logFilteringResults } from './utils/logger.js';
 import { createTpadClient } from './scraper/tpad-client.js';
-import { filterRecords } from './processors/filter.js';
+import { clearCheckpoint } from './scraper/checkpoint.js';
+import { createScrapeRecorder, writeScrapeReport } from './scraper/scrape-report.js';
+import { BrowserManager } from './scraper/browser.js';
+import { runSiteCheck, getSiteCheckDiff, formatSiteCheckTable } from './scraper/site-check.js';
+import { runLookup, validateLookupQuery, formatLookupResult } from './scraper/lookup.js';
+import type { LookupQuery } from './scraper/lookup.js';
+import { filterRecords, getFilterRules } from './processors/filter.js';
 import { deduplicateRawRecords, deduplicateCleanedSales, deduplicateByOwnerAddress } from './processors/dedupe.js';
+import { deduplicateFuzzy } from './processors/fuzzy-dedupe.js';
+import { groupTransactions } from './processors/transactions.js';
 import { transformRecords } from './processors/transform.js';
-import { writeRawCsv, writeCleanedCsv, generateFilename } from './output/csv-writer.js';
-import { writeCleanedJson } from './output/json-writer.js';
+import { loadGazetteer, saveGazetteer, learnLocations, fillMissingLocations } from './processors/gazetteer.js';
+import { createRejectionLog } from './processors/rejection-log.js';
+import {
+  writeRawCsv,
+  writeCleanedCsv,
+  writeSalesHistoryCsv,
+  writeRejectedCsv,
+  writeFuzzyDuplicatesCsv,
+  generateFilename,
+} from './output/csv-writer.js';
+import { writeCleanedJson, writeRejectedJson } from './output/json-writer.js';
 import { uploadOutputs, generateS3KeyPrefix } from './output/s3-uploader.js';
 import { sendReportEmail } from './email/sendgrid.js';
+import { getCountySlug } from './config/selectors.js';
 import type { CliOptions, ExtractionResult } from './types/index.js';
 
 const program = new Command();
@@ -39,6 +61,8 @@ program
   .option('-w, --week <date>', 'Monday of the week to process (YYYY-MM-DD), defaults to previous week')
   .option('-o, --out <dir>', 'Output directory', './data')
   .option('-d, --dry-run', 'Run without sending email', false)
+  .option('-r, --resume', 'Resume an interrupted extraction from its checkpoint', false)
+  .option('--refresh', 'Re-fetch parcel detail pages instead of using the parcel cache', false)
   .option('--test-email', 'Send a test email to verify configuration')
   .action(async (options: CliOptions & { testEmail?: boolean }) => {
     try {
@@ -49,6 +73,105 @@ program
     }
   });
 
+program
+  .command('check-site')
+  .description('Check that the TPAD pages still have the structure the scraper expects')
+  .option('-p, --parcel <url>', 'Parcel detail URL to check (defaults to SITE_CHECK_PARCEL_URL, then the first search result)')
+  .option('--json', 'Print the full report as JSON', false)
+  .action(async (options: { parcel?: string; json?: boolean }) => {
+    try {
+      const passed = await checkSite(options);
+      process.exit(passed ? 0 : 1);
+    } catch (error) {
+      logger.error('Site check failed to run', error as Error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('lookup')
+  .description('Look up parcels by owner name, property address or parcel ID')
+  .option('--owner <name>', 'Owner name, as TPAD lists it (e.g. "SMITH JOHN")')
+  .option('--address <address>', 'Property street address (e.g. "467 Owen Rd")')
+  .option('--parcel <id>', 'Parcel ID as shown on TPAD (e.g. "067 05308 000")')
+  .option('-n, --limit <count>', 'Maximum number of matches to fetch details for', '10')
+  .option('--json', 'Print the results as JSON', false)
+  .action(async (options: LookupQuery & { limit: string; json?: boolean }) => {
+    try {
+      const found = await lookup(options);
+      process.exit(found ? 0 : 1);
+    } catch (error) {
+      logger.error('Lookup failed', error as Error);
+      process.exit(1);
+    }
+  });
+
+/**
+ * Look up parcels in the configured counties and print their owners and sales
+ * Returns true if anything matched
+ */
+async function lookup(options: LookupQuery & { limit: string; json?: boolean }): Promise<boolean> {
+  const query: LookupQuery = { owner: options.owner, address: options.address, parcel: options.parcel };
+  const queryError = validateLookupQuery(query);
+  if (queryError) {
+    throw new Error(queryError);
+  }
+
+  const limit = parseInt(options.limit, 10);
+  if (isNaN(limit) || limit < 1) {
+    throw new Error(`--limit must be a positive number (got "${options.limit}")`);
+  }
+
+  const config = loadConfig();
+  const browser = new BrowserManager(config);
+  const page = await browser.newPage();
+
+  try {
+    const result = await runLookup(page, config, query, { limit });
+
+    if (options.json) {
+      console.log(JSON.stringify(result, null, 2));
+    } else {
+      console.log(formatLookupResult(result));
+    }
+
+    return result.matches.length > 0;
+  } finally {
+    await browser.close();
+  }
+}
+
+/**
+ * Run the TPAD site health check and print the results
+ * Returns true if every check passed
+ */
+async function checkSite(options: { parcel?: string; json?: boolean }): Promise<boolean> {
+  const config = loadConfig();
+  const browser = new BrowserManager(config);
+  const page = await browser.newPage();
+
+  try {
+    const report = await runSiteCheck(page, config, {
+      dateRange: getPreviousWeekRange(),
+      parcelUrl: options.parcel || process.env.SITE_CHECK_PARCEL_URL || undefined,
+    });
+
+    if (options.json) {
+      console.log(JSON.stringify(report, null, 2));
+    } else {
+      console.log(formatSiteCheckTable(report));
+      if (!report.passed) {
+        console.log('\nMissing or changed:');
+        console.log(JSON.stringify(getSiteCheckDiff(report), null, 2));
+      }
+    }
+
+    return report.passed;
+  } finally {
+    await browser.close();
+  }
+}
+
 /**
  * Main execution function
  */
@@ -67,15 +190,13 @@ async function run(options: CliOptions & { testEmail?: boolean }): Promise<void>
     process.exit(success ? 0 : 1);
   }
 
-  // Validate configuration
+  // Validate configuration (a dry run doesn't need the email settings, but everything else must be valid)
   const errors = validateConfig(config, !options.dryRun);
   if (errors.length > 0) {
     for (const error of errors) {
       logger.error(error);
     }
-    if (!options.dryRun) {
-      process.exit(1);
-    }
+    process.exit(1);
   }
 
   // Determine date range
@@ -83,34 +204,62 @@ async function run(options: CliOptions & { testEmail?: boolean }): Promise<void>
     ? getWeekRangeFromMonday(options.week)
     : getPreviousWeekRange();
 
+  // Load the filter rules before scraping, so a broken rules file fails fast
+  const filterRules = getFilterRules(config);
+
   logExtractionStart(formatDateRange(dateRange), config.countyName);
 
   // Initialize client and run extraction
   const client = await createTpadClient(config);
+  const recorder = createScrapeRecorder(dateRange);
   
   try {
     // Extract data from TPAD
-    const { rawRecords, totalParcels, totalPages } = await client.extract(dateRange);
+    const { rawRecords, salesHistory, totalParcels, totalPages } = await client.extract(dateRange, {
+      resume: options.resume,
+      refresh: options.refresh,
+      recorder,
+    });
 
     if (rawRecords.length === 0) {
       logger.info('No records found for the specified period');
-      await client.close();
+      clearCheckpoint(config.outDir, dateRange);
       return;
     }
 
+    // Learn street/subdivision locations from this run's detail pages, then use
+    // them to fill in city/ZIP for records whose detail page failed
+    const gazetteer = loadGazetteer(config.outDir);
+    learnLocations(gazetteer, rawRecords);
+    saveGazetteer(config.outDir, gazetteer);
+    const locatedRecords = fillMissingLocations(rawRecords, gazetteer);
+
+    // Every record dropped from here on is logged with its reason for the rejected_* audit files
+    const rejections = createRejectionLog();
+
     // Deduplicate raw records
-    const deduped = deduplicateRawRecords(rawRecords);
+    const deduped = deduplicateRawRecords(locatedRecords, rejections);
+
+    // Combine the parcels of multi-parcel sales (same book/page and date), so the
+    // filters judge the whole transaction rather than a parcel with part of a split price
+    const transactions = groupTransactions(deduped, rejections);
 
     // Filter for arms-length sales
-    const { passed, filtered, reasons } = filterRecords(deduped, config, dateRange);
-    logFilteringResults(deduped.length, passed.length, reasons);
+    const { passed, reasons } = filterRecords(transactions, config, dateRange, filterRules, rejections);
+    logFilteringResults(transactions.length, passed.length, reasons);
 
     // Transform to cleaned format and deduplicate
     // 1. First dedupe by parcel+address+date+price (catches true duplicates)
     // 2. Then dedupe by owner+address (for marketing, one contact per owner/address)
+    // 3. Then merge similar owners/addresses that the exact keys miss
     const transformedSales = transformRecords(passed);
-    const dedupedByRecord = deduplicateCleanedSales(transformedSales);
-    const cleanedSales = deduplicateByOwnerAddress(dedupedByRecord);
+    const dedupedByRecord = deduplicateCleanedSales(transformedSales, rejections);
+    const dedupedByOwner = deduplicateByOwnerAddress(dedupedByRecord, rejections);
+    const { unique: cleanedSales, clusters } = deduplicateFuzzy(
+      dedupedByOwner,
+      config.fuzzyDedupeThreshold,
+      rejections
+    );
 
     // Generate output filenames
     const dateLabel = dateRange.label;
@@ -129,14 +278,53 @@ async function run(options: CliOptions & { testEmail?: boolean }): Promise<void>
       generateFilename('cleaned_sales', dateLabel, 'csv')
     );
     
+    const countyNames = config.counties.map(c => c.name);
+
     const cleanedJsonPath = writeCleanedJson(
       cleanedSales, 
       dateRange, 
-      config.countyName, 
+      countyNames, 
+      config.classifications.map(c => c.name),
       config.outDir, 
       generateFilename('cleaned_sales', dateLabel, 'json')
     );
 
+    // Per-county CSVs alongside the combined file when covering several counties
+    const countyCsvPaths: Record<string, string> = {};
+    if (countyNames.length > 1) {
+      for (const county of countyNames) {
+        countyCsvPaths[county] = writeCleanedCsv(
+          cleanedSales.filter(s => s.county === county),
+          config.outDir,
+          generateFilename(`cleaned_sales_${getCountySlug([county])}`, dateLabel, 'csv')
+        );
+      }
+    }
+
+    const rejectedCsvPath = writeRejectedCsv(
+      rejections.getEntries(),
+      config.outDir,
+      generateFilename('rejected', dateLabel, 'csv')
+    );
+
+    const rejectedJsonPath = writeRejectedJson(
+      rejections.getEntries(),
+      dateRange,
+      config.outDir,
+      generateFilename('rejected', dateLabel, 'json')
+    );
+
+    const fuzzyDuplicatesCsvPath = config.fuzzyDedupeThreshold > 0
+      ? writeFuzzyDuplicatesCsv(clusters, config.outDir, generateFilename('fuzzy_duplicates', dateLabel, 'csv'))
+      : undefined;
+
+    const salesHistoryCsvPath = config.exportSalesHistory
+      ? writeSalesHistoryCsv(salesHistory, config.outDir, generateFilename('sales_history', dateLabel, 'csv'))
+      : undefined;
+
+    // Outputs are safely on disk, so the scrape no longer needs to be resumable
+    clearCheckpoint(config.outDir, dateRange);
+
     const result: ExtractionResult = {
       rawRecords,
       cleanedSales,
@@ -145,15 +333,25 @@ async function run(options: CliOptions & { testEmail?: boolean }): Promise<void>
         rawCsv: rawCsvPath,
         cleanedCsv: cleanedCsvPath,
         cleanedJson: cleanedJsonPath,
+        rejectedCsv: rejectedCsvPath,
+        rejectedJson: rejectedJsonPath,
+        fuzzyDuplicatesCsv: fuzzyDuplicatesCsvPath,
+        salesHistoryCsv: salesHistoryCsvPath,
+        countyCsvs: countyCsvPaths,
       },
     };
 
     // Upload to S3 if configured
     if (config.s3Bucket) {
-      const keyPrefix = generateS3KeyPrefix(config.countyName, dateLabel);
+      const keyPrefix = generateS3KeyPrefix(getCountySlug(countyNames), dateLabel);
       await uploadOutputs(config, [
         { path: cleanedCsvPath, keyPrefix },
         { path: cleanedJsonPath, keyPrefix },
+        { path: rejectedCsvPath, keyPrefix },
+        { path: rejectedJsonPath, keyPrefix },
+        ...Object.values(countyCsvPaths).map(path => ({ path, keyPrefix })),
+        ...(fuzzyDuplicatesCsvPath ? [{ path: fuzzyDuplicatesCsvPath, keyPrefix }] : []),
+        ...(salesHistoryCsvPath ? [{ path: salesHistoryCsvPath, keyPrefix }] : []),
       ]);
     }
 
@@ -178,6 +376,13 @@ async function run(options: CliOptions & { testEmail?: boolean }): Promise<void>
 
   } finally {
     await client.close();
+    // Written even when the run fails, as that is when it is most useful; a failure
+    // here is only logged, so it can't replace the run's own error
+    try {
+      writeScrapeReport(config.outDir, recorder);
+    } catch (error) {
+      logger.error('Failed to write scrape report', error as Error);
+    }
   }
 }
 
@@ -6,7 +6,9 @@ import { stringify } from 'csv-stringify/sync';
 import { parse } from 'csv-parse/sync';
 import * as fs from 'fs';
 import * as path from 'path';
-import type { RawParcelRecord, CleanedSale } from '../types/index.js';
+import type { RawParcelRecord, CleanedSale, SalesHistoryRecord } from '../types/index.js';
+import type { RejectedRecord } from '../processors/rejection-log.js';
+import type { FuzzyCluster } from '../processors/fuzzy-dedupe.js';
 import { logger, logOutputFile } from '../utils/logger.js';
 
 /**
@@ -14,16 +16,52 @@ import { logger, logOutputFile } from '../utils/logger.js';
  */
 const CLEANED_HEADERS = [
   'parcel_id',
+  'county',
   'situs_address',
   'city',
   'state',
   'zip',
+  'location_confidence',
   'owner_name',
   'owner_mailing_address',
+  'owner_mailing_street',
+  'owner_mailing_city',
+  'owner_mailing_state',
+  'owner_mailing_zip',
+  'owner_first_name',
+  'owner_middle_name',
+  'owner_last_name',
+  'owner_suffix',
+  'co_owner_first_name',
+  'co_owner_last_name',
+  'household_name',
+  'salutation',
   'sale_date',
   'sale_price',
   'deed_instrument',
+  'book_page',
+  'transaction_parcel_ids',
+  'shared_consideration',
+  'seller_name',
+  'buyer_name',
+  'owner_entity_type',
+  'seller_entity_type',
+  'sale_type',
+  'prior_sale_date',
+  'prior_sale_price',
+  'prior_deed_instrument',
   'land_use',
+  'property_class',
+  'acreage',
+  'land_value',
+  'improvement_value',
+  'appraised_value',
+  'assessed_value',
+  'year_built',
+  'finished_sqft',
+  'building_type',
+  'subdivision',
+  'lot',
   'source_url',
   'extracted_at',
 ];
@@ -33,21 +71,107 @@ const CLEANED_HEADERS = [
  */
 const RAW_HEADERS = [
   'parcel_id',
+  'county',
   'owner_name',
+  'owner_mailing_address',
   'property_address',
   'city',
   'zip',
+  'location_confidence',
   'classification',
   'land_use',
   'acreage',
+  'land_value',
+  'improvement_value',
+  'appraised_value',
   'assessed_value',
+  'year_built',
+  'finished_sqft',
+  'building_type',
+  'subdivision',
+  'lot',
   'sale_date',
   'sale_price',
   'deed_instrument',
+  'seller_name',
+  'buyer_name',
   'qualified_sale',
+  'book_page',
+  'vacant_improved',
+  'prior_sale_date',
+  'prior_sale_price',
+  'prior_deed_instrument',
+  'source_url',
+];
+
+/**
+ * CSV column headers for the sales history export
+ */
+const SALES_HISTORY_HEADERS = [
+  'parcel_id',
+  'county',
+  'property_address',
+  'sale_date',
+  'sale_price',
+  'deed_instrument',
+  'seller_name',
+  'buyer_name',
+  'qualified_sale',
+  'book_page',
+  'vacant_improved',
+  'source_url',
+];
+
+/**
+ * CSV column headers for the rejected records audit
+ */
+const REJECTED_HEADERS = [
+  'stage',
+  'reason',
+  'parcel_id',
+  'county',
+  'address',
+  'owner_name',
+  'sale_date',
+  'sale_price',
+  'deed_instrument',
+  'duplicate_key',
+  'kept_parcel_id',
+  'kept_address',
+  'kept_owner_name',
+  'kept_sale_date',
+  'kept_sale_price',
+  'source_url',
+];
+
+/**
+ * CSV column headers for the fuzzy duplicate clusters
+ */
+const FUZZY_DUPLICATES_HEADERS = [
+  'cluster_id',
+  'role',
+  'score',
+  'parcel_id',
+  'county',
+  'owner_name',
+  'situs_address',
+  'city',
+  'sale_date',
+  'sale_price',
   'source_url',
 ];
 
+/**
+ * Cleaned sale as a CSV row: parcel IDs joined with "; ", flags as true/false
+ */
+function toCleanedRow(sale: CleanedSale): Record<string, unknown> {
+  return {
+    ...sale,
+    transaction_parcel_ids: sale.transaction_parcel_ids.join('; '),
+    shared_consideration: String(sale.shared_consideration),
+  };
+}
+
 /**
  * Ensure output directory exists
  */
@@ -70,7 +194,7 @@ export function writeCleanedCsv(
   
   const filePath = path.join(outDir, filename);
   
-  const csvContent = stringify(sales, {
+  const csvContent = stringify(sales.map(toCleanedRow), {
     header: true,
     columns: CLEANED_HEADERS,
   });
@@ -104,6 +228,80 @@ export function writeRawCsv(
   return filePath;
 }
 
+/**
+ * Write every sale of each parcel to CSV
+ */
+export function writeSalesHistoryCsv(
+  records: SalesHistoryRecord[],
+  outDir: string,
+  filename: string
+): string {
+  ensureOutputDir(outDir);
+
+  const filePath = path.join(outDir, filename);
+
+  const csvContent = stringify(records, {
+    header: true,
+    columns: SALES_HISTORY_HEADERS,
+  });
+
+  fs.writeFileSync(filePath, csvContent, 'utf-8');
+  logOutputFile('CSV (sales history)', filePath, records.length);
+
+  return filePath;
+}
+
+/**
+ * Write the records dropped by filtering and deduplication to CSV
+ */
+export function writeRejectedCsv(
+  entries: RejectedRecord[],
+  outDir: string,
+  filename: string
+): string {
+  ensureOutputDir(outDir);
+
+  const filePath = path.join(outDir, filename);
+
+  const csvContent = stringify(entries, {
+    header: true,
+    columns: REJECTED_HEADERS,
+  });
+
+  fs.writeFileSync(filePath, csvContent, 'utf-8');
+  logOutputFile('CSV (rejected)', filePath, entries.length);
+
+  return filePath;
+}
+
+/**
+ * Write fuzzy dedupe clusters to CSV, one row per sale: the survivor first, then
+ * the sales merged into it with their similarity score
+ */
+export function writeFuzzyDuplicatesCsv(
+  clusters: FuzzyCluster[],
+  outDir: string,
+  filename: string
+): string {
+  ensureOutputDir(outDir);
+
+  const filePath = path.join(outDir, filename);
+  const rows = clusters.flatMap(cluster => [
+    { cluster_id: cluster.id, role: 'survivor', score: '', ...cluster.survivor },
+    ...cluster.merged.map(({ sale, score }) => ({ cluster_id: cluster.id, role: 'merged', score, ...sale })),
+  ]);
+
+  const csvContent = stringify(rows, {
+    header: true,
+    columns: FUZZY_DUPLICATES_HEADERS,
+  });
+
+  fs.writeFileSync(filePath, csvContent, 'utf-8');
+  logOutputFile('CSV (fuzzy duplicates)', filePath, rows.length);
+
+  return filePath;
+}
+
 /**
  * Read CSV file and parse to records
  */
@@ -121,7 +319,7 @@ export function readCsv<T extends Record<string, unknown>>(filePath: string): T[
  * Convert cleaned sales to CSV string (for email attachment)
  */
 export function cleanedSalesToCsvString(sales: CleanedSale[]): string {
-  return stringify(sales, {
+  return stringify(sales.map(toCleanedRow), {
     header: true,
     columns: CLEANED_HEADERS,
   });
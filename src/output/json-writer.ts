@@ -8,6 +8,20 @@ import type { CleanedSale, RawParcelRecord, DateRange } from '../types/index.js'
 import { logger, logOutputFile } from '../utils/logger.js';
 import { ensureOutputDir } from './csv-writer.js';
 import { getSalesStats } from '../processors/transform.js';
+import { joinCountyNames } from '../config/selectors.js';
+import { summarizeRejections } from '../processors/rejection-log.js';
+import type { RejectedRecord } from '../processors/rejection-log.js';
+
+/**
+ * Summary statistics as written to JSON
+ */
+export interface JsonStats {
+  total_value: number;
+  average_price: number;
+  median_price: number;
+  min_price: number;
+  max_price: number;
+}
 
 /**
  * Output JSON structure with metadata
@@ -22,31 +36,50 @@ export interface JsonOutput {
     };
     county: string;
     record_count: number;
-    stats: {
-      total_value: number;
-      average_price: number;
-      median_price: number;
-      min_price: number;
-      max_price: number;
-    };
+    stats: JsonStats;
+    counties: {
+      county: string;
+      record_count: number;
+      stats: JsonStats;
+    }[];
+    classifications: {
+      classification: string;
+      record_count: number;
+      stats: JsonStats;
+    }[];
   };
   records: CleanedSale[];
 }
 
+/**
+ * Convert sales statistics to the JSON output shape
+ */
+function toJsonStats(sales: CleanedSale[]): JsonStats {
+  const stats = getSalesStats(sales);
+  return {
+    total_value: stats.totalValue,
+    average_price: Math.round(stats.averagePrice),
+    median_price: Math.round(stats.medianPrice),
+    min_price: stats.minPrice,
+    max_price: stats.maxPrice,
+  };
+}
+
 /**
  * Write cleaned sales to JSON file with metadata
+ * Includes overall stats plus per-county and per-classification breakdowns
  */
 export function writeCleanedJson(
   sales: CleanedSale[],
   dateRange: DateRange,
-  countyName: string,
+  countyNames: string[],
+  classNames: string[],
   outDir: string,
   filename: string
 ): string {
   ensureOutputDir(outDir);
   
   const filePath = path.join(outDir, filename);
-  const stats = getSalesStats(sales);
   
   const output: JsonOutput = {
     metadata: {
@@ -56,15 +89,25 @@ export function writeCleanedJson(
         end: dateRange.end.toISOString().split('T')[0],
         label: dateRange.label,
       },
-      county: countyName,
+      county: joinCountyNames(countyNames),
       record_count: sales.length,
-      stats: {
-        total_value: stats.totalValue,
-        average_price: Math.round(stats.averagePrice),
-        median_price: Math.round(stats.medianPrice),
-        min_price: stats.minPrice,
-        max_price: stats.maxPrice,
-      },
+      stats: toJsonStats(sales),
+      counties: countyNames.map((county) => {
+        const countySales = sales.filter(s => s.county === county);
+        return {
+          county,
+          record_count: countySales.length,
+          stats: toJsonStats(countySales),
+        };
+      }),
+      classifications: classNames.map((classification) => {
+        const classSales = sales.filter(s => s.property_class === classification);
+        return {
+          classification,
+          record_count: classSales.length,
+          stats: toJsonStats(classSales),
+        };
+      }),
     },
     records: sales,
   };
@@ -101,6 +144,33 @@ export function writeRawJson(
   return filePath;
 }
 
+/**
+ * Write the records dropped by filtering and deduplication, with counts by stage and reason
+ */
+export function writeRejectedJson(
+  entries: RejectedRecord[],
+  dateRange: DateRange,
+  outDir: string,
+  filename: string
+): string {
+  ensureOutputDir(outDir);
+
+  const filePath = path.join(outDir, filename);
+
+  const output = {
+    generated_at: new Date().toISOString(),
+    date_range: dateRange.label,
+    record_count: entries.length,
+    by_stage: summarizeRejections(entries),
+    records: entries,
+  };
+
+  fs.writeFileSync(filePath, JSON.stringify(output, null, 2), 'utf-8');
+  logOutputFile('JSON (rejected)', filePath, entries.length);
+
+  return filePath;
+}
+
 /**
  * Read JSON file
  */
@@ -0,0 +1,241 @@
+/**
+ * USPS-style address standardization
+ *
+ * TPAD search results list street addresses number last ("OWEN RD 467") and spell
+ * suffixes either way ("OWEN ROAD", "OWEN RD"), so the same house can appear under
+ * several addresses. Standardized addresses put the house number first and use the
+ * USPS abbreviations for suffixes, directionals and unit designators.
+ */
+
+/**
+ * Street suffixes (USPS Publication 28, Appendix C1) common in West Tennessee, and
+ * the misspellings seen in TPAD
+ */
+const STREET_SUFFIXES: Record<string, string> = {
+  ALLEY: 'ALY',
+  AV: 'AVE',
+  AVENUE: 'AVE',
+  BEND: 'BND',
+  BLUFF: 'BLF',
+  BOULEVARD: 'BLVD',
+  BRANCH: 'BR',
+  CIRCLE: 'CIR',
+  CRCL: 'CIR',
+  COURT: 'CT',
+  CRT: 'CT',
+  COVE: 'CV',
+  CREEK: 'CRK',
+  CROSSING: 'XING',
+  DRIVE: 'DR',
+  DRV: 'DR',
+  ESTATES: 'ESTS',
+  EXTENSION: 'EXT',
+  GLEN: 'GLN',
+  GROVE: 'GRV',
+  HEIGHTS: 'HTS',
+  HIGHWAY: 'HWY',
+  HIGHWY: 'HWY',
+  HILL: 'HL',
+  HOLLOW: 'HOLW',
+  LANDING: 'LNDG',
+  LANE: 'LN',
+  LOOP: 'LOOP',
+  MEADOWS: 'MDWS',
+  PARKWAY: 'PKWY',
+  PKY: 'PKWY',
+  PIKE: 'PIKE',
+  PLACE: 'PL',
+  PLAZA: 'PLZ',
+  POINT: 'PT',
+  RIDGE: 'RDG',
+  ROAD: 'RD',
+  ROW: 'ROW',
+  RUN: 'RUN',
+  SQUARE: 'SQ',
+  STREET: 'ST',
+  STR: 'ST',
+  TERRACE: 'TER',
+  TRACE: 'TRCE',
+  TRAIL: 'TRL',
+  VIEW: 'VW',
+  VILLAGE: 'VLG',
+  WAY: 'WAY',
+};
+
+const DIRECTIONALS: Record<string, string> = {
+  NORTH: 'N',
+  SOUTH: 'S',
+  EAST: 'E',
+  WEST: 'W',
+  NORTHEAST: 'NE',
+  NORTHWEST: 'NW',
+  SOUTHEAST: 'SE',
+  SOUTHWEST: 'SW',
+};
+
+const UNIT_DESIGNATORS: Record<string, string> = {
+  APARTMENT: 'APT',
+  BUILDING: 'BLDG',
+  FLOOR: 'FL',
+  LOT: 'LOT',
+  ROOM: 'RM',
+  SPACE: 'SPC',
+  SUITE: 'STE',
+  TRAILER: 'TRLR',
+  UNIT: 'UNIT',
+  '#': '#',
+};
+
+/**
+ * Add each abbreviation as its own key, so "RD" and "ROAD" both resolve to "RD"
+ */
+function withAbbreviations(names: Record<string, string>): Map<string, string> {
+  return new Map([
+    ...Object.entries(names),
+    ...Object.values(names).map(abbr => [abbr, abbr] as [string, string]),
+  ]);
+}
+
+const SUFFIX_LOOKUP = withAbbreviations(STREET_SUFFIXES);
+const DIRECTIONAL_LOOKUP = withAbbreviations(DIRECTIONALS);
+const UNIT_LOOKUP = withAbbreviations(UNIT_DESIGNATORS);
+
+/**
+ * "467", "467A", "12-14"
+ */
+const HOUSE_NUMBER = /^\d+[A-Z]?$|^\d+-\d+$/;
+
+/**
+ * Words a route number follows ("HWY 51", "COUNTY ROAD 12"), which must not be mistaken for a house number
+ */
+const ROUTE_WORDS = new Set(['HWY', 'HIGHWAY', 'ROUTE', 'RT', 'SR', 'US', 'I', 'INTERSTATE']);
+const ROUTE_PHRASES = new Set(['COUNTY ROAD', 'COUNTY RD', 'CO ROAD', 'CO RD']);
+
+/**
+ * Whether the last token of a street is a route number rather than a house number
+ */
+function endsWithRouteNumber(street: string[]): boolean {
+  const end = street.length - 1;
+  return ROUTE_WORDS.has(street[end - 1]) || ROUTE_PHRASES.has(street.slice(Math.max(end - 2, 0), end).join(' '));
+}
+
+const PO_BOX = /^(?:P ?O ?|POST OFFICE )?BOX (\S+)$|^POB (\S+)$/;
+
+/**
+ * Standardize a street address line, e.g. "OWEN ROAD 467" -> "467 OWEN RD",
+ * "123 north main street apartment 4" -> "123 N MAIN ST APT 4", "P.O. Box 12" -> "PO BOX 12"
+ */
+export function standardizeStreetAddress(address: string): string {
+  const text = (address ?? '')
+    .toUpperCase()
+    .replace(/\./g, '')
+    .replace(/,/g, ' ')
+    .replace(/#/g, ' # ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  if (!text) {
+    return '';
+  }
+
+  const poBox = text.match(PO_BOX);
+  if (poBox) {
+    return `PO BOX ${poBox[1] ?? poBox[2]}`;
+  }
+
+  const tokens = text.split(' ');
+
+  // The unit designator and what follows it ("APT 4") stay at the end
+  const unitStart = tokens.findIndex((token, i) => i > 0 && i < tokens.length - 1 && UNIT_LOOKUP.has(token));
+  const street = unitStart >= 0 ? tokens.slice(0, unitStart) : tokens;
+  const unit = unitStart >= 0 ? [UNIT_LOOKUP.get(tokens[unitStart])!, ...tokens.slice(unitStart + 1)] : [];
+
+  // TPAD's "OWEN RD 467" -> "467 OWEN RD"
+  if (street.length > 1 && !HOUSE_NUMBER.test(street[0]) && HOUSE_NUMBER.test(street[street.length - 1]) &&
+    !endsWithRouteNumber(street)) {
+    street.unshift(street.pop()!);
+  }
+
+  const number = HOUSE_NUMBER.test(street[0]) ? [street[0]] : [];
+  const name = street.slice(number.length);
+
+  // Directionals and the suffix are only abbreviated where they can't be the street's name
+  // ("123 NORTH ST", "123 COURT ST")
+  let suffixIndex = name.length - 1;
+  if (name.length > 2 && DIRECTIONAL_LOOKUP.has(name[suffixIndex]) && SUFFIX_LOOKUP.has(name[suffixIndex - 1])) {
+    name[suffixIndex] = DIRECTIONAL_LOOKUP.get(name[suffixIndex])!;
+    suffixIndex--;
+  }
+  if (suffixIndex > 0 && SUFFIX_LOOKUP.has(name[suffixIndex])) {
+    name[suffixIndex] = SUFFIX_LOOKUP.get(name[suffixIndex])!;
+  }
+  if (suffixIndex > 1 && DIRECTIONAL_LOOKUP.has(name[0])) {
+    name[0] = DIRECTIONAL_LOOKUP.get(name[0])!;
+  }
+  // "HIGHWAY 51" -> "HWY 51"
+  name.forEach((token, i) => {
+    if (token === 'HIGHWAY' && /^\d/.test(name[i + 1] ?? '')) {
+      name[i] = 'HWY';
+    }
+  });
+
+  return [...number, ...name, ...unit].join(' ');
+}
+
+/**
+ * Mailing address components; parts that can't be read are ''
+ */
+export interface MailingAddress {
+  street: string;
+  city: string;
+  state: string;
+  /** "38083" or "38083-1220" */
+  zip: string;
+}
+
+/**
+ * Split a mailing address into standardized components
+ * Accepts the owner card's "PO BOX 1220, MILLINGTON TN 38083" as well as
+ * "123 MAIN ST, APT 4, MEMPHIS, TN 38111-1234"
+ */
+export function parseMailingAddress(address: string): MailingAddress {
+  const parts = (address ?? '')
+    .toUpperCase()
+    .split(/\s*[,\n]\s*/)
+    .map(part => part.replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+
+  if (parts.length === 0) {
+    return { street: '', city: '', state: '', zip: '' };
+  }
+
+  const cityStateZip = parts[parts.length - 1].match(/^(.*?)\s*\b([A-Z]{2})\s+(\d{5})(?:-?(\d{4}))?$/);
+  if (!cityStateZip) {
+    return { street: standardizeStreetAddress(parts.join(' ')), city: '', state: '', zip: '' };
+  }
+
+  const streetParts = parts.slice(0, -1);
+  let city = cityStateZip[1].replace(/\./g, '').trim();
+  if (!city && streetParts.length > 1) {
+    city = streetParts.pop()!;
+  }
+  // Everything on one line - the street and city can't be told apart
+  if (streetParts.length === 0) {
+    streetParts.push(city);
+    city = '';
+  }
+
+  return {
+    street: standardizeStreetAddress(streetParts.join(' ')),
+    city,
+    state: cityStateZip[2],
+    zip: cityStateZip[4] ? `${cityStateZip[3]}-${cityStateZip[4]}` : cityStateZip[3],
+  };
+}
+
+/**
+ * "PO BOX 1220, MILLINGTON TN 38083"
+ */
+export function formatMailingAddress(address: MailingAddress): string {
+  const cityLine = [address.city, address.state, address.zip].filter(Boolean).join(' ');
+  return [address.street, cityLine].filter(Boolean).join(', ');
+}
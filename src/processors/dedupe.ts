@@ -5,6 +5,7 @@
 import type { RawParcelRecord, CleanedSale } from '../types/index.js';
 import { parseSalePrice, parseSaleDate } from '../scraper/parcel-details.js';
 import { logger } from '../utils/logger.js';
+import type { RejectionLog } from './rejection-log.js';
 
 /**
  * Normalize parcel ID by removing extra whitespace
@@ -50,15 +51,18 @@ export function generateAddressKey(sale: CleanedSale): string {
  * Deduplicate raw records by parcel_id + sale_date + sale_price
  * Keeps the first occurrence of each unique combination
  */
-export function deduplicateRawRecords(records: RawParcelRecord[]): RawParcelRecord[] {
-  const seen = new Set<string>();
+export function deduplicateRawRecords(records: RawParcelRecord[], rejections?: RejectionLog): RawParcelRecord[] {
+  const seen = new Map<string, RawParcelRecord>();
   const unique: RawParcelRecord[] = [];
 
   for (const record of records) {
     const key = generateSaleKey(record);
-    
-    if (!seen.has(key)) {
-      seen.add(key);
+    const kept = seen.get(key);
+
+    if (kept) {
+      rejections?.addDuplicate('dedupe_raw', 'Same parcel, sale date and price', record, kept, key);
+    } else {
+      seen.set(key, record);
       unique.push(record);
     }
   }
@@ -79,9 +83,9 @@ export function deduplicateRawRecords(records: RawParcelRecord[]): RawParcelReco
  * Deduplicate cleaned sales by parcel+address+date+price
  * Also uses address-only key as fallback to catch duplicates with parcel ID variations
  */
-export function deduplicateCleanedSales(sales: CleanedSale[]): CleanedSale[] {
-  const seenByKey = new Set<string>();
-  const seenByAddress = new Set<string>();
+export function deduplicateCleanedSales(sales: CleanedSale[], rejections?: RejectionLog): CleanedSale[] {
+  const seenByKey = new Map<string, CleanedSale>();
+  const seenByAddress = new Map<string, CleanedSale>();
   const unique: CleanedSale[] = [];
 
   for (const sale of sales) {
@@ -89,12 +93,19 @@ export function deduplicateCleanedSales(sales: CleanedSale[]): CleanedSale[] {
     const addressKey = generateAddressKey(sale);
     
     // Skip if we've seen this exact combination OR this address combination
-    if (seenByKey.has(primaryKey) || seenByAddress.has(addressKey)) {
+    const keptByKey = seenByKey.get(primaryKey);
+    if (keptByKey) {
+      rejections?.addDuplicate('dedupe_sale', 'Same parcel, address, sale date and price', sale, keptByKey, primaryKey);
+      continue;
+    }
+    const keptByAddress = seenByAddress.get(addressKey);
+    if (keptByAddress) {
+      rejections?.addDuplicate('dedupe_sale', 'Same address, sale date and price', sale, keptByAddress, addressKey);
       continue;
     }
     
-    seenByKey.add(primaryKey);
-    seenByAddress.add(addressKey);
+    seenByKey.set(primaryKey, sale);
+    seenByAddress.set(addressKey, sale);
     unique.push(sale);
   }
 
@@ -157,8 +168,9 @@ export function sortBySaleDate(records: RawParcelRecord[], ascending = false): R
  * Useful for marketing - same owner at same address should only appear once
  * Keeps the record with the highest sale price (most likely the main property)
  */
-export function deduplicateByOwnerAddress(sales: CleanedSale[]): CleanedSale[] {
+export function deduplicateByOwnerAddress(sales: CleanedSale[], rejections?: RejectionLog): CleanedSale[] {
   const byOwnerAddress = new Map<string, CleanedSale>();
+  const dropped: { sale: CleanedSale; key: string }[] = [];
 
   for (const sale of sales) {
     // Create key from owner name + address
@@ -166,20 +178,35 @@ export function deduplicateByOwnerAddress(sales: CleanedSale[]): CleanedSale[] {
     const address = sale.situs_address?.trim().toUpperCase() || '';
     const key = `${owner}|${address}`;
     
-    if (!key || key === '|') continue;
+    if (!key || key === '|') {
+      rejections?.addDuplicate('dedupe_owner_address', 'No owner or address', sale, null, key);
+      continue;
+    }
 
     const existing = byOwnerAddress.get(key);
     
     if (!existing) {
       byOwnerAddress.set(key, sale);
+    } else if (sale.sale_price > existing.sale_price) {
+      // Keep the one with the higher sale price
+      byOwnerAddress.set(key, sale);
+      dropped.push({ sale: existing, key });
     } else {
-      // Keep the one with the higher sale price (main property vs land parcels)
-      if (sale.sale_price > existing.sale_price) {
-        byOwnerAddress.set(key, sale);
-      }
+      dropped.push({ sale, key });
     }
   }
 
+  // Logged once the winners are settled, as a later sale can replace a winner
+  for (const { sale, key } of dropped) {
+    rejections?.addDuplicate(
+      'dedupe_owner_address',
+      'Another sale for the same owner and address was kept (highest price wins)',
+      sale,
+      byOwnerAddress.get(key) ?? null,
+      key
+    );
+  }
+
   const unique = Array.from(byOwnerAddress.values());
   
   const removed = sales.length - unique.length;
@@ -0,0 +1,89 @@
+/**
+ * Owner entity classification - who is behind an owner or seller name
+ *
+ * TPAD names are free text ("SMITH JOHN & MARY", "ABC HOMES LLC", "SECRETARY OF HUD"),
+ * so this is keyword matching, checked from the most specific kind of entity to the
+ * least: a builder is usually also an LLC, and a bank's name often says "trust".
+ */
+
+import type { EntityType } from '../types/index.js';
+
+/**
+ * Every entity type, in the order they are checked
+ */
+export const ENTITY_TYPES: EntityType[] = [
+  'government',
+  'financial',
+  'builder',
+  'trust',
+  'company',
+  'couple',
+  'individual',
+];
+
+/**
+ * Display names for reports
+ */
+export const ENTITY_TYPE_LABELS: Record<EntityType, string> = {
+  individual: 'Individual',
+  couple: 'Couple',
+  trust: 'Trust',
+  company: 'LLC / Corp',
+  builder: 'Builder',
+  financial: 'Financial Institution',
+  government: 'Government',
+};
+
+/**
+ * Name patterns for each entity type; couple and individual are decided separately
+ */
+const ENTITY_PATTERNS: [EntityType, RegExp][] = [
+  // "TIPTON COUNTY", but not "COUNTY LINE HOMES LLC"
+  ['government', /\b(CITY OF|TOWN OF|COUNTY OF|STATE OF|UNITED STATES|USA|SECRETARY OF|HUD|HOUSING AUTHORITY|VETERANS AFFAIRS|DEPT|DEPARTMENT|BOARD OF EDUCATION|UTILITY DISTRICT)\b|\bCOUNTY( (GOVERNMENT|BOARD|COMMISSION|SCHOOLS))?$/],
+  ['financial', /\b(BANK|BANKS|BANCORP|MORTGAGE|CREDIT UNION|SAVINGS|LOANS?|LENDING|FINANCIAL|FINANCE|FEDERAL NATIONAL|FEDERAL HOME LOAN|FNMA|FHLMC|FANNIE MAE|FREDDIE MAC|SERVICING)\b/],
+  ['builder', /\b(HOMES|HOMEBUILDERS?|BUILDERS?|BUILDING|CONSTRUCTION|CONTRACTORS?|DEVELOPMENT|DEVELOPERS?|COMMUNITIES|D ?R HORTON|LENNAR|PULTE)\b/],
+  ['trust', /\b(TRUST|TRUSTS|TRUSTEES?|TR|TRS|REVOCABLE|IRREVOCABLE|LIVING)\b/],
+  ['company', /\b(LLC|INC|CORP|CORPORATION|CO|COMPANY|LP|LLP|LTD|PARTNERS|PARTNERSHIP|PROPERTIES|HOLDINGS|INVESTMENTS?|INVESTORS|ENTERPRISES|GROUP|REALTY|VENTURES|CAPITAL|ASSOCIATES|RELOCATION|RENTALS?|CHURCH|MINISTRIES)\b/],
+];
+
+/**
+ * Joint owners: "SMITH JOHN & MARY", "SMITH JOHN AND MARY", "SMITH JOHN ETUX"
+ */
+const COUPLE_PATTERN = /&|\b(AND|ETUX|ET UX|ETVIR|ET VIR|ETAL|ET AL)\b/;
+
+/**
+ * Uppercase, drop dots ("L.L.C." -> "LLC") and turn other punctuation into spaces
+ */
+function normalizeEntityName(name: string): string {
+  return name
+    .toUpperCase()
+    .replace(/\./g, '')
+    .replace(/[^A-Z0-9&]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Classify an owner, buyer or seller name, or null when there is no name
+ */
+export function classifyEntity(name: string | null | undefined): EntityType | null {
+  const normalized = normalizeEntityName(name ?? '');
+  if (!normalized) {
+    return null;
+  }
+
+  for (const [type, pattern] of ENTITY_PATTERNS) {
+    if (pattern.test(normalized)) {
+      return type;
+    }
+  }
+
+  return COUPLE_PATTERN.test(normalized) ? 'couple' : 'individual';
+}
+
+/**
+ * Parse an entity type name, e.g. from EXCLUDE_ENTITY_TYPES; null when unknown
+ */
+export function parseEntityType(value: string): EntityType | null {
+  const normalized = value.trim().toLowerCase();
+  return ENTITY_TYPES.find(type => type === normalized) ?? null;
+}
@@ -0,0 +1,321 @@
+/**
+ * Declarative filter rules
+ *
+ * A rules file is an ordered list of named rules. Each record is checked against
+ * the rules in order and the first one that matches decides: `exclude` filters the
+ * record out (counted under the rule's name), `include` keeps it without checking
+ * the rest. Records no rule matches are kept.
+ */
+
+import * as fs from 'fs';
+
+/**
+ * A field value a condition can test
+ */
+export type RuleValue = string | number | boolean | null;
+
+/**
+ * The fields of one record, as seen by the rules
+ */
+export type RuleFields = Record<string, RuleValue | undefined>;
+
+/**
+ * A test on one field; when several operators are given they must all hold
+ * Text comparisons ignore case and surrounding whitespace
+ */
+export interface FieldCondition {
+  field: string;
+  equals?: RuleValue;
+  contains?: string;
+  /** Regular expression, case-insensitive unless flags are given */
+  regex?: string;
+  flags?: string;
+  /** Allowlist - equals one of these */
+  oneOf?: RuleValue[];
+  /** Denylist - contains one of these */
+  containsAny?: string[];
+  /** Numeric bounds; "$1,250" style values are parsed, non-numeric values never match */
+  gt?: number;
+  gte?: number;
+  lt?: number;
+  lte?: number;
+}
+
+export interface AllCondition {
+  all: RuleCondition[];
+}
+
+export interface AnyCondition {
+  any: RuleCondition[];
+}
+
+export interface NotCondition {
+  not: RuleCondition;
+}
+
+export type RuleCondition = FieldCondition | AllCondition | AnyCondition | NotCondition;
+
+export type RuleAction = 'include' | 'exclude';
+
+export interface FilterRule {
+  /** Reason label; filtered counts are reported under this name */
+  name: string;
+  action: RuleAction;
+  when: RuleCondition;
+  description?: string;
+}
+
+const FIELD_OPERATORS = ['equals', 'contains', 'regex', 'oneOf', 'containsAny', 'gt', 'gte', 'lt', 'lte'];
+const NUMERIC_OPERATORS = ['gt', 'gte', 'lt', 'lte'] as const;
+
+/**
+ * Compiled regular expressions, keyed by pattern and flags
+ */
+const regexCache = new Map<string, RegExp>();
+
+function getRegex(pattern: string, flags = 'i'): RegExp {
+  const key = `${flags}/${pattern}`;
+  let regex = regexCache.get(key);
+  if (!regex) {
+    regex = new RegExp(pattern, flags);
+    regexCache.set(key, regex);
+  }
+  return regex;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isRuleValue(value: unknown): value is RuleValue {
+  return value === null || ['string', 'number', 'boolean'].includes(typeof value);
+}
+
+/**
+ * Check a condition's shape, throwing with the path to the first problem
+ */
+function validateCondition(value: unknown, at: string): asserts value is RuleCondition {
+  if (!isObject(value)) {
+    throw new Error(`${at} must be an object`);
+  }
+
+  if ('all' in value || 'any' in value) {
+    const group = 'all' in value ? 'all' : 'any';
+    const conditions = value[group];
+    if (!Array.isArray(conditions) || conditions.length === 0) {
+      throw new Error(`${at}.${group} must be a non-empty array`);
+    }
+    conditions.forEach((condition, i) => validateCondition(condition, `${at}.${group}[${i}]`));
+    return;
+  }
+
+  if ('not' in value) {
+    validateCondition(value.not, `${at}.not`);
+    return;
+  }
+
+  if (typeof value.field !== 'string' || !value.field) {
+    throw new Error(`${at} needs a field, or an all/any/not group`);
+  }
+
+  const unknown = Object.keys(value).filter(key => key !== 'field' && key !== 'flags' && !FIELD_OPERATORS.includes(key));
+  if (unknown.length > 0) {
+    throw new Error(`${at} has unknown operator(s): ${unknown.join(', ')}`);
+  }
+  if (!FIELD_OPERATORS.some(op => op in value)) {
+    throw new Error(`${at} needs one of: ${FIELD_OPERATORS.join(', ')}`);
+  }
+
+  if ('equals' in value && !isRuleValue(value.equals)) {
+    throw new Error(`${at}.equals must be a string, number, boolean or null`);
+  }
+  if ('contains' in value && typeof value.contains !== 'string') {
+    throw new Error(`${at}.contains must be a string`);
+  }
+  if ('regex' in value) {
+    if (typeof value.regex !== 'string') {
+      throw new Error(`${at}.regex must be a string`);
+    }
+    // Compiled regexes are shared between records, and g/y would carry lastIndex from one to the next
+    if (typeof value.flags === 'string' && /[gy]/.test(value.flags)) {
+      throw new Error(`${at}.flags must not include g or y`);
+    }
+    try {
+      getRegex(value.regex, typeof value.flags === 'string' ? value.flags : undefined);
+    } catch (error) {
+      throw new Error(`${at}.regex is invalid: ${(error as Error).message}`);
+    }
+  }
+  if ('oneOf' in value && !(Array.isArray(value.oneOf) && value.oneOf.every(isRuleValue))) {
+    throw new Error(`${at}.oneOf must be an array of values`);
+  }
+  if ('containsAny' in value && !(Array.isArray(value.containsAny) && value.containsAny.every(v => typeof v === 'string'))) {
+    throw new Error(`${at}.containsAny must be an array of strings`);
+  }
+  for (const op of NUMERIC_OPERATORS) {
+    if (op in value && typeof value[op] !== 'number') {
+      throw new Error(`${at}.${op} must be a number`);
+    }
+  }
+}
+
+/**
+ * Validate parsed rules file contents ({ "rules": [...] })
+ */
+export function parseFilterRules(value: unknown): FilterRule[] {
+  if (!isObject(value) || !Array.isArray(value.rules)) {
+    throw new Error('Filter rules must be an object with a "rules" array');
+  }
+
+  const names = new Set<string>();
+
+  return value.rules.map((rule: unknown, i) => {
+    const at = `rules[${i}]`;
+    if (!isObject(rule)) {
+      throw new Error(`${at} must be an object`);
+    }
+    if (typeof rule.name !== 'string' || !rule.name.trim()) {
+      throw new Error(`${at}.name is required`);
+    }
+    if (rule.action !== 'include' && rule.action !== 'exclude') {
+      throw new Error(`${at}.action must be "include" or "exclude"`);
+    }
+    if (names.has(rule.name)) {
+      throw new Error(`${at}.name "${rule.name}" is used by an earlier rule`);
+    }
+    names.add(rule.name);
+    validateCondition(rule.when, `${at}.when`);
+
+    return {
+      name: rule.name,
+      action: rule.action,
+      when: rule.when,
+      ...(typeof rule.description === 'string' ? { description: rule.description } : {}),
+    };
+  });
+}
+
+/**
+ * Read and validate a JSON rules file
+ */
+export function loadFilterRules(filePath: string): FilterRule[] {
+  let json: unknown;
+  try {
+    json = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Could not read filter rules from ${filePath}: ${(error as Error).message}`);
+  }
+
+  try {
+    return parseFilterRules(json);
+  } catch (error) {
+    throw new Error(`Invalid filter rules in ${filePath}: ${(error as Error).message}`);
+  }
+}
+
+function normalizeText(value: RuleValue | undefined): string {
+  return value === null || value === undefined ? '' : String(value).trim().toLowerCase();
+}
+
+/**
+ * Numeric value of a field, e.g. "$1,250,000" -> 1250000; null when it isn't a number
+ */
+function toNumber(value: RuleValue | undefined): number | null {
+  if (typeof value === 'number') {
+    return value;
+  }
+  if (typeof value !== 'string' || !value.trim()) {
+    return null;
+  }
+  const num = Number(value.replace(/[$,\s]/g, ''));
+  return Number.isFinite(num) ? num : null;
+}
+
+function valuesEqual(actual: RuleValue | undefined, expected: RuleValue): boolean {
+  if (expected === null || typeof expected === 'boolean') {
+    return (actual ?? null) === expected;
+  }
+  if (typeof expected === 'number') {
+    return toNumber(actual) === expected;
+  }
+  return normalizeText(actual) === normalizeText(expected);
+}
+
+function matchesField(condition: FieldCondition, fields: RuleFields): boolean {
+  const value = fields[condition.field];
+  const text = normalizeText(value);
+
+  if ('equals' in condition && !valuesEqual(value, condition.equals ?? null)) {
+    return false;
+  }
+  if (condition.contains !== undefined && !text.includes(normalizeText(condition.contains))) {
+    return false;
+  }
+  if (condition.regex !== undefined && !getRegex(condition.regex, condition.flags).test(String(value ?? ''))) {
+    return false;
+  }
+  if (condition.oneOf && !condition.oneOf.some(expected => valuesEqual(value, expected))) {
+    return false;
+  }
+  if (condition.containsAny && !(text && condition.containsAny.some(term => text.includes(normalizeText(term))))) {
+    return false;
+  }
+
+  if (NUMERIC_OPERATORS.some(op => condition[op] !== undefined)) {
+    const num = toNumber(value);
+    if (num === null) {
+      return false;
+    }
+    if ((condition.gt !== undefined && !(num > condition.gt)) ||
+      (condition.gte !== undefined && !(num >= condition.gte)) ||
+      (condition.lt !== undefined && !(num < condition.lt)) ||
+      (condition.lte !== undefined && !(num <= condition.lte))) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Whether a record's fields satisfy a condition
+ */
+export function matchesCondition(condition: RuleCondition, fields: RuleFields): boolean {
+  if ('all' in condition) {
+    return condition.all.every(c => matchesCondition(c, fields));
+  }
+  if ('any' in condition) {
+    return condition.any.some(c => matchesCondition(c, fields));
+  }
+  if ('not' in condition) {
+    return !matchesCondition(condition.not, fields);
+  }
+  return matchesField(condition, fields);
+}
+
+/**
+ * The first rule a record matches, or null
+ */
+export function findMatchingRule(rules: FilterRule[], fields: RuleFields): FilterRule | null {
+  return rules.find(rule => matchesCondition(rule.when, fields)) ?? null;
+}
+
+/**
+ * Fields the rules refer to, for spotting typos against the record's fields
+ */
+export function getRuleFieldNames(rules: FilterRule[]): string[] {
+  const names = new Set<string>();
+  const visit = (condition: RuleCondition): void => {
+    if ('all' in condition) {
+      condition.all.forEach(visit);
+    } else if ('any' in condition) {
+      condition.any.forEach(visit);
+    } else if ('not' in condition) {
+      visit(condition.not);
+    } else {
+      names.add(condition.field);
+    }
+  };
+  rules.forEach(rule => visit(rule.when));
+  return [...names];
+}
@@ -2,10 +2,16 @@
  * Filtering logic for arms-length sale detection
  */
 
-import type { RawParcelRecord, ExtractorConfig, DateRange } from '../types/index.js';
+import type { RawParcelRecord, ExtractorConfig, DateRange, ClassificationPolicy } from '../types/index.js';
 import { parseSalePrice, parseSaleDate } from '../scraper/parcel-details.js';
+import { CLASSIFICATION_CODES, parseClassificationCode } from '../config/selectors.js';
 import { isDateInRange } from '../utils/date-range.js';
 import { logger } from '../utils/logger.js';
+import { classifyEntity } from './entity.js';
+import { SALE_TYPES, getSaleType } from './sale-type.js';
+import { findMatchingRule, getRuleFieldNames, loadFilterRules } from './filter-rules.js';
+import type { FilterRule, RuleFields } from './filter-rules.js';
+import type { RejectionLog } from './rejection-log.js';
 
 /**
  * Reasons why a record was filtered out
@@ -16,15 +22,14 @@ export interface FilterResult {
   reasons: FilterReasons;
 }
 
-export interface FilterReasons {
-  lowSalePrice: number;
-  deniedInstrument: number;
-  outsideDateRange: number;
-  nonResidential: number;
-  qualifiedSaleFailed: number;
-  other: number;
-  [key: string]: number;
-}
+/**
+ * Filtered record counts keyed by the name of the rule that excluded them
+ * The default rules are lowSalePrice, deniedInstrument, outsideDateRange,
+ * excludedClassification (not one of the configured classifications), qualifiedSaleFailed
+ * excludedEntityType (only when EXCLUDE_ENTITY_TYPES is set) and excludedSaleType
+ * (only when a SALE_TYPE_<TYPE> is set to exclude)
+ */
+export type FilterReasons = Record<string, number>;
 
 /**
  * Check if deed instrument is in denylist
@@ -46,14 +51,15 @@ export function isDeniedInstrument(
  */
 export function isLikelyArmsLength(record: RawParcelRecord, config: ExtractorConfig): boolean {
   const price = parseSalePrice(record.sale_price);
+  const policy = getClassificationPolicy(record, config.classifications);
   
   // Check price threshold
-  if (price < config.minSalePrice) {
+  if (price < (policy?.minSalePrice ?? config.minSalePrice)) {
     return false;
   }
 
   // Check instrument denylist
-  if (isDeniedInstrument(record.deed_instrument, config.instrumentDenylist)) {
+  if (isDeniedInstrument(record.deed_instrument, policy?.instrumentDenylist ?? config.instrumentDenylist)) {
     return false;
   }
 
@@ -71,7 +77,7 @@ export function isLikelyArmsLength(record: RawParcelRecord, config: ExtractorCon
 /**
  * Check if record is residential
  */
-export function isResidential(record: RawParcelRecord): boolean {
+export function isResidential(record: Pick<RawParcelRecord, 'classification' | 'land_use'>): boolean {
   // Classification "00" typically means residential
   const classification = record.classification?.trim();
   if (classification === '00' || classification?.toLowerCase().includes('residential')) {
@@ -86,60 +92,167 @@ export function isResidential(record: RawParcelRecord): boolean {
 }
 
 /**
- * Filter records based on configuration criteria
+ * Get a record's classification code from its classification or land use
+ * ("00", "00 - Residential"), falling back to the residential heuristics
+ */
+export function getRecordClassificationCode(
+  record: Pick<RawParcelRecord, 'classification' | 'land_use'>
+): string | null {
+  const code = parseClassificationCode(record.classification) ?? parseClassificationCode(record.land_use);
+  if (code) {
+    return code;
+  }
+  return isResidential(record) ? CLASSIFICATION_CODES.RESIDENTIAL : null;
+}
+
+/**
+ * Find the policy for a record's classification, or null if it isn't one being reported on
+ */
+export function getClassificationPolicy(
+  record: Pick<RawParcelRecord, 'classification' | 'land_use'>,
+  policies: ClassificationPolicy[]
+): ClassificationPolicy | null {
+  const code = getRecordClassificationCode(record);
+  return policies.find(policy => policy.code === code) ?? null;
+}
+
+/**
+ * The fields filter rules see for a record: its own columns plus
+ * - classification_code: two-digit classification code (see getRecordClassificationCode), or null
+ * - in_date_range: whether the sale date is in the run's range, or null without a sale date
+ * - owner_entity_type / seller_entity_type: see classifyEntity, null without a name
+ * - sale_type: new_construction, existing_home or vacant_lot (see getSaleType)
+ * - transaction_parcel_ids / shared_consideration: as in the cleaned CSV (see groupTransactions)
+ */
+export function getRuleFields(record: RawParcelRecord, dateRange: DateRange): RuleFields {
+  const saleDate = parseSaleDate(record.sale_date);
+
+  return {
+    ...record,
+    classification_code: getRecordClassificationCode(record),
+    in_date_range: saleDate ? isDateInRange(saleDate, dateRange) : null,
+    owner_entity_type: classifyEntity(record.owner_name || record.buyer_name),
+    seller_entity_type: classifyEntity(record.seller_name),
+    sale_type: getSaleType(record),
+    transaction_parcel_ids: (record.transaction_parcel_ids ?? [record.parcel_id.trim()]).join('; '),
+    shared_consideration: record.shared_consideration ?? false,
+  };
+}
+
+/**
+ * The built-in filter chain, as rules: date range, classification, then each
+ * classification's minimum price and instrument denylist, the qualified flag, then
+ * the excluded owner entity types and sale types
+ */
+export function getDefaultFilterRules(
+  config: Pick<ExtractorConfig, 'classifications' | 'excludedEntityTypes' | 'saleTypeModes'>
+): FilterRule[] {
+  const policies = config.classifications;
+
+  const rules: FilterRule[] = [
+    {
+      name: 'outsideDateRange',
+      action: 'exclude',
+      when: { field: 'in_date_range', equals: false },
+    },
+    {
+      name: 'excludedClassification',
+      action: 'exclude',
+      when: { not: { field: 'classification_code', oneOf: policies.map(p => p.code) } },
+    },
+    {
+      // A missing or unreadable price counts as low
+      name: 'lowSalePrice',
+      action: 'exclude',
+      when: {
+        any: policies.map(p => ({
+          all: [
+            { field: 'classification_code', equals: p.code },
+            { not: { field: 'sale_price', gte: p.minSalePrice } },
+          ],
+        })),
+      },
+    },
+    {
+      name: 'deniedInstrument',
+      action: 'exclude',
+      when: {
+        any: policies.map(p => ({
+          all: [
+            { field: 'classification_code', equals: p.code },
+            { field: 'deed_instrument', containsAny: p.instrumentDenylist },
+          ],
+        })),
+      },
+    },
+    {
+      name: 'qualifiedSaleFailed',
+      action: 'exclude',
+      when: { field: 'qualified_sale', oneOf: ['n', 'no', 'false', '0'] },
+    },
+  ];
+
+  if (config.excludedEntityTypes.length > 0) {
+    rules.push({
+      name: 'excludedEntityType',
+      action: 'exclude',
+      when: { field: 'owner_entity_type', oneOf: config.excludedEntityTypes },
+    });
+  }
+
+  const excludedSaleTypes = SALE_TYPES.filter(type => config.saleTypeModes[type] === 'exclude');
+  if (excludedSaleTypes.length > 0) {
+    rules.push({
+      name: 'excludedSaleType',
+      action: 'exclude',
+      when: { field: 'sale_type', oneOf: excludedSaleTypes },
+    });
+  }
+
+  return rules;
+}
+
+/**
+ * Rules from FILTER_RULES_FILE, or the built-in chain when none is configured
+ */
+export function getFilterRules(
+  config: Pick<ExtractorConfig, 'classifications' | 'excludedEntityTypes' | 'saleTypeModes' | 'filterRulesFile'>
+): FilterRule[] {
+  return config.filterRulesFile ? loadFilterRules(config.filterRulesFile) : getDefaultFilterRules(config);
+}
+
+/**
+ * Filter records with the given rules (by default the built-in chain from the config)
+ * Each filtered record is added to the rejection log, if given, under its rule's name
  */
 export function filterRecords(
   records: RawParcelRecord[],
   config: ExtractorConfig,
-  dateRange: DateRange
+  dateRange: DateRange,
+  rules: FilterRule[] = getDefaultFilterRules(config),
+  rejections?: RejectionLog
 ): FilterResult {
   const passed: RawParcelRecord[] = [];
   const filtered: RawParcelRecord[] = [];
-  const reasons: FilterReasons = {
-    lowSalePrice: 0,
-    deniedInstrument: 0,
-    outsideDateRange: 0,
-    nonResidential: 0,
-    qualifiedSaleFailed: 0,
-    other: 0,
-  };
-
-  for (const record of records) {
-    let reason: keyof FilterReasons | null = null;
-
-    // Check date range
-    const saleDate = parseSaleDate(record.sale_date);
-    if (saleDate && !isDateInRange(saleDate, dateRange)) {
-      reason = 'outsideDateRange';
-    }
-
-    // Check residential classification
-    if (!reason && !isResidential(record)) {
-      reason = 'nonResidential';
-    }
-
-    // Check sale price
-    const price = parseSalePrice(record.sale_price);
-    if (!reason && price < config.minSalePrice) {
-      reason = 'lowSalePrice';
-    }
+  const reasons: FilterReasons = Object.fromEntries(
+    rules.filter(rule => rule.action === 'exclude').map(rule => [rule.name, 0])
+  );
 
-    // Check instrument denylist
-    if (!reason && isDeniedInstrument(record.deed_instrument, config.instrumentDenylist)) {
-      reason = 'deniedInstrument';
+  if (records.length > 0) {
+    const knownFields = Object.keys(getRuleFields(records[0], dateRange));
+    const unknownFields = getRuleFieldNames(rules).filter(field => !knownFields.includes(field));
+    if (unknownFields.length > 0) {
+      logger.warn('Filter rules refer to unknown fields - conditions on them never match', { fields: unknownFields });
     }
+  }
 
-    // Check qualified sale indicator if available
-    if (!reason && record.qualified_sale) {
-      const qualified = record.qualified_sale.toLowerCase().trim();
-      if (qualified === 'n' || qualified === 'no' || qualified === 'false' || qualified === '0') {
-        reason = 'qualifiedSaleFailed';
-      }
-    }
+  for (const record of records) {
+    const rule = findMatchingRule(rules, getRuleFields(record, dateRange));
 
-    if (reason) {
+    if (rule?.action === 'exclude') {
       filtered.push(record);
-      reasons[reason]++;
+      reasons[rule.name]++;
+      rejections?.addFiltered(record, rule.name);
     } else {
       passed.push(record);
     }
@@ -0,0 +1,263 @@
+/**
+ * Fuzzy duplicate detection for owners and addresses
+ *
+ * The exact passes in dedupe.ts miss "SMITH JOHN" vs "SMITH, JOHN & JANE" or
+ * "123 OAK DR" vs "123 OAKS DR". This pass scores sales with the same county and
+ * house number on owner and address similarity, and merges each one into the best
+ * survivor it scores at least the threshold against. Matches are not chained: if A
+ * matches B and B matches C, C is only merged into A when it matches A as well.
+ */
+
+import type { CleanedSale } from '../types/index.js';
+import { logger } from '../utils/logger.js';
+import { normalizeParcelId } from './dedupe.js';
+import { standardizeStreetAddress } from './address.js';
+import type { RejectionLog } from './rejection-log.js';
+
+/**
+ * Sales merged into one lead
+ */
+export interface FuzzyCluster {
+  /** 1-based, in survivor order */
+  id: number;
+  survivor: CleanedSale;
+  /** The merged sales, each with its similarity to the survivor */
+  merged: { sale: CleanedSale; score: number }[];
+}
+
+export interface FuzzyDedupeResult {
+  unique: CleanedSale[];
+  clusters: FuzzyCluster[];
+}
+
+/**
+ * Owner name words that don't tell owners apart
+ */
+const NAME_NOISE = new Set([
+  'AND', 'ETUX', 'ETVIR', 'ET', 'UX', 'VIR', 'AL', 'ETAL',
+  'TRUSTEE', 'TRUSTEES', 'TR', 'TRS', 'LIFE', 'ESTATE', 'LE', 'JR', 'SR', 'II', 'III', 'IV',
+]);
+
+const UNIT_PATTERN = /\b(APT|UNIT|STE|#|LOT|BLDG|FL|RM|SPC|TRLR) (\S+)$/;
+
+/**
+ * Levenshtein edit distance
+ */
+export function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Edit distance as a 0-1 similarity
+ */
+function editSimilarity(a: string, b: string): number {
+  const length = Math.max(a.length, b.length);
+  return length === 0 ? 1 : 1 - editDistance(a, b) / length;
+}
+
+/**
+ * American Soundex code, e.g. "SMITH" and "SMYTH" -> "S530"
+ */
+export function soundex(word: string): string {
+  const letters = word.toUpperCase().replace(/[^A-Z]/g, '');
+  if (!letters) return '';
+
+  const codes: Record<string, string> = {
+    B: '1', F: '1', P: '1', V: '1',
+    C: '2', G: '2', J: '2', K: '2', Q: '2', S: '2', X: '2', Z: '2',
+    D: '3', T: '3',
+    L: '4',
+    M: '5', N: '5',
+    R: '6',
+  };
+
+  let result = letters[0];
+  let last = codes[letters[0]] ?? '';
+  for (const letter of letters.slice(1)) {
+    const code = codes[letter] ?? '';
+    // H and W don't separate letters with the same code; vowels do
+    if (code && code !== last) {
+      result += code;
+    }
+    if (letter !== 'H' && letter !== 'W') {
+      last = code;
+    }
+  }
+
+  return (result + '000').slice(0, 4);
+}
+
+/**
+ * Owner name words, without punctuation, initials or joint/trustee markers
+ */
+export function getNameTokens(name: string | null): string[] {
+  return (name ?? '')
+    .toUpperCase()
+    .replace(/[^A-Z0-9&\s]/g, ' ')
+    .split(/[\s&]+/)
+    .filter(token => token.length > 1 && !NAME_NOISE.has(token));
+}
+
+/**
+ * Similarity of two name words: exact, sounds alike, or close in spelling
+ */
+function tokenSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  const spelling = editSimilarity(a, b);
+  return soundex(a) === soundex(b) ? Math.max(spelling, 0.9) : spelling;
+}
+
+/**
+ * How well each word of `a` is matched in `b`, on average
+ */
+function coverage(a: string[], b: string[]): number {
+  const total = a.reduce((sum, token) => sum + Math.max(...b.map(other => tokenSimilarity(token, other))), 0);
+  return total / a.length;
+}
+
+/**
+ * Owner name similarity (0-1), ignoring word order, punctuation and initials
+ * "SMITH, JOHN" vs "JOHN SMITH" is 1; a co-owner on only one side costs a little
+ */
+export function nameSimilarity(a: string | null, b: string | null): number {
+  const tokensA = getNameTokens(a);
+  const tokensB = getNameTokens(b);
+  if (tokensA.length === 0 || tokensB.length === 0) {
+    return 0;
+  }
+  return (coverage(tokensA, tokensB) + coverage(tokensB, tokensA)) / 2;
+}
+
+/**
+ * Street address similarity (0-1); different house numbers or units never match
+ */
+export function addressSimilarity(a: string, b: string): number {
+  const streetA = standardizeStreetAddress(a);
+  const streetB = standardizeStreetAddress(b);
+  if (!streetA || !streetB) {
+    return 0;
+  }
+
+  const [numberA] = streetA.split(' ');
+  const [numberB] = streetB.split(' ');
+  if (/^\d/.test(numberA) && /^\d/.test(numberB) && numberA !== numberB) {
+    return 0;
+  }
+  if ((streetA.match(UNIT_PATTERN)?.[2] ?? '') !== (streetB.match(UNIT_PATTERN)?.[2] ?? '')) {
+    return 0;
+  }
+
+  return editSimilarity(streetA, streetB);
+}
+
+/**
+ * Pair score: the lower of the owner and address similarity, 0 across counties or cities
+ */
+export function getSaleSimilarity(a: CleanedSale, b: CleanedSale): number {
+  if (a.county !== b.county || (a.city && b.city && a.city !== b.city)) {
+    return 0;
+  }
+  return Math.min(nameSimilarity(a.owner_name, b.owner_name), addressSimilarity(a.situs_address, b.situs_address));
+}
+
+/**
+ * Survivor order, independent of input order: highest price, then latest sale, then parcel ID
+ */
+function compareSurvivors(a: CleanedSale, b: CleanedSale): number {
+  return b.sale_price - a.sale_price ||
+    b.sale_date.localeCompare(a.sale_date) ||
+    normalizeParcelId(a.parcel_id).localeCompare(normalizeParcelId(b.parcel_id)) ||
+    a.situs_address.localeCompare(b.situs_address);
+}
+
+/**
+ * Sales that could be duplicates have the same county and house number
+ */
+function getBlockKey(sale: CleanedSale): string {
+  const [first] = standardizeStreetAddress(sale.situs_address).split(' ');
+  return `${sale.county}|${/^\d/.test(first) ? first : ''}`;
+}
+
+/**
+ * Merge sales whose owner and address are at least `threshold` similar (0-1)
+ * A threshold of 0 turns the pass off. Merged sales are added to the rejection log
+ */
+export function deduplicateFuzzy(
+  sales: CleanedSale[],
+  threshold: number,
+  rejections?: RejectionLog
+): FuzzyDedupeResult {
+  if (threshold <= 0) {
+    return { unique: sales, clusters: [] };
+  }
+
+  const blocks = new Map<string, CleanedSale[]>();
+  for (const sale of sales) {
+    if (!sale.owner_name || !sale.situs_address) continue;
+    const key = getBlockKey(sale);
+    blocks.set(key, [...(blocks.get(key) ?? []), sale]);
+  }
+
+  // Best survivor first; each takes every remaining sale that matches it directly
+  const groups: CleanedSale[][] = [];
+  for (const block of blocks.values()) {
+    let remaining = [...block].sort(compareSurvivors);
+    while (remaining.length > 0) {
+      const [survivor, ...rest] = remaining;
+      const matches = rest.filter(sale => getSaleSimilarity(survivor, sale) >= threshold);
+      if (matches.length > 0) {
+        groups.push([survivor, ...matches]);
+      }
+      remaining = rest.filter(sale => !matches.includes(sale));
+    }
+  }
+
+  const clusters: FuzzyCluster[] = groups
+    .sort((a, b) => compareSurvivors(a[0], b[0]))
+    .map(([survivor, ...rest], index) => ({
+      id: index + 1,
+      survivor,
+      merged: rest.map(sale => ({ sale, score: Math.round(getSaleSimilarity(survivor, sale) * 100) / 100 })),
+    }));
+
+  const mergedSales = new Set<CleanedSale>();
+  for (const cluster of clusters) {
+    for (const { sale, score } of cluster.merged) {
+      mergedSales.add(sale);
+      rejections?.addDuplicate(
+        'dedupe_fuzzy',
+        `Similar owner and address (score ${score.toFixed(2)})`,
+        sale,
+        cluster.survivor,
+        `cluster ${cluster.id}`
+      );
+    }
+  }
+
+  const unique = sales.filter(sale => !mergedSales.has(sale));
+
+  if (clusters.length > 0) {
+    logger.info('Merged similar owners and addresses', {
+      before: sales.length,
+      after: unique.length,
+      clusters: clusters.length,
+      threshold,
+    });
+  }
+
+  return { unique, clusters };
+}
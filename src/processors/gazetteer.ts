@@ -0,0 +1,278 @@
+/**
+ * Per-county gazetteer that estimates a parcel's city and ZIP from its street and subdivision
+ *
+ * Every run adds the parcels whose detail pages gave a city and ZIP, so the
+ * gazetteer grows from historical results. Records whose detail page failed are
+ * then given the city/ZIP most other parcels on the same street (or in the same
+ * subdivision) have, with a confidence flag saying how consistent they were.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { logger } from '../utils/logger.js';
+import { ensureOutputDir } from '../output/csv-writer.js';
+import { getZipCode, getCityZipCodes, hasCountyZipCodes } from '../config/zip-codes.js';
+import type { RawParcelRecord, LocationConfidence } from '../types/index.js';
+
+/**
+ * Bump when the gazetteer shape changes so stale files are ignored
+ */
+const GAZETTEER_VERSION = 1;
+
+const GAZETTEER_FILENAME = 'gazetteer.json';
+
+/**
+ * Known locations for one county
+ * Each street or subdivision maps parcel ID -> "CITY|ZIP", so a parcel seen
+ * in several runs is only counted once
+ */
+export interface CountyGazetteer {
+  streets: Record<string, Record<string, string>>;
+  subdivisions: Record<string, Record<string, string>>;
+}
+
+/**
+ * Gazetteer persisted between runs, keyed by county name
+ */
+export interface Gazetteer {
+  version: number;
+  updatedAt: string;
+  counties: Record<string, CountyGazetteer>;
+}
+
+/**
+ * An estimated city and ZIP for a parcel
+ */
+export interface LocationEstimate {
+  city: string;
+  zip: string;
+  confidence: Exclude<LocationConfidence, 'parcel' | 'none'>;
+}
+
+const CONFIDENCE_RANK: Record<LocationEstimate['confidence'], number> = {
+  high: 3,
+  medium: 2,
+  low: 1,
+};
+
+/**
+ * Get the gazetteer file path
+ */
+export function getGazetteerPath(outDir: string): string {
+  return path.join(outDir, GAZETTEER_FILENAME);
+}
+
+/**
+ * Create an empty gazetteer
+ */
+export function createGazetteer(): Gazetteer {
+  return {
+    version: GAZETTEER_VERSION,
+    updatedAt: new Date().toISOString(),
+    counties: {},
+  };
+}
+
+/**
+ * Load the gazetteer from disk, or start an empty one
+ */
+export function loadGazetteer(outDir: string): Gazetteer {
+  const filePath = getGazetteerPath(outDir);
+
+  if (!fs.existsSync(filePath)) {
+    return createGazetteer();
+  }
+
+  try {
+    const gazetteer = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as Gazetteer;
+
+    if (gazetteer.version !== GAZETTEER_VERSION) {
+      logger.warn('Gazetteer is from an older version - starting a new one', { path: filePath });
+      return createGazetteer();
+    }
+
+    return gazetteer;
+  } catch (error) {
+    logger.warn('Failed to read gazetteer - starting a new one', {
+      path: filePath,
+      error: (error as Error).message,
+    });
+    return createGazetteer();
+  }
+}
+
+/**
+ * Write the gazetteer to disk (via a temp file, as checkpoints are)
+ */
+export function saveGazetteer(outDir: string, gazetteer: Gazetteer): void {
+  ensureOutputDir(outDir);
+
+  const filePath = getGazetteerPath(outDir);
+  const tempPath = `${filePath}.tmp`;
+
+  gazetteer.updatedAt = new Date().toISOString();
+
+  fs.writeFileSync(tempPath, JSON.stringify(gazetteer), 'utf-8');
+  fs.renameSync(tempPath, filePath);
+}
+
+/**
+ * Street name without the house number, e.g. "OWEN RD 467" or "467 Owen Rd" -> "OWEN RD"
+ * TPAD search results put the number last, detail pages put it first
+ */
+export function getStreetKey(address: string): string {
+  return address
+    .toUpperCase()
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^\d+[A-Z]?\s+/, '')
+    .replace(/\s+\d+[A-Z]?$/, '');
+}
+
+/**
+ * Normalize a subdivision name for matching
+ */
+function getSubdivisionKey(subdivision: string): string {
+  return subdivision.toUpperCase().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Whether a detail-page city/ZIP is usable for the county
+ * The ZIP must be in the county when the bundled table covers it - the owner card
+ * address can be somewhere else entirely
+ */
+function isLearnableLocation(record: RawParcelRecord): boolean {
+  if (record.location_confidence !== 'parcel' || !record.city.trim() || !/^\d{5}/.test(record.zip.trim())) {
+    return false;
+  }
+  if (!hasCountyZipCodes(record.county)) {
+    return true;
+  }
+  return getZipCode(record.zip)?.counties.includes(record.county) ?? false;
+}
+
+/**
+ * Add the city/ZIP of every record that got one from its detail page
+ * Returns the number of records learned from
+ */
+export function learnLocations(gazetteer: Gazetteer, records: RawParcelRecord[]): number {
+  let learned = 0;
+
+  for (const record of records) {
+    if (!isLearnableLocation(record)) {
+      continue;
+    }
+
+    const county = gazetteer.counties[record.county] ??= { streets: {}, subdivisions: {} };
+    const location = `${record.city.trim().toUpperCase()}|${record.zip.trim().slice(0, 5)}`;
+
+    const street = getStreetKey(record.property_address);
+    if (street) {
+      (county.streets[street] ??= {})[record.parcel_id] = location;
+    }
+
+    const subdivision = getSubdivisionKey(record.subdivision);
+    if (subdivision) {
+      (county.subdivisions[subdivision] ??= {})[record.parcel_id] = location;
+    }
+
+    learned++;
+  }
+
+  return learned;
+}
+
+/**
+ * Pick the most common location among known parcels and rate how consistent they are
+ */
+function estimateFromParcels(parcels: Record<string, string> | undefined): LocationEstimate | null {
+  const locations = Object.values(parcels ?? {});
+  if (locations.length === 0) {
+    return null;
+  }
+
+  const counts = new Map<string, number>();
+  for (const location of locations) {
+    counts.set(location, (counts.get(location) ?? 0) + 1);
+  }
+
+  const [best, bestCount] = [...counts].sort((a, b) => b[1] - a[1])[0];
+  const [city, zip] = best.split('|');
+  const share = bestCount / locations.length;
+
+  let confidence: LocationEstimate['confidence'] = 'low';
+  if (share === 1 && locations.length >= 2) {
+    confidence = 'high';
+  } else if (share >= 0.75) {
+    confidence = 'medium';
+  }
+
+  return { city, zip, confidence };
+}
+
+/**
+ * Estimate the city/ZIP for an address in a county
+ * The subdivision is tried first, as it is the more specific of the two; the street
+ * only wins when it is more consistent
+ */
+export function resolveLocation(
+  gazetteer: Gazetteer,
+  county: string,
+  address: string,
+  subdivision: string
+): LocationEstimate | null {
+  const known = gazetteer.counties[county];
+  if (!known) {
+    return null;
+  }
+
+  const bySubdivision = estimateFromParcels(known.subdivisions[getSubdivisionKey(subdivision)]);
+  const byStreet = estimateFromParcels(known.streets[getStreetKey(address)]);
+
+  if (bySubdivision && byStreet) {
+    return CONFIDENCE_RANK[byStreet.confidence] > CONFIDENCE_RANK[bySubdivision.confidence]
+      ? byStreet
+      : bySubdivision;
+  }
+  return bySubdivision ?? byStreet;
+}
+
+/**
+ * Fill in city and ZIP for records whose detail page didn't provide them
+ * Records the gazetteer knows nothing about are left blank rather than guessed
+ */
+export function fillMissingLocations(records: RawParcelRecord[], gazetteer: Gazetteer): RawParcelRecord[] {
+  let estimated = 0;
+  let unresolved = 0;
+
+  const filled = records.map((record) => {
+    if (record.city.trim()) {
+      if (record.zip.trim()) {
+        return record;
+      }
+      // City without a ZIP - fill the ZIP when the city only has one in this county
+      const zips = getCityZipCodes(record.city, record.county);
+      return zips.length === 1 ? { ...record, zip: zips[0] } : record;
+    }
+
+    const estimate = resolveLocation(gazetteer, record.county, record.property_address, record.subdivision);
+    if (!estimate) {
+      unresolved++;
+      return { ...record, location_confidence: 'none' as const };
+    }
+
+    estimated++;
+    return {
+      ...record,
+      city: estimate.city,
+      zip: estimate.zip,
+      location_confidence: estimate.confidence,
+    };
+  });
+
+  if (estimated > 0 || unresolved > 0) {
+    logger.info('Estimated missing city/ZIP from gazetteer', { estimated, unresolved });
+  }
+
+  return filled;
+}
@@ -4,5 +4,10 @@
 
 export * from './filter.js';
 export * from './dedupe.js';
+export * from './fuzzy-dedupe.js';
 export * from './transform.js';
+export * from './gazetteer.js';
+export * from './entity.js';
+export * from './owner-name.js';
+export * from './address.js';
 
@@ -0,0 +1,192 @@
+/**
+ * Owner name parsing into mail-merge fields
+ *
+ * TPAD lists owners last name first: "SMITH JOHN A JR & JANE B",
+ * "SMITH, JOHN & JANE", "SMITH JOHN ETUX JANE", "DOE JANE LIFE ESTATE".
+ * A co-owner without a comma of their own is assumed to share the primary
+ * owner's last name, so "SMITH JOHN & DOE JANE" needs to be "SMITH, JOHN & DOE, JANE"
+ * to be read as two families.
+ */
+
+import { classifyEntity } from './entity.js';
+
+/**
+ * Structured owner name; parts that can't be read are ''
+ */
+export interface ParsedOwnerName {
+  owner_first_name: string;
+  owner_middle_name: string;
+  owner_last_name: string;
+  /** Jr, Sr, II, III or IV */
+  owner_suffix: string;
+  co_owner_first_name: string;
+  co_owner_last_name: string;
+  /** "John & Jane Smith", "John Smith & Jane Doe", or the name as written for companies and trusts */
+  household_name: string;
+  /** "Dear John and Jane"; "Dear Homeowner" when there is no person's name */
+  salutation: string;
+}
+
+const DEFAULT_SALUTATION = 'Dear Homeowner';
+
+/**
+ * Ownership markers that aren't part of anyone's name
+ */
+const MARKER_PATTERN = /\b(LIFE ESTATE|L\/E|TRUSTEES|TRUSTEE|TTEES|TTEE|ET AL|ETAL)\b/g;
+
+/**
+ * Short markers that are also names (LE is a common Vietnamese surname), so only
+ * dropped when they end an owner after a full name: "SMITH JOHN LE", not "LE MINH"
+ */
+const TRAILING_MARKERS = new Set(['LE', 'TR', 'TRS']);
+
+/**
+ * "and wife" / "and husband" / "and", all read as a co-owner separator
+ */
+const JOINT_PATTERN = /\b(ETUX|ET UX|ETVIR|ET VIR|AND)\b/g;
+
+const SUFFIXES: Record<string, string> = {
+  JR: 'Jr',
+  SR: 'Sr',
+  II: 'II',
+  III: 'III',
+  IV: 'IV',
+};
+
+/**
+ * "MCDONALD" -> "McDonald", "O'BRIEN-SMITH" -> "O'Brien-Smith"
+ */
+export function toNameCase(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/(^|[\s'-])([a-z])/g, (_, sep: string, letter: string) => sep + letter.toUpperCase())
+    .replace(/\bMc([a-z])/g, (_, letter: string) => `Mc${letter.toUpperCase()}`);
+}
+
+interface PersonName {
+  first: string;
+  middle: string;
+  last: string;
+  suffix: string;
+}
+
+/**
+ * Drop a trailing LE / TR / TRS from each owner when at least two name words come before it
+ */
+function stripTrailingMarkers(name: string): string {
+  let wordsBefore = 0;
+
+  return name
+    .split(/([&,])/)
+    .map(segment => {
+      if (segment === '&' || segment === ',') return segment;
+
+      const tokens = segment.split(' ').filter(Boolean);
+      const last = tokens[tokens.length - 1];
+      if (last && TRAILING_MARKERS.has(last) && wordsBefore + tokens.length - 1 >= 2) {
+        tokens.pop();
+      }
+      wordsBefore += tokens.length;
+      return ` ${tokens.join(' ')} `;
+    })
+    .join('');
+}
+
+/**
+ * Read one owner: "SMITH JOHN A JR", "SMITH, JOHN A", or "JANE B" sharing `sharedLast`
+ */
+function parsePerson(part: string, sharedLast: string | null): PersonName {
+  let lastTokens: string[];
+  let restTokens: string[];
+
+  const comma = part.indexOf(',');
+  if (comma >= 0) {
+    lastTokens = part.slice(0, comma).split(/\s+/).filter(Boolean);
+    restTokens = part.slice(comma + 1).replace(/,/g, ' ').split(/\s+/).filter(Boolean);
+  } else {
+    const tokens = part.split(/\s+/).filter(Boolean);
+    lastTokens = sharedLast === null ? tokens.slice(0, 1) : [];
+    restTokens = sharedLast === null ? tokens.slice(1) : tokens;
+  }
+
+  const suffix = [...lastTokens, ...restTokens].find(token => token in SUFFIXES);
+  const names = restTokens.filter(token => !(token in SUFFIXES));
+  const last = lastTokens.filter(token => !(token in SUFFIXES)).join(' ');
+
+  return {
+    first: toNameCase(names[0] ?? ''),
+    middle: toNameCase(names.slice(1).join(' ')),
+    last: last ? toNameCase(last) : (sharedLast ?? ''),
+    suffix: suffix ? SUFFIXES[suffix] : '',
+  };
+}
+
+/**
+ * Split an owner name into mail-merge fields
+ */
+export function parseOwnerName(name: string | null | undefined): ParsedOwnerName {
+  const empty: ParsedOwnerName = {
+    owner_first_name: '',
+    owner_middle_name: '',
+    owner_last_name: '',
+    owner_suffix: '',
+    co_owner_first_name: '',
+    co_owner_last_name: '',
+    household_name: '',
+    salutation: DEFAULT_SALUTATION,
+  };
+
+  const cleaned = (name ?? '')
+    .toUpperCase()
+    .replace(/\./g, '')
+    .replace(/[()]/g, ' ')
+    .replace(MARKER_PATTERN, ' ')
+    .replace(JOINT_PATTERN, '&')
+    .replace(/\s+/g, ' ');
+  const normalized = stripTrailingMarkers(cleaned).replace(/\s+/g, ' ').trim();
+
+  if (!normalized.replace(/[&,\s]/g, '')) {
+    return empty;
+  }
+
+  // Companies, trusts, banks and the like are addressed as written
+  const entityType = classifyEntity(normalized);
+  if (entityType !== 'individual' && entityType !== 'couple') {
+    return { ...empty, household_name: (name ?? '').replace(/\s+/g, ' ').trim() };
+  }
+
+  const [primaryPart, coOwnerPart] = normalized
+    .split('&')
+    .map(part => part.trim().replace(/^,|,$/g, '').trim())
+    .filter(Boolean);
+
+  const primary = parsePerson(primaryPart, null);
+  const coOwner = coOwnerPart ? parsePerson(coOwnerPart, primary.last) : null;
+
+  let householdName: string;
+  if (coOwner?.first && coOwner.last === primary.last) {
+    householdName = `${primary.first} & ${coOwner.first} ${primary.last}`;
+  } else if (coOwner?.first) {
+    householdName = `${primary.first} ${primary.last} & ${coOwner.first} ${coOwner.last}`;
+  } else {
+    householdName = [primary.first, primary.last, primary.suffix].filter(Boolean).join(' ');
+  }
+
+  let salutation = DEFAULT_SALUTATION;
+  if (primary.first) {
+    salutation = coOwner?.first ? `Dear ${primary.first} and ${coOwner.first}` : `Dear ${primary.first}`;
+  } else if (primary.last) {
+    salutation = `Dear ${primary.last} Family`;
+  }
+
+  return {
+    owner_first_name: primary.first,
+    owner_middle_name: primary.middle,
+    owner_last_name: primary.last,
+    owner_suffix: primary.suffix,
+    co_owner_first_name: coOwner?.first ?? '',
+    co_owner_last_name: coOwner?.first ? coOwner.last : '',
+    household_name: householdName.replace(/\s+/g, ' ').trim(),
+    salutation,
+  };
+}
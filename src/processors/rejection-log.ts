@@ -0,0 +1,147 @@
+/**
+ * Audit trail of records dropped between extraction and the final report
+ *
+ * Filtering and each dedupe pass add the records they remove, with the filter
+ * rule or the dedupe key and the record that was kept instead. Written out as
+ * rejected_YYYY_MM_DD.csv/.json so "why isn't this sale in my list?" can be
+ * answered without re-scraping.
+ */
+
+import { parseSalePrice, parseSaleDate } from '../scraper/parcel-details.js';
+import type { RawParcelRecord, CleanedSale } from '../types/index.js';
+
+/**
+ * Where a record was dropped
+ * - dedupe_raw: same parcel, sale date and price as an earlier raw record
+ * - filter: excluded by a filter rule
+ * - dedupe_transaction: another parcel of the same multi-parcel sale (see transactions.ts)
+ * - dedupe_sale: same parcel/address, sale date and price as an earlier cleaned sale
+ * - dedupe_owner_address: another sale for the same owner at the same address was kept
+ * - dedupe_fuzzy: merged with a sale with a similar owner and address (see fuzzy-dedupe.ts)
+ */
+export type RejectionStage = 'dedupe_raw' | 'filter' | 'dedupe_transaction' | 'dedupe_sale' | 'dedupe_owner_address' | 'dedupe_fuzzy';
+
+/**
+ * One dropped record
+ */
+export interface RejectedRecord {
+  stage: RejectionStage;
+  /** Filter rule name, or the kind of duplicate */
+  reason: string;
+  parcel_id: string;
+  county: string;
+  address: string;
+  owner_name: string;
+  sale_date: string;
+  sale_price: number;
+  deed_instrument: string;
+  source_url: string;
+  /** Dedupe key the record collided on ('' for filtered records) */
+  duplicate_key: string;
+  /** The record kept in its place (blank for filtered records) */
+  kept_parcel_id: string;
+  kept_address: string;
+  kept_owner_name: string;
+  kept_sale_date: string;
+  kept_sale_price: number | null;
+}
+
+export interface RejectionLog {
+  /** A record a filter rule excluded */
+  addFiltered(record: RawParcelRecord, reason: string): void;
+  /** A record dropped as a duplicate of `kept` */
+  addDuplicate(
+    stage: Exclude<RejectionStage, 'filter'>,
+    reason: string,
+    record: RawParcelRecord | CleanedSale,
+    kept: RawParcelRecord | CleanedSale | null,
+    key: string
+  ): void;
+  getEntries(): RejectedRecord[];
+}
+
+/**
+ * Common fields of a raw record or cleaned sale
+ */
+function describeRecord(record: RawParcelRecord | CleanedSale): Pick<
+  RejectedRecord,
+  'parcel_id' | 'county' | 'address' | 'owner_name' | 'sale_date' | 'sale_price' | 'deed_instrument' | 'source_url'
+> {
+  if ('situs_address' in record) {
+    return {
+      parcel_id: record.parcel_id,
+      county: record.county,
+      address: record.situs_address,
+      owner_name: record.owner_name ?? '',
+      sale_date: record.sale_date,
+      sale_price: record.sale_price,
+      deed_instrument: record.deed_instrument,
+      source_url: record.source_url,
+    };
+  }
+
+  return {
+    parcel_id: record.parcel_id,
+    county: record.county,
+    address: record.property_address,
+    owner_name: record.owner_name,
+    sale_date: parseSaleDate(record.sale_date),
+    sale_price: parseSalePrice(record.sale_price),
+    deed_instrument: record.deed_instrument,
+    source_url: record.source_url,
+  };
+}
+
+/**
+ * Create an empty rejection log for a run
+ */
+export function createRejectionLog(): RejectionLog {
+  const entries: RejectedRecord[] = [];
+
+  return {
+    addFiltered(record: RawParcelRecord, reason: string): void {
+      entries.push({
+        stage: 'filter',
+        reason,
+        ...describeRecord(record),
+        duplicate_key: '',
+        kept_parcel_id: '',
+        kept_address: '',
+        kept_owner_name: '',
+        kept_sale_date: '',
+        kept_sale_price: null,
+      });
+    },
+
+    addDuplicate(stage, reason, record, kept, key): void {
+      const winner = kept ? describeRecord(kept) : null;
+      entries.push({
+        stage,
+        reason,
+        ...describeRecord(record),
+        duplicate_key: key,
+        kept_parcel_id: winner?.parcel_id ?? '',
+        kept_address: winner?.address ?? '',
+        kept_owner_name: winner?.owner_name ?? '',
+        kept_sale_date: winner?.sale_date ?? '',
+        kept_sale_price: winner?.sale_price ?? null,
+      });
+    },
+
+    getEntries(): RejectedRecord[] {
+      return [...entries];
+    },
+  };
+}
+
+/**
+ * Rejected record counts by stage and reason, e.g. { filter: { lowSalePrice: 3 } }
+ */
+export function summarizeRejections(entries: RejectedRecord[]): Record<string, Record<string, number>> {
+  const summary: Record<string, Record<string, number>> = {};
+  for (const entry of entries) {
+    const stage = summary[entry.stage] ??= {};
+    stage[entry.reason] = (stage[entry.reason] ?? 0) + 1;
+  }
+  return summary;
+}
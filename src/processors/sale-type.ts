@@ -0,0 +1,94 @@
+/**
+ * Sale type tagging - vacant lot, existing home, or new construction
+ *
+ * The sales table's Vacant/Improved column says whether there was a building on the
+ * parcel when it sold. New construction isn't marked anywhere, so it is read from the
+ * seller and the year built: an improved parcel sold by a builder, or by a company,
+ * within a year of the house being built is the builder selling to the first owner.
+ */
+
+import type { RawParcelRecord, EntityType, SaleType } from '../types/index.js';
+import { parseSaleDate } from '../scraper/parcel-details.js';
+import { classifyEntity } from './entity.js';
+
+/**
+ * Every sale type, highest-value leads first
+ */
+export const SALE_TYPES: SaleType[] = ['new_construction', 'existing_home', 'vacant_lot'];
+
+/**
+ * Display names for reports
+ */
+export const SALE_TYPE_LABELS: Record<SaleType, string> = {
+  new_construction: 'New Construction',
+  existing_home: 'Existing Home',
+  vacant_lot: 'Vacant Lot',
+};
+
+/**
+ * What the sale type is worked out from
+ */
+export interface SaleTypeSignals {
+  /** Sales table's Vacant/Improved column ("V", "I", '' when unknown) */
+  vacant_improved: string;
+  seller_entity_type: EntityType | null;
+  year_built: number | null;
+  /** ISO date (YYYY-MM-DD) */
+  sale_date: string;
+}
+
+/**
+ * Read the Vacant/Improved column: "V" / "VACANT" or "I" / "IMPROVED", null otherwise
+ */
+export function parseVacantImproved(value: string | null | undefined): 'vacant' | 'improved' | null {
+  const normalized = (value ?? '').trim().toUpperCase();
+  if (normalized === 'V' || normalized.startsWith('VACANT')) return 'vacant';
+  if (normalized === 'I' || normalized.startsWith('IMPROVED')) return 'improved';
+  return null;
+}
+
+/**
+ * Tag a sale as a vacant lot, an existing home, or new construction
+ */
+export function classifySaleType(signals: SaleTypeSignals): SaleType {
+  const status = parseVacantImproved(signals.vacant_improved);
+  if (status === 'vacant') {
+    return 'vacant_lot';
+  }
+
+  const saleYear = Number.parseInt(signals.sale_date.slice(0, 4), 10);
+  const yearBuilt = signals.year_built;
+  const knownYears = yearBuilt !== null && !Number.isNaN(saleYear);
+
+  // Without the column, a house built after the sale means the lot sold empty
+  if (status === null && knownYears && yearBuilt > saleYear) {
+    return 'vacant_lot';
+  }
+
+  const recentlyBuilt = knownYears && saleYear - yearBuilt <= 1;
+  const seller = signals.seller_entity_type;
+
+  if (seller === 'builder' && (recentlyBuilt || yearBuilt === null)) {
+    return 'new_construction';
+  }
+  // Builders often sell through an LLC whose name doesn't say so
+  if (recentlyBuilt && seller === 'company') {
+    return 'new_construction';
+  }
+
+  return 'existing_home';
+}
+
+/**
+ * Sale type of a raw record
+ */
+export function getSaleType(record: RawParcelRecord): SaleType {
+  const yearBuilt = Number.parseInt((record.year_built ?? '').replace(/[^\d]/g, ''), 10);
+
+  return classifySaleType({
+    vacant_improved: record.vacant_improved ?? '',
+    seller_entity_type: classifyEntity(record.seller_name),
+    year_built: Number.isNaN(yearBuilt) ? null : yearBuilt,
+    sale_date: parseSaleDate(record.sale_date),
+  });
+}
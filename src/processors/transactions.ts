@@ -0,0 +1,128 @@
+/**
+ * Multi-parcel transactions
+ *
+ * A house sold together with the lot next door is one deed on one book/page, but
+ * TPAD lists the sale under each parcel. Usually every parcel shows the deed's whole
+ * consideration; sometimes the price is split between them. This pass combines the
+ * parcels of each transaction into one record before filtering, so the price the
+ * filters see and the lot size describe what was actually bought.
+ */
+
+import type { RawParcelRecord } from '../types/index.js';
+import { parseSalePrice, parseSaleDate } from '../scraper/parcel-details.js';
+import { logger } from '../utils/logger.js';
+import { normalizeParcelId } from './dedupe.js';
+import { parseNumericField, formatSalePrice } from './transform.js';
+import type { RejectionLog } from './rejection-log.js';
+
+/**
+ * Sales on the same county, book/page and date are one transaction
+ * Returns null when the book/page is unknown ('', "-" or all zeros)
+ */
+export function getTransactionKey(record: RawParcelRecord): string | null {
+  const bookPage = (record.book_page ?? '').replace(/\s+/g, '').toUpperCase();
+  const saleDate = parseSaleDate(record.sale_date);
+  if (!/[1-9]/.test(bookPage) || !saleDate) {
+    return null;
+  }
+  return `${record.county.trim()}|${bookPage}|${saleDate}`;
+}
+
+/**
+ * Main parcel order: the house (highest improvement value), then highest appraisal, then parcel ID
+ */
+function compareMainParcels(a: RawParcelRecord, b: RawParcelRecord): number {
+  return (parseNumericField(b.improvement_value) ?? 0) - (parseNumericField(a.improvement_value) ?? 0) ||
+    (parseNumericField(b.appraised_value) ?? 0) - (parseNumericField(a.appraised_value) ?? 0) ||
+    normalizeParcelId(a.parcel_id).localeCompare(normalizeParcelId(b.parcel_id));
+}
+
+/**
+ * Combine the parcels of one transaction into a record for the main parcel
+ * The same price on every parcel is the shared consideration; different prices are added up
+ */
+export function combineTransaction(parcels: RawParcelRecord[]): RawParcelRecord {
+  const [main, ...others] = [...parcels].sort(compareMainParcels);
+  if (others.length === 0) {
+    return main;
+  }
+
+  const prices = parcels.map(parcel => parseSalePrice(parcel.sale_price));
+  const sharedConsideration = prices.every(price => price === prices[0]);
+  const acreages = parcels
+    .map(parcel => parseNumericField(parcel.acreage))
+    .filter((acreage): acreage is number => acreage !== null);
+
+  return {
+    ...main,
+    sale_price: sharedConsideration ? main.sale_price : formatSalePrice(prices.reduce((sum, price) => sum + price, 0)),
+    transaction_parcel_ids: [main, ...others].map(parcel => parcel.parcel_id.trim()),
+    shared_consideration: sharedConsideration,
+    acreage: acreages.length > 0
+      ? String(Math.round(acreages.reduce((sum, acreage) => sum + acreage, 0) * 10000) / 10000)
+      : main.acreage,
+  };
+}
+
+/**
+ * Group records of the same book/page and date into one record per transaction
+ * Runs before filtering, so a parcel carrying only part of a split price isn't
+ * filtered out on its own. The other parcels are added to the rejection log;
+ * records without a book/page are left as they are
+ */
+export function groupTransactions(records: RawParcelRecord[], rejections?: RejectionLog): RawParcelRecord[] {
+  const groups = new Map<string, RawParcelRecord[]>();
+  for (const record of records) {
+    const key = getTransactionKey(record);
+    if (key) {
+      groups.set(key, [...(groups.get(key) ?? []), record]);
+    }
+  }
+
+  const combined = new Map<RawParcelRecord, RawParcelRecord>();
+  const dropped = new Set<RawParcelRecord>();
+  let transactions = 0;
+
+  for (const [key, group] of groups) {
+    // A parcel listed twice is counted once
+    const seenParcels = new Set<string>();
+    const parcels = group.filter(record => {
+      const parcelId = normalizeParcelId(record.parcel_id);
+      if (seenParcels.has(parcelId)) return false;
+      seenParcels.add(parcelId);
+      return true;
+    });
+    if (parcels.length < 2) continue;
+
+    const transaction = combineTransaction(parcels);
+    const main = parcels.find(parcel => parcel.parcel_id === transaction.parcel_id)!;
+    combined.set(main, transaction);
+    transactions++;
+
+    for (const record of group) {
+      if (record === main) continue;
+      dropped.add(record);
+      rejections?.addDuplicate(
+        'dedupe_transaction',
+        `Another parcel of the same sale (book/page ${transaction.book_page})`,
+        record,
+        transaction,
+        key
+      );
+    }
+  }
+
+  const grouped = records
+    .filter(record => !dropped.has(record))
+    .map(record => combined.get(record) ?? record);
+
+  if (transactions > 0) {
+    logger.info('Grouped multi-parcel sales', {
+      before: records.length,
+      after: grouped.length,
+      transactions,
+    });
+  }
+
+  return grouped;
+}
@@ -4,6 +4,12 @@
 
 import type { RawParcelRecord, CleanedSale } from '../types/index.js';
 import { parseSalePrice, parseSaleDate } from '../scraper/parcel-details.js';
+import { getRecordClassificationCode } from './filter.js';
+import { getClassificationName } from '../config/selectors.js';
+import { classifyEntity } from './entity.js';
+import { getSaleType } from './sale-type.js';
+import { parseOwnerName } from './owner-name.js';
+import { standardizeStreetAddress, parseMailingAddress, formatMailingAddress } from './address.js';
 import { logger } from '../utils/logger.js';
 
 /**
@@ -65,14 +71,30 @@ export function cleanOwnerName(name: string): string {
 
 /**
  * Clean and normalize address string
+ * The street (before any comma) is standardized - see standardizeStreetAddress
  */
 export function cleanAddress(address: string): string {
   if (!address) return '';
-  
-  return address
-    .trim()
-    .replace(/\s+/g, ' ')
-    .toUpperCase();
+
+  const [street, ...rest] = address.split(',');
+  return [
+    standardizeStreetAddress(street),
+    ...rest.map(part => part.trim().replace(/\s+/g, ' ').toUpperCase()),
+  ].filter(Boolean).join(', ');
+}
+
+/**
+ * Parse a numeric field like "$325,000", "2,150" or "1.25"
+ * Returns null when the field is empty or not a number
+ */
+export function parseNumericField(value: string | undefined): number | null {
+  if (!value) return null;
+
+  const cleaned = value.replace(/[$,\s]/g, '');
+  if (cleaned === '') return null;
+
+  const num = Number(cleaned);
+  return Number.isFinite(num) ? num : null;
 }
 
 /**
@@ -91,29 +113,65 @@ export function transformRecord(record: RawParcelRecord): CleanedSale {
   // Determine city and zip
   let city = record.city?.trim() || '';
   let zip = record.zip?.trim() || '';
+  let locationConfidence = record.location_confidence || 'none';
   
   // If city/zip not provided, try to parse from address
   if (!city && propertyAddress.includes(',')) {
     const parsed = parseAddress(propertyAddress);
     city = city || parsed.city;
     zip = zip || parsed.zip;
+    if (city) {
+      locationConfidence = 'parcel';
+    }
   }
 
   // Clean owner info
   const ownerName = cleanOwnerName(record.owner_name);
+  const mailingAddress = parseMailingAddress(record.owner_mailing_address ?? '');
+
+  const classificationCode = getRecordClassificationCode(record);
   
   return {
     parcel_id: record.parcel_id.trim(),
+    county: record.county?.trim() || '',
     situs_address: propertyAddress,
     city: city.toUpperCase(),
     state: 'TN',
     zip: zip,
+    location_confidence: locationConfidence,
     owner_name: ownerName || null,
-    owner_mailing_address: null, // Will be populated from parcel details if available
+    owner_mailing_address: formatMailingAddress(mailingAddress) || null,
+    owner_mailing_street: mailingAddress.street,
+    owner_mailing_city: mailingAddress.city,
+    owner_mailing_state: mailingAddress.state,
+    owner_mailing_zip: mailingAddress.zip,
+    ...parseOwnerName(ownerName),
     sale_date: saleDate,
     sale_price: salePrice,
     deed_instrument: record.deed_instrument?.trim() || '',
+    book_page: record.book_page?.trim() || '',
+    transaction_parcel_ids: record.transaction_parcel_ids ?? [record.parcel_id.trim()],
+    shared_consideration: record.shared_consideration ?? false,
+    seller_name: cleanOwnerName(record.seller_name) || null,
+    buyer_name: cleanOwnerName(record.buyer_name) || null,
+    owner_entity_type: classifyEntity(ownerName || record.buyer_name),
+    seller_entity_type: classifyEntity(record.seller_name),
+    sale_type: getSaleType(record),
+    prior_sale_date: parseSaleDate(record.prior_sale_date ?? '') || null,
+    prior_sale_price: record.prior_sale_price ? parseSalePrice(record.prior_sale_price) : null,
+    prior_deed_instrument: record.prior_deed_instrument?.trim() || null,
     land_use: record.land_use?.trim() || record.classification?.trim() || '',
+    property_class: classificationCode ? getClassificationName(classificationCode) : '',
+    acreage: parseNumericField(record.acreage),
+    land_value: parseNumericField(record.land_value),
+    improvement_value: parseNumericField(record.improvement_value),
+    appraised_value: parseNumericField(record.appraised_value),
+    assessed_value: parseNumericField(record.assessed_value),
+    year_built: parseNumericField(record.year_built),
+    finished_sqft: parseNumericField(record.finished_sqft),
+    building_type: record.building_type?.trim() || '',
+    subdivision: record.subdivision?.trim() || '',
+    lot: record.lot?.trim() || '',
     source_url: record.source_url || '',
     extracted_at: new Date().toISOString(),
   };
@@ -145,6 +203,14 @@ export function formatSalePrice(price: number): string {
   }).format(price);
 }
 
+/**
+ * Format lot size for display ("1.25 ac"), or "N/A" when unknown
+ */
+export function formatAcreage(acres: number | null): string {
+  if (acres === null) return 'N/A';
+  return `${acres.toLocaleString('en-US', { maximumFractionDigits: 2 })} ac`;
+}
+
 /**
  * Format date for display (MM/DD/YYYY)
  */
@@ -2,96 +2,195 @@
  * Playwright browser setup and management
  */
 
-import { chromium, Browser, BrowserContext, Page } from 'playwright';
+import * as fs from 'fs';
+import { chromium } from 'playwright';
+import type { Browser, BrowserContext, BrowserContextOptions, BrowserType, Page, Response } from 'playwright';
 import { logger } from '../utils/logger.js';
 import type { ExtractorConfig } from '../types/index.js';
 
-let browser: Browser | null = null;
-let context: BrowserContext | null = null;
+const USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
 
 /**
- * Launch the browser if not already running
+ * Anything that can launch a browser - chromium by default, a fake in tests
  */
-export async function launchBrowser(config: ExtractorConfig): Promise<Browser> {
-  if (browser) {
-    return browser;
-  }
-
-  logger.info('Launching browser', { headless: config.headless });
-
-  browser = await chromium.launch({
-    headless: config.headless,
-    args: [
-      '--disable-blink-features=AutomationControlled',
-      '--disable-dev-shm-usage',
-      '--no-sandbox',
-      '--disable-setuid-sandbox',
-    ],
-  });
+export type BrowserLauncher = Pick<BrowserType, 'launch'>;
 
-  return browser;
+/**
+ * Options for a new page
+ */
+export interface NewPageOptions {
+  /** Give the page its own context (cookies, storage, cache) that closes with it */
+  isolated?: boolean;
 }
 
 /**
- * Create a new browser context with common settings
+ * Browser context options built from the config
  */
-export async function createContext(config: ExtractorConfig): Promise<BrowserContext> {
-  const b = await launchBrowser(config);
-  
-  context = await b.newContext({
+export function getContextOptions(config: ExtractorConfig): BrowserContextOptions {
+  const options: BrowserContextOptions = {
     viewport: { width: 1920, height: 1080 },
-    userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-    locale: 'en-US',
-    timezoneId: 'America/Chicago',
-  });
+    userAgent: USER_AGENT,
+    locale: config.browserLocale,
+    timezoneId: config.browserTimezone,
+  };
 
-  // Set default timeout
-  context.setDefaultTimeout(30000);
-  context.setDefaultNavigationTimeout(60000);
+  if (config.browserProxyServer) {
+    options.proxy = {
+      server: config.browserProxyServer,
+      username: config.browserProxyUsername || undefined,
+      password: config.browserProxyPassword || undefined,
+    };
+  }
 
-  return context;
+  if (config.browserStorageState) {
+    options.storageState = config.browserStorageState;
+  }
+
+  return options;
 }
 
 /**
- * Create a new page in the context
+ * Owns one browser and its contexts
+ *
+ * Each client creates its own manager, so several clients (or tests) can run side
+ * by side. Pages share one default context unless they ask to be isolated.
  */
-export async function createPage(config: ExtractorConfig): Promise<Page> {
-  if (!context) {
-    await createContext(config);
+export class BrowserManager {
+  private config: ExtractorConfig;
+  private launcher: BrowserLauncher;
+  private browser: Browser | null = null;
+  private launching: Promise<Browser> | null = null;
+  private defaultContext: Promise<BrowserContext> | null = null;
+  private contexts = new Set<BrowserContext>();
+  private responseListeners: ((response: Response) => void)[] = [];
+
+  constructor(config: ExtractorConfig, launcher: BrowserLauncher = chromium) {
+    this.config = config;
+    this.launcher = launcher;
+  }
+
+  /**
+   * Launch the browser if not already running
+   * Concurrent callers share one launch
+   */
+  async launch(): Promise<Browser> {
+    if (this.browser) {
+      return this.browser;
+    }
+
+    this.launching ??= (async () => {
+      logger.info('Launching browser', {
+        headless: this.config.headless,
+        proxy: this.config.browserProxyServer || undefined,
+      });
+
+      return this.launcher.launch({
+        headless: this.config.headless,
+        args: [
+          '--disable-blink-features=AutomationControlled',
+          '--disable-dev-shm-usage',
+          '--no-sandbox',
+          '--disable-setuid-sandbox',
+        ],
+      });
+    })();
+
+    try {
+      this.browser = await this.launching;
+    } finally {
+      this.launching = null;
+    }
+
+    return this.browser;
+  }
+
+  /**
+   * Create a new browser context with the configured settings
+   */
+  async newContext(): Promise<BrowserContext> {
+    const browser = await this.launch();
+    const context = await browser.newContext(getContextOptions(this.config));
+
+    context.setDefaultTimeout(this.config.browserTimeoutMs);
+    context.setDefaultNavigationTimeout(this.config.browserNavigationTimeoutMs);
+
+    this.contexts.add(context);
+    context.on('close', () => this.contexts.delete(context));
+
+    return context;
   }
 
-  const page = await context!.newPage();
+  /**
+   * Call a listener for every response received by pages created from now on
+   */
+  onResponse(listener: (response: Response) => void): void {
+    this.responseListeners.push(listener);
+  }
+
+  /**
+   * Create a new page, in the shared context unless isolated
+   */
+  async newPage(options: NewPageOptions = {}): Promise<Page> {
+    let page: Page;
 
-  // Block unnecessary resources to speed up loading
-  await page.route('**/*', (route) => {
-    const resourceType = route.request().resourceType();
-    const blockedTypes = ['image', 'media', 'font'];
-    
-    if (blockedTypes.includes(resourceType)) {
-      route.abort();
+    if (options.isolated) {
+      const context = await this.newContext();
+      page = await context.newPage();
+      page.on('close', () => {
+        context.close().catch(() => undefined);
+      });
     } else {
-      route.continue();
+      this.defaultContext ??= this.newContext().catch((error) => {
+        this.defaultContext = null;
+        throw error;
+      });
+      page = await (await this.defaultContext).newPage();
     }
-  });
 
-  return page;
-}
+    for (const listener of this.responseListeners) {
+      page.on('response', listener);
+    }
 
-/**
- * Close all browser resources
- */
-export async function closeBrowser(): Promise<void> {
-  if (context) {
-    await context.close();
-    context = null;
+    await this.blockResources(page);
+    return page;
   }
-  
-  if (browser) {
+
+  /**
+   * Close every context and the browser
+   */
+  async close(): Promise<void> {
+    const browser = this.browser;
+    if (!browser) {
+      return;
+    }
+
+    await Promise.all([...this.contexts].map(context => context.close().catch(() => undefined)));
+    this.contexts.clear();
+    this.defaultContext = null;
+
     await browser.close();
-    browser = null;
+    this.browser = null;
+
+    logger.info('Browser closed');
   }
 
-  logger.info('Browser closed');
+  /**
+   * Block the configured resource types to speed up loading
+   */
+  private async blockResources(page: Page): Promise<void> {
+    const blockedTypes = this.config.browserBlockedResources;
+    if (blockedTypes.length === 0) {
+      return;
+    }
+
+    await page.route('**/*', (route) => {
+      if (blockedTypes.includes(route.request().resourceType())) {
+        route.abort();
+      } else {
+        route.continue();
+      }
+    });
+  }
 }
 
 /**
@@ -160,16 +259,33 @@ export async function safeSelect(
 }
 
 /**
- * Take a screenshot for debugging
+ * Take a screenshot for debugging, replacing any file already at the path
+ * Returns the file path, or null if the screenshot failed
  */
-export async function takeScreenshot(page: Page, name: string): Promise<void> {
+export async function takeScreenshot(page: Page, filePath: string): Promise<string | null> {
   try {
     await page.screenshot({ 
-      path: `debug_${name}_${Date.now()}.png`,
+      path: filePath,
       fullPage: true,
     });
+    return filePath;
+  } catch (error) {
+    logger.warn('Failed to take screenshot', { filePath, error: (error as Error).message });
+    return null;
+  }
+}
+
+/**
+ * Save the page's current HTML for debugging, replacing any file already at the path
+ * Returns the file path, or null if the page couldn't be read
+ */
+export async function savePageHtml(page: Page, filePath: string): Promise<string | null> {
+  try {
+    fs.writeFileSync(filePath, await page.content(), 'utf-8');
+    return filePath;
   } catch (error) {
-    logger.warn('Failed to take screenshot', { name, error: (error as Error).message });
+    logger.warn('Failed to save page HTML', { filePath, error: (error as Error).message });
+    return null;
   }
 }
 
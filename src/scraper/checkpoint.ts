@@ -0,0 +1,230 @@
+/**
+ * On-disk extraction checkpoints so an interrupted run can be resumed
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { logger } from '../utils/logger.js';
+import { formatDate } from '../utils/date-range.js';
+import { ensureOutputDir, generateFilename } from '../output/csv-writer.js';
+import type { DateRange, RawParcelRecord, ParcelDetails, ExtractorConfig, ScraperBackend } from '../types/index.js';
+
+/**
+ * Bump when the checkpoint shape changes so stale files are ignored
+ */
+const CHECKPOINT_VERSION = 6;
+
+/**
+ * Config a checkpoint is tied to, besides the date range
+ */
+export type CheckpointConfig = Pick<ExtractorConfig, 'counties' | 'classifications' | 'scraperBackend'>;
+
+/**
+ * Search progress for one county
+ */
+export interface SearchProgress {
+  /** Number of search result pages already collected */
+  pagesCompleted: number;
+  /** True once the last results page has been collected */
+  complete: boolean;
+  /** True if the range hit the result ceiling and was searched as two halves instead */
+  split?: boolean;
+}
+
+/**
+ * A parcel whose detail page still needs to be (or has been) fetched
+ */
+export interface ParcelTarget {
+  /** Unique across counties, see getParcelKey */
+  key: string;
+  countyCode: string;
+  county: string;
+  parcelId: string;
+  url: string;
+}
+
+/**
+ * Extraction state persisted between runs
+ */
+export interface ExtractionCheckpoint {
+  version: number;
+  countyCodes: string[];
+  /** Classifications searched for; results of other classifications were never kept */
+  classificationCodes: string[];
+  /** Backend that wrote the checkpoint */
+  backend: ScraperBackend;
+  dateRange: {
+    start: string;
+    end: string;
+    label: string;
+  };
+  updatedAt: string;
+  /** Search progress keyed by search key, see getSearchKey */
+  search: Record<string, SearchProgress>;
+  searchResults: RawParcelRecord[];
+  /** Parcels to fetch details for, in search order */
+  parcels: ParcelTarget[];
+  /** Finished parcels keyed by parcel key; null marks a parcel whose detail fetch failed */
+  details: Record<string, ParcelDetails | null>;
+}
+
+/**
+ * Parcel IDs are only unique within a county, so parcels are keyed by county too
+ */
+export function getParcelKey(countyCode: string, parcelId: string): string {
+  return `${countyCode}:${parcelId}`;
+}
+
+/**
+ * Key search progress by county, plus the sub-range when a search had to be split
+ * The full run range is keyed by the county code alone
+ */
+export function getSearchKey(checkpoint: ExtractionCheckpoint, countyCode: string, range: DateRange): string {
+  const start = formatDate(range.start);
+  const end = formatDate(range.end);
+
+  if (start === checkpoint.dateRange.start && end === checkpoint.dateRange.end) {
+    return countyCode;
+  }
+  return `${countyCode}:${start}..${end}`;
+}
+
+/**
+ * Total result pages collected for a county across all of its sub-ranges
+ */
+export function getCountyPagesCompleted(checkpoint: ExtractionCheckpoint, countyCode: string): number {
+  return Object.entries(checkpoint.search)
+    .filter(([key]) => key === countyCode || key.startsWith(`${countyCode}:`))
+    .reduce((sum, [, progress]) => sum + progress.pagesCompleted, 0);
+}
+
+/**
+ * Get the checkpoint file path for a date range
+ */
+export function getCheckpointPath(outDir: string, dateRange: DateRange): string {
+  return path.join(outDir, generateFilename('checkpoint', dateRange.label, 'json'));
+}
+
+/**
+ * Parcels still missing details; failed fetches (null) are tried again
+ */
+export function getUnfetchedParcels(checkpoint: ExtractionCheckpoint): ParcelTarget[] {
+  return checkpoint.parcels.filter(p => !checkpoint.details[p.key]);
+}
+
+/**
+ * Create an empty checkpoint for a new extraction
+ */
+export function createCheckpoint(config: CheckpointConfig, dateRange: DateRange): ExtractionCheckpoint {
+  const { counties } = config;
+
+  return {
+    version: CHECKPOINT_VERSION,
+    countyCodes: counties.map(c => c.code),
+    classificationCodes: config.classifications.map(c => c.code),
+    backend: config.scraperBackend,
+    dateRange: {
+      start: formatDate(dateRange.start),
+      end: formatDate(dateRange.end),
+      label: dateRange.label,
+    },
+    updatedAt: new Date().toISOString(),
+    search: Object.fromEntries(
+      counties.map(c => [c.code, { pagesCompleted: 0, complete: false }])
+    ),
+    searchResults: [],
+    parcels: [],
+    details: {},
+  };
+}
+
+/**
+ * Check that a checkpoint belongs to the given counties, classifications, backend and date range
+ */
+export function isCheckpointCompatible(
+  checkpoint: ExtractionCheckpoint,
+  config: CheckpointConfig,
+  dateRange: DateRange
+): boolean {
+  return checkpoint.version === CHECKPOINT_VERSION &&
+    checkpoint.countyCodes.join(',') === config.counties.map(c => c.code).join(',') &&
+    checkpoint.classificationCodes.join(',') === config.classifications.map(c => c.code).join(',') &&
+    checkpoint.backend === config.scraperBackend &&
+    checkpoint.dateRange.start === formatDate(dateRange.start) &&
+    checkpoint.dateRange.end === formatDate(dateRange.end);
+}
+
+/**
+ * Load a checkpoint from disk
+ * Returns null if there is no usable checkpoint for this config and date range
+ */
+export function loadCheckpoint(
+  outDir: string,
+  config: CheckpointConfig,
+  dateRange: DateRange
+): ExtractionCheckpoint | null {
+  const filePath = getCheckpointPath(outDir, dateRange);
+
+  if (!fs.existsSync(filePath)) {
+    logger.info('No checkpoint found - starting from scratch', { path: filePath });
+    return null;
+  }
+
+  try {
+    const checkpoint = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as ExtractionCheckpoint;
+
+    if (!isCheckpointCompatible(checkpoint, config, dateRange)) {
+      logger.warn('Checkpoint does not match this run - ignoring it', {
+        path: filePath,
+        checkpointCounties: checkpoint.countyCodes,
+        checkpointClassifications: checkpoint.classificationCodes,
+        checkpointBackend: checkpoint.backend,
+        checkpointRange: checkpoint.dateRange?.label,
+      });
+      return null;
+    }
+
+    logger.info('Loaded checkpoint', {
+      path: filePath,
+      countiesSearched: checkpoint.countyCodes.filter(code => checkpoint.search[code]?.complete).length,
+      parcelsCompleted: checkpoint.parcels.length - getUnfetchedParcels(checkpoint).length,
+      parcelsTotal: checkpoint.parcels.length,
+    });
+
+    return checkpoint;
+  } catch (error) {
+    logger.warn('Failed to read checkpoint - starting from scratch', {
+      path: filePath,
+      error: (error as Error).message,
+    });
+    return null;
+  }
+}
+
+/**
+ * Write a checkpoint to disk
+ * Writes to a temp file first so a crash mid-write never corrupts the previous checkpoint
+ */
+export function saveCheckpoint(outDir: string, checkpoint: ExtractionCheckpoint): void {
+  ensureOutputDir(outDir);
+
+  const filePath = path.join(outDir, generateFilename('checkpoint', checkpoint.dateRange.label, 'json'));
+  const tempPath = `${filePath}.tmp`;
+
+  checkpoint.updatedAt = new Date().toISOString();
+
+  fs.writeFileSync(tempPath, JSON.stringify(checkpoint), 'utf-8');
+  fs.renameSync(tempPath, filePath);
+}
+
+/**
+ * Remove the checkpoint once a run has finished
+ */
+export function clearCheckpoint(outDir: string, dateRange: DateRange): void {
+  const filePath = getCheckpointPath(outDir, dateRange);
+
+  if (fs.existsSync(filePath)) {
+    fs.unlinkSync(filePath);
+    logger.debug('Removed checkpoint', { path: filePath });
+  }
+}
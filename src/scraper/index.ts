@@ -6,4 +6,11 @@ export * from './browser.js';
 export * from './search.js';
 export * from './parcel-details.js';
 export * from './tpad-client.js';
+export * from './checkpoint.js';
 
+export * from './site-check.js';
+export * from './lookup.js';
+export * from './page-pool.js';
+export * from './parsers.js';
+export * from './scrape-report.js';
+export * from './parcel-cache.js';
@@ -0,0 +1,187 @@
+/**
+ * Ad-hoc parcel lookup by owner name, property address or parcel ID
+ *
+ * Runs TPAD's basic search and reads the full details for each match, for
+ * one-off "who owns ..." questions.
+ */
+
+import type { Page } from 'playwright';
+import { resolveTpadUrl } from '../config/selectors.js';
+import {
+  navigateToSearch,
+  executeBasicSearch,
+  extractResultsFromPage,
+  goToNextPage,
+  formatAddressQuery,
+} from './search.js';
+import { extractParcelDetails, parseSalePrice } from './parcel-details.js';
+import { formatSalePrice } from '../processors/transform.js';
+import { normalizeParcelId } from '../processors/dedupe.js';
+import { logger } from '../utils/logger.js';
+import type { BasicSearchField, SearchResultRow } from './search.js';
+import type { ExtractorConfig, ParcelDetails } from '../types/index.js';
+
+/**
+ * What to look up - exactly one field should be set
+ */
+export interface LookupQuery {
+  owner?: string;
+  address?: string;
+  parcel?: string;
+}
+
+/**
+ * One matching parcel with its full details
+ */
+export interface LookupMatch extends ParcelDetails {
+  /** County the match was found in */
+  county: string;
+}
+
+/**
+ * Lookup results
+ */
+export interface LookupResult {
+  query: LookupQuery;
+  /** Matching parcels found by the search, before the limit was applied */
+  totalMatches: number;
+  /** False when the search stopped at the limit, so totalMatches is a lower bound */
+  complete: boolean;
+  matches: LookupMatch[];
+}
+
+/**
+ * Options for a lookup run
+ */
+export interface LookupOptions {
+  /** Maximum number of matches to fetch details for */
+  limit: number;
+}
+
+/**
+ * Check the query has exactly one non-empty field
+ * Returns an error message, or null if the query is usable
+ */
+export function validateLookupQuery(query: LookupQuery): string | null {
+  const fields = [query.owner, query.address, query.parcel].filter(value => value?.trim());
+
+  if (fields.length === 0) {
+    return 'Specify one of --owner, --address or --parcel';
+  }
+  if (fields.length > 1) {
+    return 'Specify only one of --owner, --address or --parcel';
+  }
+  return null;
+}
+
+/**
+ * Search field and value for a query
+ * Addresses go in TPAD's street-then-number order; parcel IDs with their spacing normalized
+ */
+function getSearchTerm(query: LookupQuery): { field: BasicSearchField; value: string } {
+  if (query.parcel?.trim()) {
+    return { field: 'parcel', value: normalizeParcelId(query.parcel).toUpperCase() };
+  }
+  if (query.owner?.trim()) {
+    return { field: 'owner', value: query.owner.trim().toUpperCase() };
+  }
+  return { field: 'address', value: formatAddressQuery(query.address!) };
+}
+
+/**
+ * Run a lookup in every configured county and fetch details for the matches
+ */
+export async function runLookup(
+  page: Page,
+  config: ExtractorConfig,
+  query: LookupQuery,
+  options: LookupOptions
+): Promise<LookupResult> {
+  const { field, value } = getSearchTerm(query);
+  const found: { county: string; row: SearchResultRow }[] = [];
+
+  for (const county of config.counties) {
+    // Counties after the limit was reached aren't searched
+    if (found.length >= options.limit) break;
+
+    await navigateToSearch(page, config.tpadBaseUrl);
+    await executeBasicSearch(page, county.name, field, value);
+
+    // Only page through as far as the limit needs
+    do {
+      const rows = await extractResultsFromPage(page);
+      for (const row of rows) {
+        // A parcel ID search can also match longer IDs that start the same way
+        if (field === 'parcel' && normalizeParcelId(row.parcelId) !== value) {
+          continue;
+        }
+        if (!found.some(f => f.county === county.name && f.row.parcelId === row.parcelId)) {
+          found.push({ county: county.name, row });
+        }
+      }
+    } while (found.length < options.limit && await goToNextPage(page));
+  }
+
+  // Stopping at the limit may leave pages or counties unsearched
+  const complete = found.length < options.limit;
+
+  logger.info('Lookup search complete', { field, value, matches: found.length, complete });
+
+  const matches: LookupMatch[] = [];
+
+  for (const { county, row } of found.slice(0, options.limit)) {
+    const details = await extractParcelDetails(
+      page,
+      resolveTpadUrl(row.viewUrl, config.tpadBaseUrl),
+      row.parcelId,
+      config.tpadBaseUrl
+    );
+
+    if (details) {
+      matches.push({ ...details, county });
+    }
+  }
+
+  return { query, totalMatches: found.length, complete, matches };
+}
+
+/**
+ * Format lookup results for the terminal
+ */
+export function formatLookupResult(result: LookupResult): string {
+  if (result.matches.length === 0) {
+    return 'No matching parcels found';
+  }
+
+  const blocks = result.matches.map(match => {
+    const lines = [
+      `${match.property_address}${match.city ? `, ${match.city}` : ''}${match.zip ? ` ${match.zip}` : ''}`,
+      `  Parcel:          ${match.parcel_id} (${match.county})`,
+      `  Current owner:   ${match.owner_name || 'N/A'}`,
+      `  Mailing address: ${match.owner_mailing_address || 'N/A'}`,
+      `  Class:           ${match.classification || 'N/A'}`,
+      `  Details:         ${match.source_url}`,
+    ];
+
+    if (match.sales.length === 0) {
+      lines.push('  Sales:           none recorded');
+    } else {
+      lines.push('  Sales:');
+      for (const sale of match.sales) {
+        const price = sale.sale_price ? formatSalePrice(parseSalePrice(sale.sale_price)) : 'N/A';
+        const parties = sale.grantor || sale.grantee
+          ? `  ${sale.grantor || '?'} -> ${sale.grantee || '?'}`
+          : '';
+        lines.push(`    ${sale.sale_date.padEnd(10)}  ${price.padStart(12)}  ${sale.deed_instrument}${parties}`);
+      }
+    }
+
+    return lines.join('\n');
+  });
+
+  const shown = result.matches.length < result.totalMatches
+    ? `Showing ${result.matches.length} of ${result.complete ? '' : 'at least '}${result.totalMatches} matches`
+    : `${result.matches.length} match${result.matches.length === 1 ? '' : 'es'}${result.complete ? '' : ' (search stopped at the limit)'}`;
+
+  return [...blocks, shown].join('\n\n');
+}
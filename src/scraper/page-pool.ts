@@ -0,0 +1,142 @@
+/**
+ * Reusable pool of browser pages for parcel detail lookups
+ *
+ * Pages are created lazily up to the pool size and handed back after each task,
+ * so the resource-blocking route is only registered once per page. A page whose
+ * task throws is closed and replaced, since it may be left mid-navigation.
+ * Isolated pools give every page its own browser context.
+ */
+
+import type { Page } from 'playwright';
+import type { BrowserManager, NewPageOptions } from './browser.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Throughput and recycling counters for a pool
+ */
+export interface PagePoolStats {
+  size: number;
+  pagesCreated: number;
+  pagesRecycled: number;
+  tasksCompleted: number;
+  tasksFailed: number;
+  elapsedMs: number;
+}
+
+export interface PagePool {
+  /** Run a task on an idle page, waiting for one to free up if needed */
+  run<T>(task: (page: Page) => Promise<T>): Promise<T>;
+  getStats(): PagePoolStats;
+  /** Close every page in the pool */
+  close(): Promise<void>;
+}
+
+/**
+ * Create a page pool holding at most `size` pages from the given browser
+ */
+export function createPagePool(
+  browser: BrowserManager,
+  size: number,
+  pageOptions: NewPageOptions = {}
+): PagePool {
+  const poolSize = Math.max(1, size);
+  const idle: Page[] = [];
+  const waiting: ((page: Page | null) => void)[] = [];
+  const startedAt = Date.now();
+  let open = 0;
+  let closed = false;
+
+  const stats = {
+    pagesCreated: 0,
+    pagesRecycled: 0,
+    tasksCompleted: 0,
+    tasksFailed: 0,
+  };
+
+  async function acquire(): Promise<Page | null> {
+    const page = idle.pop();
+    if (page) {
+      return page;
+    }
+
+    if (open < poolSize) {
+      open++;
+      try {
+        const created = await browser.newPage(pageOptions);
+        stats.pagesCreated++;
+        return created;
+      } catch (error) {
+        open--;
+        throw error;
+      }
+    }
+
+    return new Promise((resolve) => waiting.push(resolve));
+  }
+
+  function release(page: Page): void {
+    const next = waiting.shift();
+    if (next) {
+      next(page);
+    } else {
+      idle.push(page);
+    }
+  }
+
+  /**
+   * Close a page that failed and let the next waiter create a replacement
+   */
+  async function recycle(page: Page): Promise<void> {
+    open--;
+    stats.pagesRecycled++;
+    await page.close().catch(() => undefined);
+
+    const next = waiting.shift();
+    if (next) {
+      acquire().then(next, () => next(null));
+    }
+  }
+
+  return {
+    async run<T>(task: (page: Page) => Promise<T>): Promise<T> {
+      if (closed) {
+        throw new Error('Page pool is closed');
+      }
+
+      const page = await acquire();
+      if (!page) {
+        stats.tasksFailed++;
+        throw new Error('Could not create a page for the pool');
+      }
+
+      try {
+        const result = await task(page);
+        stats.tasksCompleted++;
+        release(page);
+        return result;
+      } catch (error) {
+        stats.tasksFailed++;
+        logger.debug('Recycling page after failed task', { error: (error as Error).message });
+        await recycle(page);
+        throw error;
+      }
+    },
+
+    getStats(): PagePoolStats {
+      return {
+        size: poolSize,
+        ...stats,
+        elapsedMs: Date.now() - startedAt,
+      };
+    },
+
+    async close(): Promise<void> {
+      closed = true;
+      for (const resolve of waiting.splice(0)) {
+        resolve(null);
+      }
+      await Promise.all(idle.splice(0).map(page => page.close().catch(() => undefined)));
+      open = 0;
+    },
+  };
+}
@@ -0,0 +1,152 @@
+/**
+ * On-disk cache of parsed parcel detail pages, shared across runs
+ *
+ * Backfills and re-runs of the same week otherwise fetch the same detail pages
+ * again. Entries expire after the configured TTL, and `--refresh` ignores them
+ * (while still storing what is fetched).
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { logger } from '../utils/logger.js';
+import { ensureOutputDir } from '../output/csv-writer.js';
+import { normalizeParcelId } from '../processors/dedupe.js';
+import { getParcelKey } from './checkpoint.js';
+import type { ParcelDetails } from '../types/index.js';
+
+/**
+ * Bump when the cached ParcelDetails shape changes so stale entries are ignored
+ */
+const PARCEL_CACHE_VERSION = 2;
+
+const PARCEL_CACHE_FILENAME = 'parcel_cache.json';
+
+/**
+ * One cached detail page
+ */
+export interface CachedParcel {
+  fetchedAt: string;
+  details: ParcelDetails;
+}
+
+/**
+ * Cache file contents, keyed by county code and normalized parcel ID
+ */
+interface ParcelCacheFile {
+  version: number;
+  parcels: Record<string, CachedParcel>;
+}
+
+/**
+ * Options for opening the cache
+ */
+export interface ParcelCacheOptions {
+  /** How long an entry stays usable; 0 turns the cache off */
+  ttlMs: number;
+  /** Ignore cached entries (new fetches are still stored) */
+  refresh?: boolean;
+}
+
+export interface ParcelCache {
+  /** Cached details for a parcel, or null if missing, expired or refreshing */
+  get(countyCode: string, parcelId: string): ParcelDetails | null;
+  /** Store freshly fetched details */
+  set(countyCode: string, parcelId: string, details: ParcelDetails): void;
+  /** Write the cache to disk if anything was stored */
+  save(): void;
+}
+
+/**
+ * Get the cache file path
+ */
+export function getParcelCachePath(outDir: string): string {
+  return path.join(outDir, PARCEL_CACHE_FILENAME);
+}
+
+/**
+ * Cache key - TPAD pads parcel IDs inconsistently, and IDs are only unique within a county
+ */
+function getCacheKey(countyCode: string, parcelId: string): string {
+  return getParcelKey(countyCode, normalizeParcelId(parcelId));
+}
+
+/**
+ * Read the cache file, or start empty
+ */
+function readCacheFile(filePath: string): ParcelCacheFile {
+  if (!fs.existsSync(filePath)) {
+    return { version: PARCEL_CACHE_VERSION, parcels: {} };
+  }
+
+  try {
+    const file = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as ParcelCacheFile;
+    if (file.version === PARCEL_CACHE_VERSION) {
+      return file;
+    }
+    logger.info('Parcel cache is from an older version - starting a new one', { path: filePath });
+  } catch (error) {
+    logger.warn('Failed to read parcel cache - starting a new one', {
+      path: filePath,
+      error: (error as Error).message,
+    });
+  }
+
+  return { version: PARCEL_CACHE_VERSION, parcels: {} };
+}
+
+/**
+ * Open the parcel cache in the output directory
+ */
+export function openParcelCache(outDir: string, options: ParcelCacheOptions): ParcelCache {
+  const enabled = options.ttlMs > 0;
+  const filePath = getParcelCachePath(outDir);
+  const file: ParcelCacheFile = enabled ? readCacheFile(filePath) : { version: PARCEL_CACHE_VERSION, parcels: {} };
+  let changed = false;
+
+  return {
+    get(countyCode: string, parcelId: string): ParcelDetails | null {
+      if (!enabled || options.refresh) {
+        return null;
+      }
+
+      const entry = file.parcels[getCacheKey(countyCode, parcelId)];
+      if (!entry || Date.now() - new Date(entry.fetchedAt).getTime() >= options.ttlMs) {
+        return null;
+      }
+
+      return entry.details;
+    },
+
+    set(countyCode: string, parcelId: string, details: ParcelDetails): void {
+      if (!enabled) {
+        return;
+      }
+
+      file.parcels[getCacheKey(countyCode, parcelId)] = {
+        fetchedAt: new Date().toISOString(),
+        details,
+      };
+      changed = true;
+    },
+
+    save(): void {
+      if (!changed) {
+        return;
+      }
+
+      // Drop expired entries so the file doesn't grow forever
+      const now = Date.now();
+      for (const [key, entry] of Object.entries(file.parcels)) {
+        if (now - new Date(entry.fetchedAt).getTime() >= options.ttlMs) {
+          delete file.parcels[key];
+        }
+      }
+
+      ensureOutputDir(outDir);
+      const tempPath = `${filePath}.tmp`;
+      fs.writeFileSync(tempPath, JSON.stringify(file), 'utf-8');
+      fs.renameSync(tempPath, filePath);
+      changed = false;
+    },
+  };
+}
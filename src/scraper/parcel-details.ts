@@ -3,259 +3,195 @@
  */
 
 import type { Page } from 'playwright';
-import { TPAD_BASE_URL } from '../config/selectors.js';
+import { SELECTORS, TPAD_BASE_URL, resolveTpadUrl } from '../config/selectors.js';
 import { logger } from '../utils/logger.js';
 import { waitForStable } from './browser.js';
-import type { ParcelDetails, SaleRecord, RawParcelRecord } from '../types/index.js';
+import {
+  parseOwnerCard,
+  parseLocationAddress,
+  parseClassification,
+  isSalesTable,
+  parseSalesRows,
+  parseCharacteristics,
+  assignSaleParties,
+} from './parsers.js';
+import type { OwnerCardData, ParsedTable } from './parsers.js';
+import type { ParcelDetails, SaleRecord, RawParcelRecord, SalesHistoryRecord } from '../types/index.js';
 
 /**
  * Navigate to parcel details page and extract information
+ * Returns null (and logs a warning) if the page can't be read
  */
 export async function extractParcelDetails(
   page: Page,
   parcelUrl: string,
-  parcelId: string
+  parcelId: string,
+  baseUrl: string = TPAD_BASE_URL,
+  assessmentYear?: number
 ): Promise<ParcelDetails | null> {
   try {
-    // Construct full URL if relative
-    const fullUrl = parcelUrl.startsWith('http') 
-      ? parcelUrl 
-      : `${TPAD_BASE_URL}${parcelUrl.replace('./', '/')}`;
-
-    await page.goto(fullUrl, { 
-      waitUntil: 'networkidle',
-      timeout: 30000,
+    return await fetchParcelDetails(page, parcelUrl, parcelId, baseUrl, assessmentYear);
+  } catch (error) {
+    logger.warn('Failed to extract parcel details', { 
+      parcelId, 
+      error: (error as Error).message,
     });
+    return null;
+  }
+}
 
-    await waitForStable(page);
-
-    // Extract owner info and property address from "Property Owner and Mailing Address" card
-    // The Current Owner section has the best address info: "467 OWEN RD, BRIGHTON TN 38011"
-    let ownerName = '';
-    let ownerMailingAddress = '';
-    let propertyAddress = '';
-    let city = '';
-    let zip = '';
-    
-    const ownerCard = await page.$('.card:has-text("Property Owner")');
-    if (ownerCard) {
-      const ownerBody = await ownerCard.$('.card-body');
-      if (ownerBody) {
-        // Extract all text content and parse it
-        const ownerData = await ownerBody.evaluate((el) => {
-          const text = el.textContent || '';
-          const result = {
-            januaryOwner: '',
-            januaryAddress: '',
-            currentOwner: '',
-            currentAddress: '',
-            currentCity: '',
-            currentState: '',
-            currentZip: '',
-          };
-          
-          // Find Current Owner section - this has the property address
-          const currentMatch = text.match(/Current Owner\s*([\s\S]*?)(?:$)/i);
-          if (currentMatch) {
-            const currentSection = currentMatch[1].trim();
-            const lines = currentSection.split('\n').map((l: string) => l.trim()).filter(Boolean);
-            
-            // First line(s) are owner name
-            // Then street address
-            // Then city state zip
-            for (let i = 0; i < lines.length; i++) {
-              const line = lines[i];
-              
-              // Check if this looks like a city/state/zip line
-              const cityStateZip = line.match(/^([A-Z\s]+)\s+([A-Z]{2})\s+(\d{5}(?:-\d{4})?)$/);
-              if (cityStateZip) {
-                result.currentCity = cityStateZip[1].trim();
-                result.currentState = cityStateZip[2];
-                result.currentZip = cityStateZip[3];
-              } 
-              // Check if it looks like a street address (has number)
-              else if (line.match(/^\d+\s+\w/) || line.match(/\d+$/)) {
-                result.currentAddress = line;
-              }
-              // Otherwise it's part of the owner name
-              else if (!result.currentOwner && !line.includes('Current Owner')) {
-                result.currentOwner = line;
-              }
-            }
-          }
-          
-          // Find January 1 Owner section for mailing address
-          const janMatch = text.match(/January 1 Owner\s*([\s\S]*?)(?:Current Owner|$)/i);
-          if (janMatch) {
-            const janSection = janMatch[1].trim();
-            const lines = janSection.split('\n').map((l: string) => l.trim()).filter(Boolean);
-            
-            // First lines are owner name, rest is mailing address
-            const ownerLines: string[] = [];
-            const addressLines: string[] = [];
-            let foundAddress = false;
-            
-            for (const line of lines) {
-              // If line contains numbers or looks like address, it's address
-              if (line.match(/\d/) || line.match(/^[A-Z]{2}\s+\d{5}/)) {
-                foundAddress = true;
-              }
-              if (foundAddress) {
-                addressLines.push(line);
-              } else {
-                ownerLines.push(line);
-              }
-            }
-            
-            result.januaryOwner = ownerLines.join(' ').trim();
-            result.januaryAddress = addressLines.join(', ').trim();
-          }
-          
-          return result;
-        });
-        
-        // Use Current Owner's name and address (this is who you'd contact)
-        ownerName = ownerData.currentOwner || ownerData.januaryOwner;
-        propertyAddress = ownerData.currentAddress;
-        city = ownerData.currentCity;
-        zip = ownerData.currentZip;
-        ownerMailingAddress = ownerData.januaryAddress;
-      }
-    }
+/**
+ * Navigate to parcel details page and extract information
+ * Throws on failure, so callers can see (and retry on) the actual error
+ * The owner card's "January 1 Owner" is as of January 1 of assessmentYear (default: this year)
+ */
+export async function fetchParcelDetails(
+  page: Page,
+  parcelUrl: string,
+  parcelId: string,
+  baseUrl: string = TPAD_BASE_URL,
+  assessmentYear?: number
+): Promise<ParcelDetails> {
+  // Construct full URL if relative
+  const fullUrl = resolveTpadUrl(parcelUrl, baseUrl);
 
-    // Fallback: Extract property address from "Property Location" card if we didn't get it
-    if (!propertyAddress) {
-      const locationCard = await page.$('.card:has-text("Property Location")');
-      if (locationCard) {
-        const addressText = await locationCard.evaluate((el) => {
-          const text = el.textContent || '';
-          const match = text.match(/Address:\s*([A-Z0-9\s]+)/);
-          return match ? match[1].trim() : '';
-        });
-        if (addressText) {
-          propertyAddress = addressText;
-        }
-      }
+  await page.goto(fullUrl, { 
+    waitUntil: 'networkidle',
+    timeout: 30000,
+  });
+
+  await waitForStable(page);
+
+  // Extract owner info and property address from "Property Owner and Mailing Address" card
+  // The Current Owner section has the best address info: "467 OWEN RD, BRIGHTON TN 38011"
+  let ownerName = '';
+  let ownerMailingAddress = '';
+  let propertyAddress = '';
+  let city = '';
+  let zip = '';
+  let ownerData: OwnerCardData | null = null;
+  
+  const ownerCard = await page.$(SELECTORS.parcelDetails.ownerCard);
+  if (ownerCard) {
+    const ownerBody = await ownerCard.$(SELECTORS.parcelDetails.cardBody);
+    if (ownerBody) {
+      // Extract all text content and parse it
+      const ownerText = await ownerBody.evaluate((el) => el.textContent || '');
+      ownerData = parseOwnerCard(ownerText);
+      
+      // Use Current Owner's name and address (this is who you'd contact)
+      ownerName = ownerData.currentOwner || ownerData.januaryOwner;
+      propertyAddress = ownerData.currentAddress;
+      city = ownerData.currentCity;
+      zip = ownerData.currentZip;
+      ownerMailingAddress = ownerData.januaryAddress;
     }
+  }
 
-    // Extract classification from General Information section
-    // Format: "00 - Residential"
-    let classification = '';
-    let landUse = '';
-    
-    try {
-      // The classification is in the General Information card
-      const generalInfo = await page.$('.card:has-text("General Information")');
-      if (generalInfo) {
-        const classificationText = await generalInfo.$eval(
-          '.card-body',
-          (el) => {
-            const text = el.textContent || '';
-            // Look for pattern like "00 - Residential"
-            const match = text.match(/(\d{2}\s*-\s*[A-Za-z]+)/);
-            return match ? match[1].trim() : '';
-          }
-        );
-        if (classificationText) {
-          classification = classificationText;
-          landUse = classificationText;
-        }
+  // Fallback: Extract property address from "Property Location" card if we didn't get it
+  if (!propertyAddress) {
+    const locationCard = await page.$(SELECTORS.parcelDetails.locationCard);
+    if (locationCard) {
+      const addressText = parseLocationAddress(
+        await locationCard.evaluate((el) => el.textContent || '')
+      );
+      if (addressText) {
+        propertyAddress = addressText;
       }
-    } catch {
-      // Fall back to simple extraction
-      classification = 'Residential';
-      landUse = 'Residential';
     }
+  }
 
-    // Extract sales history from the sales table
-    const sales = await extractSalesHistory(page);
-
-    const details: ParcelDetails = {
-      parcel_id: parcelId,
-      owner_name: ownerName,
-      owner_mailing_address: ownerMailingAddress,
-      property_address: propertyAddress,
-      city,
-      zip,
-      classification,
-      land_use: landUse,
-      sales,
-      source_url: fullUrl,
-    };
-
-    logger.debug('Extracted parcel details', { 
-      parcelId, 
-      salesCount: sales.length,
-      owner: ownerName.slice(0, 30),
+  // Extract classification from General Information section
+  // Format: "00 - Residential"
+  const generalInfoText = await getCardText(page, SELECTORS.parcelDetails.generalInfoCard);
+  const classification = parseClassification(generalInfoText);
+  if (!classification) {
+    // Left blank; the extraction uses the search row's classification instead
+    logger.warn('No classification on parcel page', {
+      parcelId,
+      generalInfoCard: generalInfoText ? 'found' : 'missing',
     });
+  }
 
-    return details;
+  // Extract sales history and building details from the page's tables
+  const tables = await extractTables(page);
+  const salesTable = tables.find(table => isSalesTable(table.headers));
+  const sales = salesTable ? parseSalesRows(salesTable.rows) : [];
 
-  } catch (error) {
-    logger.warn('Failed to extract parcel details', { 
-      parcelId, 
-      error: (error as Error).message,
-    });
-    return null;
+  // Seller and buyer for each sale, from the January 1 / Current owner split
+  assignSaleParties(sales, ownerData, assessmentYear);
+
+  // Acreage, appraisal/assessment and structure details
+  const characteristics = parseCharacteristics({
+    generalInfo: generalInfoText,
+    values: await getCardText(page, SELECTORS.parcelDetails.valueCard),
+    tables,
+  });
+
+  const details: ParcelDetails = {
+    parcel_id: parcelId,
+    owner_name: ownerName,
+    owner_mailing_address: ownerMailingAddress,
+    property_address: propertyAddress,
+    city,
+    zip,
+    classification,
+    land_use: classification,
+    characteristics,
+    sales,
+    source_url: fullUrl,
+  };
+
+  logger.debug('Extracted parcel details', { 
+    parcelId, 
+    salesCount: sales.length,
+    owner: ownerName.slice(0, 30),
+  });
+
+  return details;
+}
+
+/**
+ * Get the body text of a card, or '' if the card is missing
+ */
+async function getCardText(page: Page, cardSelector: string): Promise<string> {
+  try {
+    const card = await page.$(cardSelector);
+    const body = card ? await card.$(SELECTORS.parcelDetails.cardBody) : null;
+    return body ? await body.evaluate((el) => el.textContent || '') : '';
+  } catch {
+    return '';
   }
 }
 
 /**
- * Extract sales history from parcel details page
- * 
- * Table structure:
- * Sale Date | Price | Book | Page | Vacant/Improved | Type Instrument | Qualification
+ * Read the headers and body cells of every data table on the page
+ * The sales table (Sale Date | Price | Book | Page | Vacant/Improved | Type Instrument | Qualification)
+ * and the building table are picked out by their headers
  */
-async function extractSalesHistory(page: Page): Promise<SaleRecord[]> {
-  const sales: SaleRecord[] = [];
+async function extractTables(page: Page): Promise<ParsedTable[]> {
+  const tables: ParsedTable[] = [];
 
   try {
-    // Find the sales table - it's in the "Sale Information" section
-    // Headers: Sale Date, Price, Book, Page, Vacant/Improved, Type Instrument, Qualification
-    const tables = await page.$$('table.table-striped');
-    
-    for (const table of tables) {
-      // Check if this is the sales table by looking at headers
+    for (const table of await page.$$(SELECTORS.parcelDetails.dataTables)) {
       const headers = await table.$$eval('th', (ths) => 
         ths.map(th => th.textContent?.trim().toLowerCase() || '')
       );
-      
-      if (!headers.includes('sale date') || !headers.includes('price')) {
-        continue;
-      }
 
-      // This is the sales table
-      const rows = await table.$$('tbody tr');
-      
-      for (const row of rows) {
-        const cells = await row.$$('td');
-        if (cells.length < 7) continue;
-
-        const sale: SaleRecord = {
-          sale_date: (await cells[0].textContent())?.trim() || '',
-          sale_price: (await cells[1].textContent())?.trim() || '',
-          book_page: `${(await cells[2].textContent())?.trim() || ''}-${(await cells[3].textContent())?.trim() || ''}`,
-          grantor: '', // Not available in this table
-          grantee: '', // Not available in this table  
-          deed_instrument: (await cells[5].textContent())?.trim() || '',
-          qualified_sale: (await cells[6].textContent())?.trim() || '',
-        };
-
-        // Only add if we have meaningful data
-        if (sale.sale_date || sale.sale_price) {
-          sales.push(sale);
-        }
+      const rows: string[][] = [];
+      for (const row of await table.$$('tbody tr')) {
+        rows.push(await row.$$eval('td', (tds) => tds.map(td => td.textContent?.trim() || '')));
       }
-      
-      break; // Found the sales table, no need to check others
+
+      tables.push({ headers, rows });
     }
   } catch (error) {
-    logger.debug('Error extracting sales history', { 
+    logger.debug('Error extracting tables', { 
       error: (error as Error).message,
     });
   }
 
-  return sales;
+  return tables;
 }
 
 /**
@@ -263,26 +199,78 @@ async function extractSalesHistory(page: Page): Promise<SaleRecord[]> {
  */
 export function parcelDetailsToRawRecord(
   details: ParcelDetails,
-  sale: SaleRecord
+  sale: SaleRecord,
+  county: string
 ): RawParcelRecord {
+  const prior = findPriorSale(details.sales, sale);
+
   return {
     parcel_id: details.parcel_id,
+    county,
     owner_name: details.owner_name,
+    owner_mailing_address: details.owner_mailing_address,
     property_address: details.property_address,
     city: details.city,
     zip: details.zip,
+    location_confidence: details.city ? 'parcel' : 'none',
     classification: details.classification,
     land_use: details.land_use,
-    acreage: '',
-    assessed_value: '',
+    ...details.characteristics,
     sale_date: sale.sale_date,
     sale_price: sale.sale_price,
     deed_instrument: sale.deed_instrument,
+    seller_name: sale.grantor,
+    buyer_name: sale.grantee,
     qualified_sale: sale.qualified_sale,
+    book_page: sale.book_page,
+    vacant_improved: sale.vacant_improved,
+    prior_sale_date: prior?.sale_date ?? '',
+    prior_sale_price: prior?.sale_price ?? '',
+    prior_deed_instrument: prior?.deed_instrument ?? '',
     source_url: details.source_url,
   };
 }
 
+/**
+ * The most recent sale dated before the given one, or null if it is the first on record
+ */
+export function findPriorSale(sales: SaleRecord[], sale: SaleRecord): SaleRecord | null {
+  const saleDate = parseSaleDate(sale.sale_date);
+  let prior: SaleRecord | null = null;
+
+  for (const candidate of sales) {
+    const date = parseSaleDate(candidate.sale_date);
+    if (/^\d{4}-\d{2}-\d{2}$/.test(date) && date < saleDate &&
+      (!prior || date > parseSaleDate(prior.sale_date))) {
+      prior = candidate;
+    }
+  }
+
+  return prior;
+}
+
+/**
+ * Every sale on a parcel's detail page, newest first
+ */
+export function parcelDetailsToSalesHistory(details: ParcelDetails, county: string): SalesHistoryRecord[] {
+  return details.sales
+    .map(sale => ({
+      parcel_id: details.parcel_id,
+      county,
+      property_address: details.property_address,
+      sale_date: parseSaleDate(sale.sale_date),
+      sale_price: parseSalePrice(sale.sale_price),
+      deed_instrument: sale.deed_instrument,
+      seller_name: sale.grantor,
+      buyer_name: sale.grantee,
+      qualified_sale: sale.qualified_sale,
+      book_page: sale.book_page,
+      vacant_improved: sale.vacant_improved,
+      source_url: details.source_url,
+    }))
+    .sort((a, b) => b.sale_date.localeCompare(a.sale_date));
+}
+
 /**
  * Parse price string to number
  * Handles formats like "$50,000", "50000", "$1,250,000"
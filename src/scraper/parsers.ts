@@ -0,0 +1,300 @@
+/**
+ * Pure parsers for TPAD page content
+ *
+ * The Playwright scraper reads text out of the live DOM; these turn that text
+ * into records, so they can be tested without a browser.
+ */
+
+import { SALES_TABLE_HEADERS } from '../config/selectors.js';
+import type { SaleRecord, PropertyCharacteristics } from '../types/index.js';
+
+/**
+ * Owner and address details read from the "Property Owner and Mailing Address" card
+ */
+export interface OwnerCardData {
+  januaryOwner: string;
+  januaryAddress: string;
+  currentOwner: string;
+  currentAddress: string;
+  currentCity: string;
+  currentState: string;
+  currentZip: string;
+}
+
+/**
+ * A table's header labels (lower-cased) and body cell text
+ */
+export interface ParsedTable {
+  headers: string[];
+  rows: string[][];
+}
+
+/**
+ * Parse the owner card text
+ * The Current Owner section has the property address: "467 OWEN RD, BRIGHTON TN 38011";
+ * the January 1 Owner section has the mailing address
+ */
+export function parseOwnerCard(text: string): OwnerCardData {
+  const result: OwnerCardData = {
+    januaryOwner: '',
+    januaryAddress: '',
+    currentOwner: '',
+    currentAddress: '',
+    currentCity: '',
+    currentState: '',
+    currentZip: '',
+  };
+
+  // Find Current Owner section - this has the property address
+  const currentMatch = text.match(/Current Owner\s*([\s\S]*?)(?:$)/i);
+  if (currentMatch) {
+    const lines = splitLines(currentMatch[1]);
+
+    // First line(s) are owner name
+    // Then street address
+    // Then city state zip
+    for (const line of lines) {
+      // Check if this looks like a city/state/zip line
+      const cityStateZip = line.match(/^([A-Z\s]+)\s+([A-Z]{2})\s+(\d{5}(?:-\d{4})?)$/);
+      if (cityStateZip) {
+        result.currentCity = cityStateZip[1].trim();
+        result.currentState = cityStateZip[2];
+        result.currentZip = cityStateZip[3];
+      }
+      // Check if it looks like a street address (has number)
+      else if (line.match(/^\d+\s+\w/) || line.match(/\d+$/)) {
+        result.currentAddress = line;
+      }
+      // Otherwise it's part of the owner name
+      else if (!result.currentOwner && !line.includes('Current Owner')) {
+        result.currentOwner = line;
+      }
+    }
+  }
+
+  // Find January 1 Owner section for mailing address
+  const janMatch = text.match(/January 1 Owner\s*([\s\S]*?)(?:Current Owner|$)/i);
+  if (janMatch) {
+    // First lines are owner name, rest is mailing address
+    const ownerLines: string[] = [];
+    const addressLines: string[] = [];
+    let foundAddress = false;
+
+    for (const line of splitLines(janMatch[1])) {
+      // If line contains numbers or looks like address, it's address
+      if (line.match(/\d/) || line.match(/^[A-Z]{2}\s+\d{5}/)) {
+        foundAddress = true;
+      }
+      if (foundAddress) {
+        addressLines.push(line);
+      } else {
+        ownerLines.push(line);
+      }
+    }
+
+    result.januaryOwner = ownerLines.join(' ').trim();
+    result.januaryAddress = addressLines.join(', ').trim();
+  }
+
+  return result;
+}
+
+/**
+ * Read the street address from the "Property Location" card ("Address: OWEN RD 467")
+ */
+export function parseLocationAddress(text: string): string {
+  const match = text.match(/Address:\s*([A-Z0-9 \t]+)/);
+  return match ? match[1].trim() : '';
+}
+
+/**
+ * Read the classification from the General Information card, e.g. "00 - Residential"
+ */
+export function parseClassification(text: string): string {
+  const match = text.match(/(\d{2}\s*-\s*[A-Za-z]+)/);
+  return match ? match[1].trim() : '';
+}
+
+/**
+ * Check whether a table's (lower-cased) headers mark it as the sales table
+ */
+export function isSalesTable(headers: string[]): boolean {
+  return SALES_TABLE_HEADERS.every(header => headers.includes(header));
+}
+
+/**
+ * Convert sales table rows to sale records
+ *
+ * Table structure:
+ * Sale Date | Price | Book | Page | Vacant/Improved | Type Instrument | Qualification
+ */
+export function parseSalesRows(rows: string[][]): SaleRecord[] {
+  const sales: SaleRecord[] = [];
+
+  for (const cells of rows) {
+    if (cells.length < 7) continue;
+
+    const sale: SaleRecord = {
+      sale_date: cells[0].trim(),
+      sale_price: cells[1].trim(),
+      book_page: `${cells[2].trim()}-${cells[3].trim()}`,
+      vacant_improved: cells[4].trim(),
+      grantor: '', // Not in this table - filled in by assignSaleParties
+      grantee: '',
+      deed_instrument: cells[5].trim(),
+      qualified_sale: cells[6].trim(),
+    };
+
+    // Only add if we have meaningful data
+    if (sale.sale_date || sale.sale_price) {
+      sales.push(sale);
+    }
+  }
+
+  return sales;
+}
+
+/**
+ * Sortable YYYYMMDD key for a sales table date ("1/6/2025"), or '' if unrecognized
+ */
+function saleDateKey(date: string): string {
+  const match = date.trim().match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  return match ? `${match[3]}${match[1].padStart(2, '0')}${match[2].padStart(2, '0')}` : '';
+}
+
+/**
+ * Fill in seller (grantor) and buyer (grantee) names on a parcel's sales
+ *
+ * TPAD doesn't list the parties on the sales table, so they are inferred from
+ * the owner card and the chain of sales:
+ * - the newest sale's buyer is the current owner
+ * - its seller is the January 1 owner, when that differs from the current owner
+ *   and the newest sale is the only one since January 1 of the assessment year
+ *   (with two or more, the January 1 owner sold to someone in between)
+ * - each older sale's buyer is the seller of the sale after it
+ * Anything that can't be inferred is left blank.
+ */
+export function assignSaleParties(
+  sales: SaleRecord[],
+  owner: OwnerCardData | null,
+  assessmentYear: number = new Date().getFullYear()
+): SaleRecord[] {
+  if (!owner || sales.length === 0) {
+    return sales;
+  }
+
+  const currentOwner = owner.currentOwner || owner.januaryOwner;
+  const januaryOwner = owner.januaryOwner;
+  const newestFirst = [...sales].sort((a, b) => saleDateKey(b.sale_date).localeCompare(saleDateKey(a.sale_date)));
+  const salesSinceJanuary = sales.filter(sale => saleDateKey(sale.sale_date) >= `${assessmentYear}0101`).length;
+
+  let buyer = currentOwner;
+  let seller = januaryOwner && januaryOwner !== currentOwner && salesSinceJanuary === 1 ? januaryOwner : '';
+
+  for (const sale of newestFirst) {
+    if (!buyer) break;
+
+    sale.grantee = buyer;
+    sale.grantor = seller;
+
+    buyer = seller;
+    seller = '';
+  }
+
+  return sales;
+}
+
+/**
+ * Card text the characteristics are read from
+ */
+export interface CharacteristicsSource {
+  /** General Information card (subdivision, lot, acreage) */
+  generalInfo: string;
+  /** Value Information card (appraisal and assessment) */
+  values: string;
+  /** Striped tables on the page; the building table supplies structure details */
+  tables: ParsedTable[];
+}
+
+/**
+ * Labels TPAD uses for each "Label: value" field, tried in order
+ */
+const CHARACTERISTIC_LABELS: Record<string, RegExp> = {
+  subdivision: /^subdivision$/,
+  lot: /^lot$/,
+  acreage: /^(deeded |calculated )?(acres|acreage)$/,
+  land_value: /^land( market)? value$/,
+  improvement_value: /^improvement( market)? value$/,
+  appraised_value: /^total( market)? (appraisal|appraised value|value)$/,
+  assessed_value: /^(total )?(assessment|assessed value)$/,
+};
+
+/**
+ * Building table headers for each structure field
+ */
+const BUILDING_COLUMNS: Record<string, RegExp> = {
+  building_type: /^(building )?type$/,
+  year_built: /^year built$/,
+  finished_sqft: /^(finished )?(square footage|sq\.? ?ft\.?|area)$/,
+};
+
+/**
+ * Read "Label: value" lines into a map keyed by lower-cased label
+ */
+export function parseLabeledValues(text: string): Map<string, string> {
+  const values = new Map<string, string>();
+
+  for (const line of splitLines(text)) {
+    // Several short fields can share a line: "Map: 067 Group: Parcel: 053.08"
+    for (const [, label, value] of line.matchAll(/([A-Za-z][A-Za-z ./]*?):\s*(.*?)(?=\s*\b[A-Z][A-Za-z ./]*:|$)/g)) {
+      const key = label.trim().toLowerCase();
+      if (!values.has(key)) {
+        values.set(key, value.trim());
+      }
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse acreage, values and building details from the parcel page
+ */
+export function parseCharacteristics(source: CharacteristicsSource): PropertyCharacteristics {
+  const labeled = parseLabeledValues(`${source.generalInfo}\n${source.values}`);
+
+  const findLabeled = (field: string) => {
+    for (const [label, value] of labeled) {
+      if (CHARACTERISTIC_LABELS[field].test(label)) {
+        return value;
+      }
+    }
+    return '';
+  };
+
+  // The first building row is the primary structure
+  const buildingTable = source.tables.find(table =>
+    !isSalesTable(table.headers) && table.headers.some(h => BUILDING_COLUMNS.year_built.test(h))
+  );
+  const findBuilding = (field: string) => {
+    const column = buildingTable?.headers.findIndex(h => BUILDING_COLUMNS[field].test(h)) ?? -1;
+    return column >= 0 ? buildingTable?.rows[0]?.[column]?.trim() || '' : '';
+  };
+
+  return {
+    acreage: findLabeled('acreage'),
+    land_value: findLabeled('land_value'),
+    improvement_value: findLabeled('improvement_value'),
+    appraised_value: findLabeled('appraised_value'),
+    assessed_value: findLabeled('assessed_value'),
+    year_built: findBuilding('year_built'),
+    finished_sqft: findBuilding('finished_sqft'),
+    building_type: findBuilding('building_type'),
+    subdivision: findLabeled('subdivision'),
+    lot: findLabeled('lot'),
+  };
+}
+
+function splitLines(text: string): string[] {
+  return text.split('\n').map(l => l.trim()).filter(Boolean);
+}
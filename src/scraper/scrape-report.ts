@@ -0,0 +1,261 @@
+/**
+ * Per-run scrape telemetry: phase timings and what happened to every parcel
+ *
+ * Written to scrape_report_YYYY_MM_DD.json next to the other outputs, so degraded
+ * parcels (and why) can be seen without re-running at debug log level. Failed
+ * detail pages leave a screenshot and their HTML in scrape_failures_YYYY_MM_DD/.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Page } from 'playwright';
+import { logger } from '../utils/logger.js';
+import { ensureOutputDir, generateFilename } from '../output/csv-writer.js';
+import { takeScreenshot, savePageHtml } from './browser.js';
+import type { DateRange, ScraperBackend } from '../types/index.js';
+
+/**
+ * What became of a parcel
+ * - ok: read from its detail page
+ * - fallback: the search row was used instead (detail page failed or had no sales)
+ * - failed: no record could be produced
+ */
+export type ParcelStatus = 'ok' | 'fallback' | 'failed';
+
+/**
+ * Rough cause of a failure, for grouping in the report
+ */
+export type ErrorCategory = 'timeout' | 'network' | 'http' | 'browser' | 'parse' | 'unknown';
+
+/**
+ * Files saved for a failed parcel, relative to the output directory
+ */
+export interface FailureArtifacts {
+  screenshot?: string;
+  html?: string;
+}
+
+/**
+ * One parcel in the report
+ */
+export interface ParcelReport {
+  key: string;
+  county: string;
+  parcelId: string;
+  url: string;
+  backend: ScraperBackend;
+  status: ParcelStatus;
+  /** Details came from the parcel cache rather than TPAD */
+  cached: boolean;
+  /** Attempts after the first */
+  retries: number;
+  durationMs: number;
+  errorCategory: ErrorCategory | null;
+  error: string | null;
+  artifacts: FailureArtifacts;
+}
+
+/**
+ * How long one phase of the run took
+ */
+export interface PhaseTiming {
+  phase: string;
+  backend?: ScraperBackend;
+  county?: string;
+  startedAt: string;
+  durationMs: number;
+}
+
+/**
+ * The report as written to disk
+ */
+export interface ScrapeReport {
+  dateRange: string;
+  startedAt: string;
+  finishedAt: string;
+  phases: PhaseTiming[];
+  summary: {
+    parcels: number;
+    ok: number;
+    fallback: number;
+    failed: number;
+    cached: number;
+    retries: number;
+    errorCategories: Partial<Record<ErrorCategory, number>>;
+  };
+  parcels: ParcelReport[];
+}
+
+/**
+ * Collects telemetry during a run
+ */
+export interface ScrapeRecorder {
+  readonly dateRange: DateRange;
+  /** Time an async phase and record it, whether or not it succeeds */
+  time<T>(phase: Omit<PhaseTiming, 'startedAt' | 'durationMs'>, fn: () => Promise<T>): Promise<T>;
+  /** Add (or replace) a parcel's entry */
+  recordParcel(entry: ParcelReport): void;
+  /** Change the status of a parcel already recorded */
+  setParcelStatus(key: string, status: ParcelStatus, error?: string): void;
+  getReport(): ScrapeReport;
+}
+
+/**
+ * Sort an error into a category by its message
+ */
+export function categorizeError(error: Error): ErrorCategory {
+  const message = error.message.toLowerCase();
+
+  if (message.includes('timeout') || message.includes('timed out')) {
+    return 'timeout';
+  }
+  if (/\bhttp [45]\d\d\b/.test(message)) {
+    return 'http';
+  }
+  if (['econnreset', 'econnrefused', 'etimedout', 'enotfound', 'socket hang up', 'fetch failed', 'net::']
+    .some(m => message.includes(m))) {
+    return 'network';
+  }
+  if (['target closed', 'page closed', 'browser has been closed', 'context closed']
+    .some(m => message.includes(m))) {
+    return 'browser';
+  }
+  if (message.includes('no details') || message.includes('no owner') || message.includes('parse')) {
+    return 'parse';
+  }
+  return 'unknown';
+}
+
+/**
+ * Create a recorder for one run
+ */
+export function createScrapeRecorder(dateRange: DateRange): ScrapeRecorder {
+  const startedAt = new Date().toISOString();
+  const phases: PhaseTiming[] = [];
+  const parcels = new Map<string, ParcelReport>();
+
+  return {
+    dateRange,
+
+    async time<T>(phase: Omit<PhaseTiming, 'startedAt' | 'durationMs'>, fn: () => Promise<T>): Promise<T> {
+      const start = Date.now();
+      try {
+        return await fn();
+      } finally {
+        phases.push({ ...phase, startedAt: new Date(start).toISOString(), durationMs: Date.now() - start });
+      }
+    },
+
+    recordParcel(entry: ParcelReport): void {
+      parcels.set(entry.key, entry);
+    },
+
+    setParcelStatus(key: string, status: ParcelStatus, error?: string): void {
+      const entry = parcels.get(key);
+      if (entry) {
+        entry.status = status;
+        entry.error ??= error ?? null;
+      }
+    },
+
+    getReport(): ScrapeReport {
+      const entries = [...parcels.values()];
+      const errorCategories: Partial<Record<ErrorCategory, number>> = {};
+      for (const entry of entries) {
+        if (entry.errorCategory) {
+          errorCategories[entry.errorCategory] = (errorCategories[entry.errorCategory] ?? 0) + 1;
+        }
+      }
+
+      return {
+        dateRange: dateRange.label,
+        startedAt,
+        finishedAt: new Date().toISOString(),
+        phases: [...phases],
+        summary: {
+          parcels: entries.length,
+          ok: entries.filter(e => e.status === 'ok').length,
+          fallback: entries.filter(e => e.status === 'fallback').length,
+          failed: entries.filter(e => e.status === 'failed').length,
+          cached: entries.filter(e => e.cached).length,
+          retries: entries.reduce((sum, e) => sum + e.retries, 0),
+          errorCategories,
+        },
+        parcels: entries,
+      };
+    },
+  };
+}
+
+/**
+ * Directory failure artifacts for a run are saved in
+ */
+export function getArtifactDir(outDir: string, dateRange: DateRange): string {
+  return path.join(outDir, generateFilename('scrape_failures', dateRange.label, 'json').replace(/\.json$/, ''));
+}
+
+/**
+ * Artifact file name for a parcel key, e.g. "084_067_05308_000"
+ * (the key includes the county, as parcel IDs can repeat across counties)
+ */
+function getArtifactName(parcelKey: string): string {
+  return parcelKey.replace(/[^\w-]+/g, '_');
+}
+
+/**
+ * Save a screenshot and the HTML of a page that failed to parse
+ * Returns the saved paths relative to the output directory
+ */
+export async function captureFailureArtifacts(
+  page: Page,
+  outDir: string,
+  dateRange: DateRange,
+  parcelKey: string
+): Promise<FailureArtifacts> {
+  if (page.isClosed()) {
+    return {};
+  }
+
+  const dir = getArtifactDir(outDir, dateRange);
+  ensureOutputDir(dir);
+
+  // One file name per parcel, so each failed attempt replaces the previous one's files
+  const name = getArtifactName(parcelKey);
+  const screenshot = await takeScreenshot(page, path.join(dir, `${name}.png`));
+  const html = await savePageHtml(page, path.join(dir, `${name}.html`));
+
+  return {
+    screenshot: screenshot ? path.relative(outDir, screenshot) : undefined,
+    html: html ? path.relative(outDir, html) : undefined,
+  };
+}
+
+/**
+ * Delete artifacts saved by a failed attempt once a retry has succeeded
+ */
+export function removeFailureArtifacts(outDir: string, artifacts: FailureArtifacts): void {
+  for (const file of [artifacts.screenshot, artifacts.html]) {
+    if (file) {
+      fs.rmSync(path.join(outDir, file), { force: true });
+    }
+  }
+}
+
+/**
+ * Write the report for a run
+ */
+export function writeScrapeReport(outDir: string, recorder: ScrapeRecorder): string {
+  ensureOutputDir(outDir);
+
+  const report = recorder.getReport();
+  const filePath = path.join(outDir, generateFilename('scrape_report', recorder.dateRange.label, 'json'));
+
+  fs.writeFileSync(filePath, JSON.stringify(report, null, 2), 'utf-8');
+
+  logger.info('Scrape report written', {
+    path: filePath,
+    ...report.summary,
+  });
+
+  return filePath;
+}
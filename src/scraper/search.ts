@@ -3,16 +3,25 @@
  */
 
 import type { Page } from 'playwright';
-import { SELECTORS, TPAD_BASE_URL, CLASSIFICATION_OPTIONS, getCountyName } from '../config/selectors.js';
+import {
+  SELECTORS,
+  TPAD_BASE_URL,
+  CLASSIFICATION_OPTIONS,
+  CLASSIFICATION_CODES,
+  MIN_RESULT_COLUMNS,
+  findClassificationOption,
+  getCountyName,
+  resolveTpadUrl,
+} from '../config/selectors.js';
 import { logger } from '../utils/logger.js';
 import { formatDateForTpad } from '../utils/date-range.js';
 import { waitForStable } from './browser.js';
-import type { DateRange, SearchParams, RawParcelRecord } from '../types/index.js';
+import type { DateRange, SearchParams, RawParcelRecord, County } from '../types/index.js';
 
 /**
  * Result row data from search results table
  */
-interface SearchResultRow {
+export interface SearchResultRow {
   viewUrl: string;
   owner: string;
   propertyAddress: string;
@@ -31,10 +40,10 @@ interface SearchResultRow {
 /**
  * Navigate to TPAD search page
  */
-export async function navigateToSearch(page: Page): Promise<void> {
-  logger.info('Navigating to TPAD search page', { url: TPAD_BASE_URL });
+export async function navigateToSearch(page: Page, baseUrl: string = TPAD_BASE_URL): Promise<void> {
+  logger.info('Navigating to TPAD search page', { url: baseUrl });
   
-  await page.goto(TPAD_BASE_URL, { 
+  await page.goto(baseUrl, { 
     waitUntil: 'networkidle',
     timeout: 60000,
   });
@@ -80,23 +89,21 @@ export async function executeSearch(
   await page.waitForTimeout(500);
 
   // Select county
-  await page.selectOption('#countySelect', { label: countyName });
+  await page.selectOption(SELECTORS.search.countyDropdown, { label: countyName });
   await page.waitForTimeout(300);
 
-  // Select classification (Residential = "00 - Residential")
-  const classLabel = params.classification === '00' 
-    ? CLASSIFICATION_OPTIONS.RESIDENTIAL 
-    : params.classification;
-  await page.selectOption('#classSelect', { label: classLabel });
+  // Select classification (Residential = "00 - Residential"), or all of them
+  const classLabel = await getClassificationLabel(page, params.classification);
+  await page.selectOption(SELECTORS.search.classificationDropdown, { label: classLabel });
   await page.waitForTimeout(300);
 
   // Fill date range (YYYY-MM-DD format for HTML5 date inputs)
-  await page.fill('#saleDateRangeStartSelect', params.saleDateStart);
-  await page.fill('#saleDateRangeEndSelect', params.saleDateEnd);
+  await page.fill(SELECTORS.search.saleDateStart, params.saleDateStart);
+  await page.fill(SELECTORS.search.saleDateEnd, params.saleDateEnd);
   await page.waitForTimeout(300);
 
   // Click search button (the one in advanced search, not basic search)
-  const searchButtons = await page.$$('button.searchButton');
+  const searchButtons = await page.$$(SELECTORS.search.searchButton);
   if (searchButtons.length > 1) {
     // Second button is the advanced search button
     await searchButtons[1].click();
@@ -110,7 +117,7 @@ export async function executeSearch(
   
   // Wait for the DataTables to finish loading
   try {
-    await page.waitForSelector('#searchResultsTable tbody tr', { timeout: 10000 });
+    await page.waitForSelector(SELECTORS.resultsTable.rows, { timeout: 10000 });
     // Wait a bit more for DataTables to fully render
     await page.waitForTimeout(1000);
   } catch {
@@ -120,16 +127,103 @@ export async function executeSearch(
   logger.debug('Search executed, results loaded');
 }
 
+/**
+ * Get the option labels of a <select>
+ */
+export async function getOptionLabels(page: Page, selector: string): Promise<string[]> {
+  try {
+    return await page.$$eval(`${selector} option`, (options) =>
+      options.map(o => o.textContent?.trim() || '')
+    );
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Find the classification dropdown label for a code (null means all classifications)
+ */
+async function getClassificationLabel(page: Page, classification: string | null): Promise<string> {
+  if (classification === null) {
+    return CLASSIFICATION_OPTIONS.ALL;
+  }
+
+  const labels = await getOptionLabels(page, SELECTORS.search.classificationDropdown);
+  const label = findClassificationOption(labels, classification);
+  if (!label) {
+    throw new Error(`No classification option for code ${classification} (options: ${labels.join(', ')})`);
+  }
+  return label;
+}
+
+/**
+ * Field the basic search can look parcels up by
+ */
+export type BasicSearchField = 'owner' | 'address' | 'parcel';
+
+/**
+ * Basic search input for each field
+ */
+const BASIC_SEARCH_INPUTS: Record<BasicSearchField, string> = {
+  owner: SELECTORS.search.ownerInput,
+  address: SELECTORS.search.propertyAddressInput,
+  parcel: SELECTORS.search.parcelIdInput,
+};
+
+/**
+ * Run a basic (owner name, property address or parcel ID) search in one county
+ */
+export async function executeBasicSearch(
+  page: Page,
+  countyName: string,
+  field: BasicSearchField,
+  value: string
+): Promise<void> {
+  logger.info('Executing basic search', { county: countyName, field, value });
+
+  await page.selectOption(SELECTORS.search.countyDropdown, { label: countyName });
+  await page.waitForTimeout(300);
+
+  for (const [inputField, input] of Object.entries(BASIC_SEARCH_INPUTS)) {
+    await page.fill(input, inputField === field ? value : '');
+  }
+  await page.waitForTimeout(300);
+
+  await page.click(SELECTORS.search.basicSearchButton);
+
+  // Same DataTables grid as the advanced search
+  await page.waitForTimeout(3000);
+  await page.waitForLoadState('networkidle');
+
+  try {
+    await page.waitForSelector(SELECTORS.resultsTable.rows, { timeout: 10000 });
+    await page.waitForTimeout(1000);
+  } catch {
+    logger.debug('No results table rows appeared after search');
+  }
+}
+
+/**
+ * Put a typed street address in TPAD's order: "467 Owen Rd" -> "OWEN RD 467"
+ */
+export function formatAddressQuery(address: string): string {
+  const normalized = address.replace(/,.*$/, '').replace(/\s+/g, ' ').trim().toUpperCase();
+  const match = normalized.match(/^(\d+[A-Z]?)\s+(.+)$/);
+  return match ? `${match[2]} ${match[1]}` : normalized;
+}
+
 /**
  * Create search parameters from config and date range
  */
 export function createSearchParams(
   countyCode: string,
-  dateRange: DateRange
+  dateRange: DateRange,
+  classificationCodes: string[] = [CLASSIFICATION_CODES.RESIDENTIAL]
 ): SearchParams {
   return {
     countyCode,
-    classification: '00', // Residential
+    // Several classifications are searched together and narrowed down afterwards
+    classification: classificationCodes.length === 1 ? classificationCodes[0] : null,
     saleDateStart: formatDateForTpad(dateRange.start),
     saleDateEnd: formatDateForTpad(dateRange.end),
   };
@@ -142,18 +236,18 @@ export async function hasResults(page: Page): Promise<boolean> {
   await page.waitForTimeout(1000);
 
   // Check for results table
-  const table = await page.$('#searchResultsTable');
+  const table = await page.$(SELECTORS.resultsTable.table);
   if (!table) {
     return false;
   }
 
   // Check for data rows - but filter out "no results" rows
-  const rows = await page.$$('#searchResultsTable tbody tr');
+  const rows = await page.$$(SELECTORS.resultsTable.rows);
   
   for (const row of rows) {
     const cells = await row.$$('td');
     // Real data rows have 12+ cells, "no results" rows have 1 cell
-    if (cells.length >= 12) {
+    if (cells.length >= MIN_RESULT_COLUMNS) {
       return true;
     }
     
@@ -175,7 +269,7 @@ export async function hasResults(page: Page): Promise<boolean> {
 export async function getResultCount(page: Page): Promise<number | null> {
   // Try to get count from DataTables info
   try {
-    const infoEl = await page.$('.dataTables_info');
+    const infoEl = await page.$(SELECTORS.resultsTable.info);
     if (infoEl) {
       const text = await infoEl.textContent();
       // Format: "Showing 1 to 10 of 70 entries"
@@ -188,7 +282,7 @@ export async function getResultCount(page: Page): Promise<number | null> {
     // Fallback to counting visible rows
   }
   
-  const rows = await page.$$('#searchResultsTable tbody tr');
+  const rows = await page.$$(SELECTORS.resultsTable.rows);
   logger.debug(`getResultCount: Found ${rows.length} visible rows`);
   return rows.length > 0 ? rows.length : null;
 }
@@ -201,19 +295,19 @@ export async function extractResultsFromPage(page: Page): Promise<SearchResultRo
 
   // Wait for table to be visible
   try {
-    await page.waitForSelector('#searchResultsTable tbody tr', { timeout: 5000 });
+    await page.waitForSelector(SELECTORS.resultsTable.rows, { timeout: 5000 });
   } catch {
     logger.debug('No results table rows found');
     return results;
   }
 
-  const rows = await page.$$('#searchResultsTable tbody tr');
+  const rows = await page.$$(SELECTORS.resultsTable.rows);
   logger.debug(`Found ${rows.length} result rows`);
 
   for (const row of rows) {
     try {
       const cells = await row.$$('td');
-      if (cells.length < 12) {
+      if (cells.length < MIN_RESULT_COLUMNS) {
         logger.debug(`Skipping row with only ${cells.length} cells`);
         continue;
       }
@@ -262,46 +356,63 @@ export async function extractResultsFromPage(page: Page): Promise<SearchResultRo
 /**
  * Convert search result row to raw parcel record
  */
-export function searchResultToRawRecord(row: SearchResultRow, countyCode: string): RawParcelRecord {
-  // Parse the address - format is typically "STREET NAME  NUMBER"
-  let address = row.propertyAddress;
-  // Normalize multiple spaces and swap if needed
-  address = address.replace(/\s+/g, ' ').trim();
-  
-  // Try to extract city from subdivision or default to county seat
-  const city = 'COVINGTON'; // Default for Tipton County
+export function searchResultToRawRecord(
+  row: SearchResultRow,
+  county: County,
+  baseUrl: string = TPAD_BASE_URL
+): RawParcelRecord {
+  // TPAD's format is typically "STREET NAME  NUMBER"; transformRecord puts the number first
+  const address = row.propertyAddress.replace(/\s+/g, ' ').trim();
 
   return {
     parcel_id: row.parcelId,
+    county: county.name,
     owner_name: row.owner,
+    owner_mailing_address: '', // Filled from parcel details
     property_address: address,
-    city,
+    city: '', // Filled from parcel details, or estimated by the gazetteer
     zip: '',
+    location_confidence: 'none',
     classification: row.classification,
     land_use: row.classification,
-    acreage: '',
+    acreage: '', // Filled from parcel details, as are the values and building fields
+    land_value: '',
+    improvement_value: '',
+    appraised_value: '',
     assessed_value: '',
+    year_built: '',
+    finished_sqft: '',
+    building_type: '',
+    subdivision: row.subdivision,
+    lot: row.lot,
     sale_date: row.saleDate,
     sale_price: '', // Will be filled from parcel details
     deed_instrument: '', // Will be filled from parcel details
+    seller_name: '', // Will be filled from parcel details
+    buyer_name: '',
     qualified_sale: '',
-    source_url: row.viewUrl ? `${TPAD_BASE_URL}${row.viewUrl.replace('./', '/')}` : '',
+    book_page: '',
+    vacant_improved: '',
+    prior_sale_date: '',
+    prior_sale_price: '',
+    prior_deed_instrument: '',
+    source_url: row.viewUrl ? resolveTpadUrl(row.viewUrl, baseUrl) : '',
   };
 }
 
 /**
  * Extract parcel URLs from current page
  */
-export async function extractParcelUrls(page: Page): Promise<Map<string, string>> {
+export async function extractParcelUrls(
+  page: Page,
+  baseUrl: string = TPAD_BASE_URL
+): Promise<Map<string, string>> {
   const parcelUrls = new Map<string, string>();
   const results = await extractResultsFromPage(page);
 
   for (const result of results) {
     if (result.parcelId && result.viewUrl) {
-      const fullUrl = result.viewUrl.startsWith('http') 
-        ? result.viewUrl 
-        : `${TPAD_BASE_URL}${result.viewUrl.replace('./', '/')}`;
-      parcelUrls.set(result.parcelId, fullUrl);
+      parcelUrls.set(result.parcelId, resolveTpadUrl(result.viewUrl, baseUrl));
     }
   }
 
@@ -313,7 +424,7 @@ export async function extractParcelUrls(page: Page): Promise<Map<string, string>
  * DataTables uses .paginate_button.next and adds .disabled when on last page
  */
 export async function hasNextPage(page: Page): Promise<boolean> {
-  const nextButton = await page.$('.paginate_button.next');
+  const nextButton = await page.$(SELECTORS.resultsTable.nextButton);
   if (!nextButton) {
     return false;
   }
@@ -337,7 +448,7 @@ export async function goToNextPage(page: Page): Promise<boolean> {
     return false;
   }
   
-  const nextButton = await page.$('.paginate_button.next:not(.disabled)');
+  const nextButton = await page.$(SELECTORS.resultsTable.enabledNextButton);
   if (!nextButton) {
     return false;
   }
@@ -357,7 +468,7 @@ export async function goToNextPage(page: Page): Promise<boolean> {
  * Get current page number
  */
 export async function getCurrentPageNumber(page: Page): Promise<number> {
-  const currentPage = await page.$('.paginate_button.current');
+  const currentPage = await page.$(SELECTORS.resultsTable.currentPage);
   if (currentPage) {
     const text = await currentPage.textContent();
     if (text) {
@@ -0,0 +1,397 @@
+/**
+ * TPAD site health check - verifies the page structure the scraper depends on
+ *
+ * Loads the search page, runs a search and opens one parcel, checking every
+ * selector the scraper reads. Meant to run daily so markup changes are caught
+ * before the weekly report comes back empty.
+ */
+
+import type { Page } from 'playwright';
+import {
+  SELECTORS,
+  findClassificationOption,
+  MIN_RESULT_COLUMNS,
+  SALES_TABLE_HEADERS,
+  resolveTpadUrl,
+} from '../config/selectors.js';
+import { navigateToSearch, openAdvancedSearch, executeSearch, createSearchParams, getOptionLabels } from './search.js';
+import { waitForStable } from './browser.js';
+import { logger } from '../utils/logger.js';
+import type { ExtractorConfig, DateRange } from '../types/index.js';
+
+/**
+ * Which page a check runs against
+ */
+export type SiteCheckStage = 'search' | 'results' | 'parcel';
+
+/**
+ * Result of a single structural check
+ */
+export interface SiteCheck {
+  stage: SiteCheckStage;
+  name: string;
+  selector: string;
+  expected: string;
+  actual: string;
+  passed: boolean;
+}
+
+/**
+ * Full health check report
+ */
+export interface SiteCheckReport {
+  checkedAt: string;
+  baseUrl: string;
+  parcelUrl: string | null;
+  passed: boolean;
+  checks: SiteCheck[];
+}
+
+/**
+ * Structured diff of what is missing or changed, for alerting
+ */
+export interface SiteCheckDiff {
+  passed: boolean;
+  failed: number;
+  total: number;
+  missing: {
+    stage: SiteCheckStage;
+    name: string;
+    selector: string;
+    expected: string;
+    actual: string;
+  }[];
+}
+
+/**
+ * Options for a health check run
+ */
+export interface SiteCheckOptions {
+  /** Date range for the test search */
+  dateRange: DateRange;
+  /** Known parcel detail URL; defaults to the first search result */
+  parcelUrl?: string;
+}
+
+/**
+ * Record a check result
+ */
+function addCheck(
+  checks: SiteCheck[],
+  stage: SiteCheckStage,
+  name: string,
+  selector: string,
+  expected: string,
+  actual: string,
+  passed: boolean
+): void {
+  checks.push({ stage, name, selector, expected, actual, passed });
+}
+
+/**
+ * Check that a selector matches at least one element
+ */
+async function checkPresent(
+  page: Page,
+  checks: SiteCheck[],
+  stage: SiteCheckStage,
+  name: string,
+  selector: string
+): Promise<boolean> {
+  const count = await countMatches(page, selector);
+  addCheck(checks, stage, name, selector, 'present', count > 0 ? `${count} found` : 'missing', count > 0);
+  return count > 0;
+}
+
+/**
+ * Record a check that could not run because an earlier step failed
+ */
+function addSkipped(
+  checks: SiteCheck[],
+  stage: SiteCheckStage,
+  name: string,
+  selector: string,
+  expected: string,
+  reason: string
+): void {
+  addCheck(checks, stage, name, selector, expected, `not checked: ${reason}`, false);
+}
+
+/**
+ * Count elements matching a selector, treating selector errors as zero matches
+ */
+async function countMatches(page: Page, selector: string): Promise<number> {
+  try {
+    return (await page.$$(selector)).length;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Check the search form
+ */
+async function checkSearchPage(
+  page: Page,
+  checks: SiteCheck[],
+  countyName: string,
+  config: ExtractorConfig
+): Promise<void> {
+  const { search } = SELECTORS;
+
+  if (await checkPresent(page, checks, 'search', 'County dropdown', search.countyDropdown)) {
+    const counties = await getOptionLabels(page, search.countyDropdown);
+    addCheck(
+      checks,
+      'search',
+      'County option',
+      `${search.countyDropdown} option`,
+      countyName,
+      counties.includes(countyName) ? countyName : `not among ${counties.length} options`,
+      counties.includes(countyName)
+    );
+  }
+
+  await checkPresent(page, checks, 'search', 'Advanced search toggle', search.advancedSearchToggle);
+  await openAdvancedSearch(page);
+
+  if (await checkPresent(page, checks, 'search', 'Classification dropdown', search.classificationDropdown)) {
+    const classes = await getOptionLabels(page, search.classificationDropdown);
+    for (const policy of config.classifications) {
+      const option = findClassificationOption(classes, policy.code);
+      addCheck(
+        checks,
+        'search',
+        `${policy.name} classification option`,
+        `${search.classificationDropdown} option`,
+        `${policy.code} - ...`,
+        option ?? `not among ${classes.length} options`,
+        option !== null
+      );
+    }
+  }
+
+  await checkPresent(page, checks, 'search', 'Sale date start input', search.saleDateStart);
+  await checkPresent(page, checks, 'search', 'Sale date end input', search.saleDateEnd);
+  await checkPresent(page, checks, 'search', 'Search button', search.searchButton);
+}
+
+/**
+ * Check the DataTables results grid; returns the first parcel link found, if any
+ */
+async function checkResults(page: Page, checks: SiteCheck[]): Promise<string | null> {
+  const { resultsTable } = SELECTORS;
+
+  if (!await checkPresent(page, checks, 'results', 'Results table', resultsTable.table)) {
+    addSkipped(checks, 'results', 'Results table columns', resultsTable.headers, `>= ${MIN_RESULT_COLUMNS} columns`, 'no results table');
+    return null;
+  }
+
+  const headerCount = await countMatches(page, resultsTable.headers);
+  addCheck(
+    checks,
+    'results',
+    'Results table columns',
+    resultsTable.headers,
+    `>= ${MIN_RESULT_COLUMNS} columns`,
+    `${headerCount} columns`,
+    headerCount >= MIN_RESULT_COLUMNS
+  );
+
+  // Data rows (if the week had any sales) must have the full set of cells
+  const rowCells = await page.$$eval(resultsTable.rows, (rows) =>
+    rows.map(row => ({
+      cells: row.querySelectorAll('td').length,
+      link: row.querySelector('td a')?.getAttribute('href') || '',
+    }))
+  ).catch(() => [] as { cells: number; link: string }[]);
+
+  const dataRows = rowCells.filter(r => r.cells > 1);
+  if (dataRows.length > 0) {
+    const shortRows = dataRows.filter(r => r.cells < MIN_RESULT_COLUMNS).length;
+    addCheck(
+      checks,
+      'results',
+      'Result row cells',
+      `${resultsTable.rows} td`,
+      `>= ${MIN_RESULT_COLUMNS} cells per row`,
+      shortRows === 0 ? `${dataRows.length} rows ok` : `${shortRows} of ${dataRows.length} rows short`,
+      shortRows === 0
+    );
+  }
+
+  await checkPresent(page, checks, 'results', 'Result count info', resultsTable.info);
+  await checkPresent(page, checks, 'results', 'Pagination next button', resultsTable.nextButton);
+
+  return dataRows.find(r => r.link)?.link || null;
+}
+
+/**
+ * Check a parcel details page
+ */
+async function checkParcelPage(page: Page, checks: SiteCheck[]): Promise<void> {
+  const { parcelDetails } = SELECTORS;
+
+  if (await checkPresent(page, checks, 'parcel', 'Property Owner card', parcelDetails.ownerCard)) {
+    const ownerText = await page.$eval(parcelDetails.ownerCard, el => el.textContent || '').catch(() => '');
+    const hasCurrentOwner = /Current Owner/i.test(ownerText);
+    addCheck(
+      checks,
+      'parcel',
+      'Current Owner section',
+      parcelDetails.ownerCard,
+      'contains "Current Owner"',
+      hasCurrentOwner ? 'found' : 'missing',
+      hasCurrentOwner
+    );
+  }
+
+  await checkPresent(page, checks, 'parcel', 'General Information card', parcelDetails.generalInfoCard);
+
+  const tableHeaders: string[][] = [];
+  for (const table of await page.$$(parcelDetails.dataTables)) {
+    tableHeaders.push(await table.$$eval('th', (ths) =>
+      ths.map(th => th.textContent?.trim().toLowerCase() || '')
+    ));
+  }
+
+  const salesTable = tableHeaders.find(headers =>
+    SALES_TABLE_HEADERS.every(header => headers.includes(header))
+  );
+
+  addCheck(
+    checks,
+    'parcel',
+    'Sales table headers',
+    `${parcelDetails.dataTables} th`,
+    SALES_TABLE_HEADERS.map(h => `"${h}"`).join(', '),
+    salesTable
+      ? salesTable.join(', ')
+      : `${tableHeaders.length} tables, none with sale date/price headers`,
+    Boolean(salesTable)
+  );
+}
+
+/**
+ * Run the full site health check
+ */
+export async function runSiteCheck(
+  page: Page,
+  config: ExtractorConfig,
+  options: SiteCheckOptions
+): Promise<SiteCheckReport> {
+  const checks: SiteCheck[] = [];
+  const county = config.counties[0];
+  let parcelUrl = options.parcelUrl ? resolveTpadUrl(options.parcelUrl, config.tpadBaseUrl) : null;
+
+  // Search page
+  try {
+    await navigateToSearch(page, config.tpadBaseUrl);
+    addCheck(checks, 'search', 'Search page loads', config.tpadBaseUrl, 'loaded', 'loaded', true);
+    await checkSearchPage(page, checks, county.name, config);
+  } catch (error) {
+    addCheck(checks, 'search', 'Search page loads', config.tpadBaseUrl, 'loaded', (error as Error).message, false);
+  }
+
+  // Results grid
+  let searchError: string | null = null;
+  try {
+    await executeSearch(page, createSearchParams(
+      county.code,
+      options.dateRange,
+      config.classifications.map(c => c.code)
+    ));
+  } catch (error) {
+    searchError = (error as Error).message;
+  }
+
+  if (searchError) {
+    addCheck(checks, 'results', 'Search executes', SELECTORS.search.searchButton, 'results shown', searchError, false);
+  } else {
+    const firstParcelLink = await checkResults(page, checks);
+    if (!parcelUrl && firstParcelLink) {
+      parcelUrl = resolveTpadUrl(firstParcelLink, config.tpadBaseUrl);
+    }
+  }
+
+  // Parcel details page
+  if (!parcelUrl) {
+    addSkipped(
+      checks,
+      'parcel',
+      'Parcel page',
+      SELECTORS.parcelDetails.ownerCard,
+      'parcel page checked',
+      'no parcel URL (pass --parcel or set SITE_CHECK_PARCEL_URL)'
+    );
+  } else {
+    try {
+      await page.goto(parcelUrl, { waitUntil: 'networkidle', timeout: 30000 });
+      await waitForStable(page);
+      await checkParcelPage(page, checks);
+    } catch (error) {
+      addCheck(checks, 'parcel', 'Parcel page loads', parcelUrl, 'loaded', (error as Error).message, false);
+    }
+  }
+
+  const report: SiteCheckReport = {
+    checkedAt: new Date().toISOString(),
+    baseUrl: config.tpadBaseUrl,
+    parcelUrl,
+    passed: checks.every(c => c.passed),
+    checks,
+  };
+
+  logger.info('Site check complete', {
+    passed: report.passed,
+    failed: report.checks.filter(c => !c.passed).length,
+    total: report.checks.length,
+  });
+
+  return report;
+}
+
+/**
+ * Build the structured diff of failed checks
+ */
+export function getSiteCheckDiff(report: SiteCheckReport): SiteCheckDiff {
+  const failed = report.checks.filter(c => !c.passed);
+
+  return {
+    passed: report.passed,
+    failed: failed.length,
+    total: report.checks.length,
+    missing: failed.map(({ stage, name, selector, expected, actual }) => ({
+      stage,
+      name,
+      selector,
+      expected,
+      actual,
+    })),
+  };
+}
+
+/**
+ * Format the report as a plain-text pass/fail table
+ */
+export function formatSiteCheckTable(report: SiteCheckReport): string {
+  const headers = ['Status', 'Stage', 'Check', 'Expected', 'Actual'];
+  const rows = report.checks.map(c => [
+    c.passed ? 'PASS' : 'FAIL',
+    c.stage,
+    c.name,
+    c.expected,
+    c.actual,
+  ]);
+
+  const widths = headers.map((header, i) =>
+    Math.max(header.length, ...rows.map(row => row[i].length))
+  );
+  const formatRow = (row: string[]) => row.map((cell, i) => cell.padEnd(widths[i])).join('  ').trimEnd();
+
+  return [
+    formatRow(headers),
+    widths.map(w => '-'.repeat(w)).join('  '),
+    ...rows.map(formatRow),
+  ].join('\n');
+}
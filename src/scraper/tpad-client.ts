@@ -2,8 +2,9 @@
  * Main TPAD scraper client - orchestrates the extraction process
  */
 
-import type { Page } from 'playwright';
-import { createPage, closeBrowser } from './browser.js';
+import type { Page, Response } from 'playwright';
+import { BrowserManager } from './browser.js';
+import { createPagePool } from './page-pool.js';
 import { 
   navigateToSearch, 
   executeSearch, 
@@ -15,15 +16,42 @@ import {
   hasNextPage,
   goToNextPage,
 } from './search.js';
+import type { SearchResultRow } from './search.js';
 import { 
-  extractParcelDetails, 
+  fetchParcelDetails, 
   parcelDetailsToRawRecord,
+  parcelDetailsToSalesHistory,
   isSaleInDateRange,
+  parseSaleDate,
 } from './parcel-details.js';
 import { logger, logSearchResults, logParcelProgress } from '../utils/logger.js';
-import { withRetry, isNetworkRetryable, sleep, createRateLimiter } from '../utils/retry.js';
-import type { ExtractorConfig, DateRange, RawParcelRecord, ParcelDetails } from '../types/index.js';
-import { TPAD_BASE_URL } from '../config/selectors.js';
+import { withRetry, isNetworkRetryable, sleep, createAdaptiveRateLimiter, batchExecute } from '../utils/retry.js';
+import type { AdaptiveRateLimiter } from '../utils/retry.js';
+import type {
+  ExtractorConfig,
+  DateRange,
+  RawParcelRecord,
+  ParcelDetails,
+  SalesHistoryRecord,
+  County,
+  ScraperBackend,
+} from '../types/index.js';
+import { resolveTpadUrl, parseClassificationCode } from '../config/selectors.js';
+import {
+  createCheckpoint,
+  loadCheckpoint,
+  saveCheckpoint,
+  getParcelKey,
+  getSearchKey,
+  getCountyPagesCompleted,
+  getUnfetchedParcels,
+} from './checkpoint.js';
+import type { ExtractionCheckpoint, SearchProgress, ParcelTarget } from './checkpoint.js';
+import { openParcelCache } from './parcel-cache.js';
+import type { ParcelCache } from './parcel-cache.js';
+import { splitDateRange, formatDateRange } from '../utils/date-range.js';
+import { createScrapeRecorder, categorizeError, captureFailureArtifacts, removeFailureArtifacts } from './scrape-report.js';
+import type { ScrapeRecorder, FailureArtifacts } from './scrape-report.js';
 
 /**
  * Main extraction result
@@ -31,28 +59,68 @@ import { TPAD_BASE_URL } from '../config/selectors.js';
 export interface TpadExtractionResult {
   rawRecords: RawParcelRecord[];
   parcelDetails: ParcelDetails[];
+  /** Every sale on each detail page read, not just those in the date range */
+  salesHistory: SalesHistoryRecord[];
   totalParcels: number;
   totalPages: number;
 }
 
+/**
+ * Options for a single extraction run
+ */
+export interface ExtractOptions {
+  /** Continue from the checkpoint left by an interrupted run */
+  resume?: boolean;
+  /** Ignore the parcel cache and fetch every detail page again */
+  refresh?: boolean;
+  /** Collects phase timings and per-parcel outcomes for the scrape report */
+  recorder?: ScrapeRecorder;
+}
+
+/**
+ * Common interface for the scraper backends
+ */
+export interface TpadScraper {
+  initialize(): Promise<void>;
+  extract(dateRange: DateRange, options?: ExtractOptions): Promise<TpadExtractionResult>;
+  close(): Promise<void>;
+}
+
 /**
  * TPAD Client class
  */
-export class TpadClient {
+export class TpadClient implements TpadScraper {
   private config: ExtractorConfig;
+  private browser: BrowserManager;
   private page: Page | null = null;
-  private rateLimiter: () => Promise<void>;
+  private rateLimiter: AdaptiveRateLimiter;
 
-  constructor(config: ExtractorConfig) {
+  /**
+   * @param browser Browser this client drives; defaults to its own BrowserManager
+   */
+  constructor(config: ExtractorConfig, browser: BrowserManager = new BrowserManager(config)) {
     this.config = config;
-    this.rateLimiter = createRateLimiter(config.requestDelayMs);
+    this.browser = browser;
+    this.rateLimiter = createTpadRateLimiter(config);
+    this.browser.onResponse(response => this.recordResponse(response));
+  }
+
+  /**
+   * Feed page loads and search requests to the rate limiter (images, scripts etc. are ignored)
+   */
+  private recordResponse(response: Response): void {
+    const request = response.request();
+    if (!['document', 'xhr', 'fetch'].includes(request.resourceType())) {
+      return;
+    }
+    this.rateLimiter.recordResponse(response.status(), Math.max(0, request.timing().responseStart));
   }
 
   /**
    * Initialize the browser and page
    */
   async initialize(): Promise<void> {
-    this.page = await createPage(this.config);
+    this.page = await this.browser.newPage();
     logger.info('TPAD client initialized');
   }
 
@@ -60,173 +128,555 @@ export class TpadClient {
    * Close resources
    */
   async close(): Promise<void> {
-    await closeBrowser();
+    await this.browser.close();
     this.page = null;
     logger.info('TPAD client closed');
   }
 
   /**
-   * Run full extraction for a date range
+   * Run full extraction for a date range across all configured counties
    */
-  async extract(dateRange: DateRange): Promise<TpadExtractionResult> {
+  async extract(dateRange: DateRange, options: ExtractOptions = {}): Promise<TpadExtractionResult> {
     if (!this.page) {
       throw new Error('Client not initialized. Call initialize() first.');
     }
 
+    const { counties } = this.config;
+
     logger.info('Starting TPAD extraction', { 
       dateRange: dateRange.label,
-      county: this.config.countyName,
+      counties: counties.map(c => c.name),
+      resume: options.resume ?? false,
     });
 
-    // Step 1: Navigate to search page
-    await withRetry(
-      () => navigateToSearch(this.page!),
-      { maxRetries: 3, isRetryable: isNetworkRetryable },
-      'navigate to search'
-    );
+    const checkpoint = (options.resume && loadCheckpoint(this.config.outDir, this.config, dateRange))
+      || createCheckpoint(this.config, dateRange);
+    const recorder = options.recorder ?? createScrapeRecorder(dateRange);
 
-    // Step 2: Execute search with date range
-    const searchParams = createSearchParams(this.config.countyCode, dateRange);
-    await withRetry(
-      () => executeSearch(this.page!, searchParams),
-      { maxRetries: 3, isRetryable: isNetworkRetryable },
-      'execute search'
-    );
+    // Steps 1-4: Search each county and collect all result pages
+    // Counties the checkpoint has already finished are skipped
+    for (const county of counties) {
+      if (checkpoint.search[county.code].complete) {
+        logger.info('Using search results from checkpoint', {
+          county: county.name,
+          pages: getCountyPagesCompleted(checkpoint, county.code),
+        });
+        continue;
+      }
 
-    // Step 3: Check for results
-    const hasAnyResults = await hasResults(this.page);
-    if (!hasAnyResults) {
+      await recorder.time(
+        { phase: 'search', backend: 'playwright', county: county.name },
+        () => this.collectSearchResults(county, dateRange, checkpoint)
+      );
+    }
+
+    const parcels = checkpoint.parcels;
+
+    if (checkpoint.searchResults.length === 0) {
       logger.info('No results found for the specified criteria');
       return {
         rawRecords: [],
         parcelDetails: [],
+        salesHistory: [],
         totalParcels: 0,
         totalPages: 0,
       };
     }
 
-    const totalCount = await getResultCount(this.page);
-    logger.info('Found results', { estimatedCount: totalCount });
+    // Step 5: Fetch details for each parcel to get sale price and deed info
+    const unfetched = getUnfetchedParcels(checkpoint);
+
+    if (unfetched.length < parcels.length) {
+      logger.info('Resuming parcel details from checkpoint', {
+        completed: parcels.length - unfetched.length,
+        remaining: unfetched.length,
+      });
+    }
+
+    const cache = createTpadParcelCache(this.config, options.refresh);
+    const pendingParcels = applyCachedDetails(checkpoint, unfetched, cache, 'playwright', recorder);
+    const alreadyDone = parcels.length - pendingParcels.length;
+
+    // Each worker takes the next parcel as soon as it is free, so one slow
+    // parcel only holds up its own worker
+    const pool = createPagePool(this.browser, this.config.concurrency, {
+      isolated: this.config.browserIsolateWorkers,
+    });
+
+    try {
+      await recorder.time({ phase: 'details', backend: 'playwright' }, () => batchExecute(
+        pendingParcels,
+        async ({ key, countyCode, county, parcelId, url }) => {
+          await this.rateLimiter.wait();
+
+          const startedAt = Date.now();
+          let retries = 0;
+          let artifacts: FailureArtifacts = {};
+
+          try {
+            const details = await withRetry(
+              () => pool.run(async (page) => {
+                try {
+                  const details = await fetchParcelDetails(page, url, parcelId);
+                  if (!details.owner_name && details.sales.length === 0) {
+                    throw new Error('No owner or sales found in page');
+                  }
+                  return details;
+                } catch (error) {
+                  // Capture before the pool recycles the page; a later failed attempt overwrites these
+                  // files (they are named after the parcel), and a successful retry deletes them
+                  artifacts = await captureFailureArtifacts(page, this.config.outDir, dateRange, key);
+                  throw error;
+                }
+              }),
+              { maxRetries: 2, isRetryable: isNetworkRetryable, onRetry: () => retries++ },
+              `parcel ${parcelId}`
+            );
+            checkpoint.details[key] = details;
+            cache.set(countyCode, parcelId, details);
+            removeFailureArtifacts(this.config.outDir, artifacts);
+            recorder.recordParcel({
+              key, county, parcelId, url,
+              backend: 'playwright',
+              status: 'ok',
+              cached: false,
+              retries,
+              durationMs: Date.now() - startedAt,
+              errorCategory: null,
+              error: null,
+              artifacts: {},
+            });
+          } catch (error) {
+            logger.warn('Failed to extract parcel details', {
+              parcelId,
+              error: (error as Error).message,
+            });
+            checkpoint.details[key] = null;
+            recorder.recordParcel({
+              key, county, parcelId, url,
+              backend: 'playwright',
+              status: 'failed',
+              cached: false,
+              retries,
+              durationMs: Date.now() - startedAt,
+              errorCategory: categorizeError(error as Error),
+              error: (error as Error).message,
+              artifacts,
+            });
+          }
+        },
+        this.config.concurrency,
+        (completed, total) => {
+          if (completed % this.config.concurrency === 0 || completed === total) {
+            saveCheckpoint(this.config.outDir, checkpoint);
+            logParcelProgress(alreadyDone + completed, parcels.length);
+          }
+        }
+      ));
+    } finally {
+      await pool.close();
+      cache.save();
+    }
+
+    if (pendingParcels.length > 0) {
+      const stats = pool.getStats();
+      const elapsedMin = stats.elapsedMs / 60000;
+      logger.info('Parcel details fetched', {
+        parcels: pendingParcels.length,
+        failed: pendingParcels.filter(p => checkpoint.details[p.key] === null).length,
+        pages: stats.pagesCreated,
+        pagesRecycled: stats.pagesRecycled,
+        elapsedSec: Math.round(stats.elapsedMs / 1000),
+        parcelsPerMinute: elapsedMin > 0 ? Math.round(pendingParcels.length / elapsedMin) : pendingParcels.length,
+        requestDelayMs: this.rateLimiter.getDelayMs(),
+      });
+    }
+
+    // Step 6: Build records in search order, enriching with sale data from details pages
+    return buildExtractionResult(checkpoint, dateRange, recorder);
+  }
+
+  /**
+   * Classification codes to search and keep results for
+   */
+  private getClassificationCodes(): string[] {
+    return this.config.classifications.map(c => c.code);
+  }
 
-    // Step 4: Collect all results from all pages
-    const allResults: RawParcelRecord[] = [];
-    const parcelUrls: Map<string, string> = new Map();
-    let pageNum = 1;
+  /**
+   * Run the search for one county and collect every results page into the checkpoint
+   */
+  private async collectSearchResults(
+    county: County,
+    dateRange: DateRange,
+    checkpoint: ExtractionCheckpoint
+  ): Promise<void> {
+    await this.searchRange(county, dateRange, checkpoint);
+
+    if (checkpoint.search[county.code].split) {
+      mergeSplitSearchResults(checkpoint, county);
+    }
+
+    const countyRecords = checkpoint.searchResults.filter(r => r.county === county.name).length;
+    logSearchResults(countyRecords, getCountyPagesCompleted(checkpoint, county.code));
+  }
+
+  /**
+   * Search one date range, splitting it in half (recursively) while TPAD reports
+   * at least maxSearchResults matches, so a silently capped result set is never used
+   * When resuming, pages already in the checkpoint are skipped over rather than re-read
+   */
+  private async searchRange(
+    county: County,
+    range: DateRange,
+    checkpoint: ExtractionCheckpoint
+  ): Promise<void> {
+    const page = this.page!;
+    const key = getSearchKey(checkpoint, county.code, range);
+    const progress = checkpoint.search[key] ??= { pagesCompleted: 0, complete: false };
+
+    if (progress.complete) {
+      return;
+    }
+
+    if (!progress.split) {
+      // Step 1: Navigate to search page (also resets the form between searches)
+      await withRetry(
+        () => navigateToSearch(page, this.config.tpadBaseUrl),
+        { maxRetries: 3, isRetryable: isNetworkRetryable },
+        'navigate to search'
+      );
+
+      // Step 2: Execute search with date range
+      const searchParams = createSearchParams(county.code, range, this.getClassificationCodes());
+      await withRetry(
+        () => executeSearch(page, searchParams),
+        { maxRetries: 3, isRetryable: isNetworkRetryable },
+        `execute search (${county.name})`
+      );
+
+      // Step 3: Check for results
+      const hasAnyResults = await hasResults(page);
+      if (!hasAnyResults) {
+        logger.info('No results found for county', { county: county.name, range: formatDateRange(range) });
+        progress.complete = true;
+        saveCheckpoint(this.config.outDir, checkpoint);
+        return;
+      }
+
+      const totalCount = await getResultCount(page);
+      logger.info('Found results', {
+        county: county.name,
+        range: formatDateRange(range),
+        estimatedCount: totalCount,
+      });
+
+      const halves = totalCount !== null && totalCount >= this.config.maxSearchResults
+        ? splitDateRange(range)
+        : null;
+
+      if (!halves) {
+        if (totalCount !== null && totalCount >= this.config.maxSearchResults) {
+          logger.warn('Single-day search is at the result ceiling - results may be incomplete', {
+            county: county.name,
+            range: formatDateRange(range),
+            count: totalCount,
+            maxSearchResults: this.config.maxSearchResults,
+          });
+        }
+
+        await this.collectResultPages(county, progress, checkpoint);
+        return;
+      }
+
+      logger.info('Search is at the result ceiling - splitting date range', {
+        county: county.name,
+        range: formatDateRange(range),
+        count: totalCount,
+        maxSearchResults: this.config.maxSearchResults,
+      });
+      progress.split = true;
+      saveCheckpoint(this.config.outDir, checkpoint);
+    }
+
+    for (const half of splitDateRange(range)!) {
+      await this.searchRange(county, half, checkpoint);
+    }
+
+    progress.complete = true;
+    saveCheckpoint(this.config.outDir, checkpoint);
+  }
+
+  /**
+   * Collect every page of the search currently shown, resuming after pages already collected
+   */
+  private async collectResultPages(
+    county: County,
+    progress: SearchProgress,
+    checkpoint: ExtractionCheckpoint
+  ): Promise<void> {
+    const page = this.page!;
+
+    // Skip past pages a previous run already collected
+    for (let skipped = 0; skipped < progress.pagesCompleted; skipped++) {
+      if (!await goToNextPage(page)) {
+        progress.complete = true;
+        saveCheckpoint(this.config.outDir, checkpoint);
+        return;
+      }
+      await sleep(500);
+    }
+
+    // Step 4: Collect remaining results from all pages
+    let pageNum = progress.pagesCompleted + 1;
 
     do {
-      logger.debug(`Processing results page ${pageNum}`);
-      
-      const pageResults = await extractResultsFromPage(this.page);
+      logger.debug(`Processing results page ${pageNum}`, { county: county.name });
       
-      for (const result of pageResults) {
-        const record = searchResultToRawRecord(result, this.config.countyCode);
-        allResults.push(record);
-        
-        if (result.viewUrl) {
-          const fullUrl = result.viewUrl.startsWith('http') 
-            ? result.viewUrl 
-            : `${TPAD_BASE_URL}${result.viewUrl.replace('./', '/')}`;
-          parcelUrls.set(result.parcelId, fullUrl);
-        }
+      const pageResults = await extractResultsFromPage(page);
+      addSearchResults(checkpoint, county, pageResults, this.config.tpadBaseUrl, this.getClassificationCodes());
+
+      progress.pagesCompleted = pageNum;
+
+      const hasMore = await hasNextPage(page);
+      if (!hasMore) {
+        progress.complete = true;
       }
+      saveCheckpoint(this.config.outDir, checkpoint);
 
-      const hasMore = await hasNextPage(this.page);
       if (hasMore) {
-        await goToNextPage(this.page);
+        await goToNextPage(page);
         pageNum++;
         await sleep(500);
       } else {
         break;
       }
     } while (true);
+  }
+}
 
-    const totalPages = pageNum;
-    logSearchResults(allResults.length, totalPages);
+/**
+ * Add one page of search results to the checkpoint, queueing each new parcel for a detail lookup
+ * Rows in classifications that aren't being reported on are skipped (a search across
+ * several classifications returns all of them)
+ */
+export function addSearchResults(
+  checkpoint: ExtractionCheckpoint,
+  county: County,
+  rows: SearchResultRow[],
+  baseUrl: string,
+  classificationCodes: string[]
+): void {
+  const knownKeys = new Set(checkpoint.parcels.map(p => p.key));
 
-    // Step 5: Fetch details for each parcel to get sale price and deed info
-    const parcelDetails: ParcelDetails[] = [];
-    const enrichedRecords: RawParcelRecord[] = [];
+  for (const row of rows) {
+    const code = parseClassificationCode(row.classification);
+    if (code && !classificationCodes.includes(code)) {
+      continue;
+    }
 
-    const parcelEntries = Array.from(parcelUrls.entries());
-    let processedCount = 0;
+    checkpoint.searchResults.push(searchResultToRawRecord(row, county, baseUrl));
 
-    for (let i = 0; i < parcelEntries.length; i += this.config.concurrency) {
-      const batch = parcelEntries.slice(i, i + this.config.concurrency);
-      
-      const batchPromises = batch.map(async ([parcelId, url]) => {
-        await this.rateLimiter();
-        
-        return withRetry(
-          async () => {
-            const detailPage = await createPage(this.config);
-            try {
-              const details = await extractParcelDetails(detailPage, url, parcelId);
-              return details;
-            } finally {
-              await detailPage.close();
-            }
-          },
-          { maxRetries: 2, isRetryable: isNetworkRetryable },
-          `parcel ${parcelId}`
-        );
+    const key = getParcelKey(county.code, row.parcelId);
+    if (row.viewUrl && !knownKeys.has(key)) {
+      knownKeys.add(key);
+      checkpoint.parcels.push({
+        key,
+        countyCode: county.code,
+        county: county.name,
+        parcelId: row.parcelId,
+        url: resolveTpadUrl(row.viewUrl, baseUrl),
       });
+    }
+  }
+}
 
-      const batchResults = await Promise.allSettled(batchPromises);
-      
-      for (let j = 0; j < batchResults.length; j++) {
-        const result = batchResults[j];
-        const [parcelId] = batch[j];
-        
-        if (result.status === 'fulfilled' && result.value) {
-          const details = result.value;
-          parcelDetails.push(details);
-          
-          // Enrich records with sale data from details page
-          if (details.sales.length > 0) {
-            for (const sale of details.sales) {
-              if (isSaleInDateRange(sale.sale_date, dateRange.start, dateRange.end)) {
-                enrichedRecords.push(parcelDetailsToRawRecord(details, sale));
-              }
-            }
-          } else {
-            // No sales data from details page, use the original search result
-            const originalRecord = allResults.find(r => r.parcel_id === parcelId);
-            if (originalRecord) {
-              enrichedRecords.push({
-                ...originalRecord,
-                source_url: details.source_url,
-              });
-            }
-          }
-        } else {
-          // Failed to get details, use original search result
-          const originalRecord = allResults.find(r => r.parcel_id === parcelId);
-          if (originalRecord) {
-            enrichedRecords.push(originalRecord);
-          }
-        }
-      }
+/**
+ * Drop repeated search rows for a county whose search was split into sub-ranges
+ * (the same parcel and sale can come back from both sides of a split boundary)
+ */
+export function mergeSplitSearchResults(checkpoint: ExtractionCheckpoint, county: County): void {
+  const seen = new Set<string>();
+  const before = checkpoint.searchResults.length;
 
-      processedCount = Math.min(i + this.config.concurrency, parcelEntries.length);
-      logParcelProgress(processedCount, parcelEntries.length);
+  checkpoint.searchResults = checkpoint.searchResults.filter((record) => {
+    if (record.county !== county.name) {
+      return true;
     }
+    const key = [record.parcel_id, record.sale_date, record.owner_name].join('|');
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
 
-    // Use enriched records if we got them, otherwise fall back to search results
-    const finalRecords = enrichedRecords.length > 0 ? enrichedRecords : allResults;
+  const removed = before - checkpoint.searchResults.length;
+  if (removed > 0) {
+    logger.info('Removed duplicate rows from split search', { county: county.name, removed });
+  }
+}
 
-    logger.info('Extraction complete', {
-      totalParcels: parcelUrls.size,
-      detailsFetched: parcelDetails.length,
-      finalRecords: finalRecords.length,
+/**
+ * Whether cached details list every sale the search found for the parcel
+ * A sale missing from the cached page means it was cached before that sale was recorded
+ */
+function hasSearchedSales(checkpoint: ExtractionCheckpoint, parcel: ParcelTarget, details: ParcelDetails): boolean {
+  const cachedDates = new Set(details.sales.map(sale => parseSaleDate(sale.sale_date)));
+
+  return checkpoint.searchResults
+    .filter(r => r.parcel_id === parcel.parcelId && r.county === parcel.county && r.sale_date)
+    .every(r => cachedDates.has(parseSaleDate(r.sale_date)));
+}
+
+/**
+ * Fill in details from the parcel cache for parcels that haven't been fetched yet
+ * Returns the parcels that still need their detail page fetched
+ */
+export function applyCachedDetails(
+  checkpoint: ExtractionCheckpoint,
+  parcels: ParcelTarget[],
+  cache: ParcelCache,
+  backend: ScraperBackend,
+  recorder?: ScrapeRecorder
+): ParcelTarget[] {
+  const remaining: ParcelTarget[] = [];
+  let stale = 0;
+
+  for (const parcel of parcels) {
+    const details = cache.get(parcel.countyCode, parcel.parcelId);
+    if (!details || !hasSearchedSales(checkpoint, parcel, details)) {
+      stale += details ? 1 : 0;
+      remaining.push(parcel);
+      continue;
+    }
+
+    checkpoint.details[parcel.key] = details;
+    recorder?.recordParcel({
+      key: parcel.key,
+      county: parcel.county,
+      parcelId: parcel.parcelId,
+      url: parcel.url,
+      backend,
+      status: 'ok',
+      cached: true,
+      retries: 0,
+      durationMs: 0,
+      errorCategory: null,
+      error: null,
+      artifacts: {},
     });
+  }
+
+  const cached = parcels.length - remaining.length;
+  if (cached > 0 || stale > 0) {
+    logger.info('Using cached parcel details', { cached, stale, remaining: remaining.length });
+  }
+
+  return remaining;
+}
+
+/**
+ * Use the search row's classification when the detail page didn't show one
+ * (without it the record would be dropped as an excluded classification)
+ */
+function withSearchClassification(
+  details: ParcelDetails | null | undefined,
+  searchRecord: RawParcelRecord | undefined
+): ParcelDetails | null | undefined {
+  if (!details || details.classification || !searchRecord?.classification) {
+    return details;
+  }
+  return { ...details, classification: searchRecord.classification, land_use: searchRecord.land_use };
+}
+
+/**
+ * Build the extraction result from a finished checkpoint
+ * Records stay in search order; parcels with detail pages get one record per in-range sale
+ * Parcels that had to fall back to their search row are marked as such in the recorder
+ */
+export function buildExtractionResult(
+  checkpoint: ExtractionCheckpoint,
+  dateRange: DateRange,
+  recorder?: ScrapeRecorder
+): TpadExtractionResult {
+  const allResults = checkpoint.searchResults;
+  const parcels = checkpoint.parcels;
+  const totalPages = Object.values(checkpoint.search).reduce((sum, s) => sum + s.pagesCompleted, 0);
+
+  const parcelDetails: ParcelDetails[] = [];
+  const salesHistory: SalesHistoryRecord[] = [];
+  const enrichedRecords: RawParcelRecord[] = [];
 
-    return {
-      rawRecords: finalRecords,
-      parcelDetails,
-      totalParcels: parcelUrls.size,
-      totalPages,
-    };
+  for (const parcel of parcels) {
+    const originalRecord = allResults.find(
+      r => r.parcel_id === parcel.parcelId && r.county === parcel.county
+    );
+    const details = withSearchClassification(checkpoint.details[parcel.key], originalRecord);
+
+    if (details) {
+      parcelDetails.push(details);
+      salesHistory.push(...parcelDetailsToSalesHistory(details, parcel.county));
+
+      if (details.sales.length > 0) {
+        for (const sale of details.sales) {
+          if (isSaleInDateRange(sale.sale_date, dateRange.start, dateRange.end)) {
+            enrichedRecords.push(parcelDetailsToRawRecord(details, sale, parcel.county));
+          }
+        }
+      } else if (originalRecord) {
+        // No sales data from details page, use the original search result
+        enrichedRecords.push({
+          ...originalRecord,
+          source_url: details.source_url,
+        });
+        recorder?.setParcelStatus(parcel.key, 'fallback', 'No sales on detail page');
+      }
+    } else if (originalRecord) {
+      // Failed to get details, use original search result
+      enrichedRecords.push(originalRecord);
+      recorder?.setParcelStatus(parcel.key, 'fallback');
+    }
   }
+
+  // Use enriched records if we got them, otherwise fall back to search results
+  const finalRecords = enrichedRecords.length > 0 ? enrichedRecords : allResults;
+
+  logger.info('Extraction complete', {
+    counties: checkpoint.countyCodes.length,
+    totalParcels: parcels.length,
+    detailsFetched: parcelDetails.length,
+    finalRecords: finalRecords.length,
+  });
+
+  return {
+    rawRecords: finalRecords,
+    parcelDetails,
+    salesHistory,
+    totalParcels: parcels.length,
+    totalPages,
+  };
+}
+
+/**
+ * Rate limiter for TPAD requests, starting at the configured delay
+ */
+export function createTpadRateLimiter(config: ExtractorConfig): AdaptiveRateLimiter {
+  return createAdaptiveRateLimiter({
+    baseDelayMs: config.requestDelayMs,
+    maxDelayMs: config.maxRequestDelayMs,
+    slowResponseMs: config.slowResponseMs,
+  });
+}
+
+/**
+ * Parcel detail cache for a run, in the output directory
+ */
+export function createTpadParcelCache(config: ExtractorConfig, refresh = false): ParcelCache {
+  return openParcelCache(config.outDir, {
+    ttlMs: config.parcelCacheTtlHours * 60 * 60 * 1000,
+    refresh,
+  });
 }
 
 /**
@@ -7,19 +7,44 @@
  */
 export interface RawParcelRecord {
   parcel_id: string;
+  county: string;
   owner_name: string;
+  /** Owner's mailing address from the detail page, as shown ('' when unknown) */
+  owner_mailing_address: string;
   property_address: string;
   city: string;
   zip: string;
+  location_confidence: LocationConfidence;
   classification: string;
   land_use: string;
   acreage: string;
+  land_value: string;
+  improvement_value: string;
+  appraised_value: string;
   assessed_value: string;
+  year_built: string;
+  finished_sqft: string;
+  building_type: string;
+  subdivision: string;
+  lot: string;
   sale_date: string;
   sale_price: string;
   deed_instrument: string;
+  seller_name: string;
+  buyer_name: string;
   qualified_sale: string;
+  /** Deed book and page of the sale, e.g. "1840-221" ('' when unknown) */
+  book_page: string;
+  /** Sales table's Vacant/Improved column, e.g. "V" or "I" ('' when unknown) */
+  vacant_improved: string;
+  /** The parcel's sale before this one, from its detail page ('' when unknown) */
+  prior_sale_date: string;
+  prior_sale_price: string;
+  prior_deed_instrument: string;
   source_url: string;
+  /** Set when several parcels' records were combined into this one, see groupTransactions */
+  transaction_parcel_ids?: string[];
+  shared_consideration?: boolean;
 }
 
 /**
@@ -27,32 +52,182 @@ export interface RawParcelRecord {
  */
 export interface CleanedSale {
   parcel_id: string;
+  county: string;
+  /** Standardized street address, e.g. "467 OWEN RD" */
   situs_address: string;
   city: string;
   state: string;
   zip: string;
+  location_confidence: LocationConfidence;
   owner_name: string | null;
+  /** Standardized mailing address, e.g. "PO BOX 1220, MILLINGTON TN 38083" */
   owner_mailing_address: string | null;
+  /** Mailing address components ('' when unknown) */
+  owner_mailing_street: string;
+  owner_mailing_city: string;
+  owner_mailing_state: string;
+  owner_mailing_zip: string;
+  /** Mail-merge fields parsed from owner_name ('' when not a person's name) */
+  owner_first_name: string;
+  owner_middle_name: string;
+  owner_last_name: string;
+  owner_suffix: string;
+  co_owner_first_name: string;
+  co_owner_last_name: string;
+  /** "John & Jane Smith" */
+  household_name: string;
+  /** "Dear John and Jane" */
+  salutation: string;
   sale_date: string;
+  /** Price of the whole transaction when several parcels were sold together */
   sale_price: number;
   deed_instrument: string;
+  /** Deed book and page, e.g. "1840-221" ('' when unknown) */
+  book_page: string;
+  /** Every parcel sold in the transaction, this one first */
+  transaction_parcel_ids: string[];
+  /** Each parcel of the transaction shows the same price - the deed's total consideration */
+  shared_consideration: boolean;
+  seller_name: string | null;
+  buyer_name: string | null;
+  /** Who the owner is - an individual, a couple, an LLC, a builder... (null without a name) */
+  owner_entity_type: EntityType | null;
+  seller_entity_type: EntityType | null;
+  /** Vacant lot, existing home, or new construction sold by the builder to its first owner */
+  sale_type: SaleType;
+  /** Previous sale of the parcel, for appreciation and holding period */
+  prior_sale_date: string | null;
+  prior_sale_price: number | null;
+  prior_deed_instrument: string | null;
   land_use: string;
+  /** Classification name the sale is reported under, e.g. "Residential" */
+  property_class: string;
+  /** Combined acreage of every parcel in the transaction */
+  acreage: number | null;
+  land_value: number | null;
+  improvement_value: number | null;
+  appraised_value: number | null;
+  assessed_value: number | null;
+  year_built: number | null;
+  finished_sqft: number | null;
+  building_type: string;
+  subdivision: string;
+  lot: string;
   source_url: string;
   extracted_at: string;
 }
 
+/**
+ * One row of a parcel's full sales history (sales_history export)
+ */
+export interface SalesHistoryRecord {
+  parcel_id: string;
+  county: string;
+  property_address: string;
+  /** ISO date (YYYY-MM-DD) */
+  sale_date: string;
+  sale_price: number;
+  deed_instrument: string;
+  seller_name: string;
+  buyer_name: string;
+  qualified_sale: string;
+  book_page: string;
+  vacant_improved: string;
+  source_url: string;
+}
+
+/**
+ * Where a record's city and ZIP came from
+ * - parcel: the parcel's own detail page
+ * - high / medium / low: estimated from the gazetteer, by how consistently
+ *   other parcels on the same street or in the same subdivision agree
+ * - none: unknown, city and ZIP are left blank
+ */
+export type LocationConfidence = 'parcel' | 'high' | 'medium' | 'low' | 'none';
+
+/**
+ * Kind of entity behind an owner or seller name (see processors/entity.ts)
+ */
+export type EntityType =
+  | 'individual'
+  | 'couple'
+  | 'trust'
+  | 'company'
+  | 'builder'
+  | 'financial'
+  | 'government';
+
+/**
+ * What was sold (see processors/sale-type.ts)
+ */
+export type SaleType = 'new_construction' | 'existing_home' | 'vacant_lot';
+
+/**
+ * How the report treats a sale type: listed with the other sales, left out, or in its own section
+ */
+export type SaleTypeMode = 'include' | 'exclude' | 'separate';
+
+/**
+ * A Tennessee county to search
+ */
+export interface County {
+  code: string;
+  name: string;
+}
+
 /**
  * Configuration for the extractor
  */
 export interface ExtractorConfig {
   outDir: string;
   headless: boolean;
+  /** Also write sales_history_YYYY_MM_DD.csv with every sale of each parcel */
+  exportSalesHistory: boolean;
+  /** Proxy for browser traffic, e.g. "http://proxy:8080" ('' for none) */
+  browserProxyServer: string;
+  browserProxyUsername: string;
+  browserProxyPassword: string;
+  browserLocale: string;
+  browserTimezone: string;
+  /** Default timeout for page actions */
+  browserTimeoutMs: number;
+  browserNavigationTimeoutMs: number;
+  /** Playwright storage state file (cookies, local storage) to start contexts from ('' for none) */
+  browserStorageState: string;
+  /** Resource types the browser doesn't load, e.g. image, media, font */
+  browserBlockedResources: string[];
+  /** Give each parcel detail worker its own browser context */
+  browserIsolateWorkers: boolean;
   concurrency: number;
+  /** Result count at which a search is split into smaller date ranges */
+  maxSearchResults: number;
+  /** Delay between requests while TPAD is healthy; raised automatically when it struggles */
   requestDelayMs: number;
+  /** Most the request delay is raised to when backing off */
+  maxRequestDelayMs: number;
+  /** Responses slower than this make the scraper back off */
+  slowResponseMs: number;
+  /** How long parsed parcel detail pages are reused across runs (0 disables the cache) */
+  parcelCacheTtlHours: number;
+  /** Default filter thresholds; each classification policy can override them */
   minSalePrice: number;
   instrumentDenylist: string[];
-  countyCode: string;
+  /** Property classifications to search and report on, each with its own filter policy */
+  classifications: ClassificationPolicy[];
+  /** Owner entity types filtered out of the report, e.g. company and builder */
+  excludedEntityTypes: EntityType[];
+  /** Whether each sale type is included, excluded, or reported in its own section */
+  saleTypeModes: Record<SaleType, SaleTypeMode>;
+  /** Owner and address similarity (0-1) at which sales are merged as duplicates (0 disables) */
+  fuzzyDedupeThreshold: number;
+  /** JSON filter rules replacing the built-in filter chain ('' for the built-in chain) */
+  filterRulesFile: string;
+  counties: County[];
+  /** Display label for reports, e.g. "Tipton" or "Tipton, Shelby & Fayette" */
   countyName: string;
+  tpadBaseUrl: string;
+  /** Which scraper implementation fetches TPAD data */
+  scraperBackend: ScraperBackend;
   sendgridApiKey: string;
   emailTo: string;
   emailFrom: string;
@@ -65,6 +240,23 @@ export interface ExtractorConfig {
   mapImageHeight: number;
 }
 
+/**
+ * Filter policy for one property classification that is searched and reported on
+ */
+export interface ClassificationPolicy {
+  /** TPAD classification code, e.g. "00" */
+  code: string;
+  /** Name used in reports, e.g. "Residential" */
+  name: string;
+  minSalePrice: number;
+  instrumentDenylist: string[];
+}
+
+/**
+ * Scraper implementation (recorded in checkpoints and scrape reports)
+ */
+export type ScraperBackend = 'playwright';
+
 /**
  * Date range for searching
  */
@@ -79,7 +271,8 @@ export interface DateRange {
  */
 export interface SearchParams {
   countyCode: string;
-  classification: string;
+  /** Classification code to search, or null for all classifications */
+  classification: string | null;
   saleDateStart: string;
   saleDateEnd: string;
 }
@@ -96,10 +289,28 @@ export interface ParcelDetails {
   zip: string;
   classification: string;
   land_use: string;
+  characteristics: PropertyCharacteristics;
   sales: SaleRecord[];
   source_url: string;
 }
 
+/**
+ * Land, value and structure details from the parcel detail page (raw text as shown)
+ */
+export interface PropertyCharacteristics {
+  acreage: string;
+  land_value: string;
+  improvement_value: string;
+  /** Total appraised (market) value */
+  appraised_value: string;
+  assessed_value: string;
+  year_built: string;
+  finished_sqft: string;
+  building_type: string;
+  subdivision: string;
+  lot: string;
+}
+
 /**
  * Individual sale record from parcel details
  */
@@ -107,10 +318,14 @@ export interface SaleRecord {
   sale_date: string;
   sale_price: string;
   deed_instrument: string;
+  /** Seller - inferred from the owner card, '' when unknown */
   grantor: string;
+  /** Buyer - inferred from the owner card, '' when unknown */
   grantee: string;
   qualified_sale: string;
   book_page: string;
+  /** "V" (vacant) or "I" (improved) when sold */
+  vacant_improved: string;
 }
 
 /**
@@ -132,6 +347,8 @@ export interface CliOptions {
   week?: string;
   out: string;
   dryRun: boolean;
+  resume?: boolean;
+  refresh?: boolean;
 }
 
 /**
@@ -145,6 +362,15 @@ export interface ExtractionResult {
     rawCsv: string;
     cleanedCsv: string;
     cleanedJson: string;
+    /** Records dropped by filtering and deduplication, and why */
+    rejectedCsv: string;
+    rejectedJson: string;
+    /** Clusters merged by the fuzzy dedupe pass, for review (unless FUZZY_DEDUPE_THRESHOLD=0) */
+    fuzzyDuplicatesCsv?: string;
+    /** Every sale of every parcel whose detail page was read (EXPORT_SALES_HISTORY only) */
+    salesHistoryCsv?: string;
+    /** Per-county cleaned CSVs keyed by county name (multi-county runs only) */
+    countyCsvs: Record<string, string>;
   };
 }
 
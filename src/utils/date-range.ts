@@ -135,3 +135,38 @@ export function getDateRangeFilename(range: DateRange): string {
   return `week_${start}`;
 }
 
+
+/**
+ * Count the calendar days a range covers (inclusive)
+ */
+export function getDayCount(range: DateRange): number {
+  const start = new Date(range.start.getFullYear(), range.start.getMonth(), range.start.getDate());
+  const end = new Date(range.end.getFullYear(), range.end.getMonth(), range.end.getDate());
+  return Math.round((end.getTime() - start.getTime()) / 86400000) + 1;
+}
+
+/**
+ * Split a range into two halves on a day boundary
+ * Returns null for a single-day range, which cannot be split further
+ */
+export function splitDateRange(range: DateRange): [DateRange, DateRange] | null {
+  const days = getDayCount(range);
+  if (days < 2) {
+    return null;
+  }
+
+  const firstEnd = new Date(range.start);
+  firstEnd.setDate(firstEnd.getDate() + Math.floor(days / 2) - 1);
+  firstEnd.setHours(23, 59, 59, 999);
+
+  const secondStart = new Date(firstEnd);
+  secondStart.setDate(secondStart.getDate() + 1);
+  secondStart.setHours(0, 0, 0, 0);
+
+  const first = { start: new Date(range.start), end: firstEnd, label: '' };
+  const second = { start: secondStart, end: new Date(range.end), label: '' };
+  first.label = formatDateRange(first);
+  second.label = formatDateRange(second);
+
+  return [first, second];
+}
@@ -15,6 +15,8 @@ export interface RetryOptions {
   backoffMultiplier: number;
   /** Optional function to determine if error is retryable */
   isRetryable?: (error: Error) => boolean;
+  /** Called before each retry, e.g. to count retries for telemetry */
+  onRetry?: (attempt: number, error: Error, delayMs: number) => void;
 }
 
 const DEFAULT_OPTIONS: RetryOptions = {
@@ -78,6 +80,7 @@ export async function withRetry<T>(
         context,
         error: lastError.message,
       });
+      opts.onRetry?.(attempt + 1, lastError, delay);
 
       await sleep(delay);
     }
@@ -96,10 +99,13 @@ export function isNetworkRetryable(error: Error): boolean {
     'ECONNREFUSED',
     'ETIMEDOUT',
     'socket hang up',
+    'fetch failed',
     'network',
     'Navigation timeout',
     'Target closed',
     'Page closed',
+    'HTTP 429',
+    'HTTP 503',
   ];
 
   const message = error.message.toLowerCase();
@@ -124,6 +130,107 @@ export function createRateLimiter(delayMs: number): () => Promise<void> {
   };
 }
 
+/**
+ * Settings for an adaptive rate limiter
+ */
+export interface AdaptiveRateLimitOptions {
+  /** Delay between requests while the server is healthy */
+  baseDelayMs: number;
+  /** Upper bound on the delay however badly the server is doing */
+  maxDelayMs: number;
+  /** Responses slower than this count as a sign of strain */
+  slowResponseMs: number;
+  /** Consecutive healthy responses before the delay is eased back down */
+  recoveryAfter?: number;
+}
+
+/**
+ * Rate limiter that slows down when the server is struggling and speeds back up when it recovers
+ */
+export interface AdaptiveRateLimiter {
+  /** Wait until the next request may be made */
+  wait(): Promise<void>;
+  /** Report a response's status code (0 when none came back) and how long it took */
+  recordResponse(status: number, durationMs: number): void;
+  /** Current delay between requests */
+  getDelayMs(): number;
+}
+
+/** Smallest delay to back off to, so a zero base delay can still slow down */
+const MIN_BACKOFF_DELAY_MS = 1000;
+
+/**
+ * Create an adaptive rate limiter
+ *
+ * 429/503 responses double the delay; other server errors, missing responses and
+ * slow responses raise it by half. Every `recoveryAfter` healthy responses in a row take a
+ * quarter off, until it is back at the base delay. Each change is logged.
+ */
+export function createAdaptiveRateLimiter(options: AdaptiveRateLimitOptions): AdaptiveRateLimiter {
+  const { baseDelayMs, maxDelayMs, slowResponseMs, recoveryAfter = 5 } = options;
+  let delayMs = baseDelayMs;
+  let healthyStreak = 0;
+  let lastCall = 0;
+
+  function setDelay(next: number, reason: string, status: number, durationMs: number): void {
+    const clamped = Math.round(Math.min(maxDelayMs, Math.max(baseDelayMs, next)));
+    if (clamped === delayMs) {
+      return;
+    }
+
+    const slowingDown = clamped > delayMs;
+    delayMs = clamped;
+
+    const context = {
+      reason,
+      status,
+      responseMs: Math.round(durationMs),
+      delayMs,
+      requestsPerMinute: delayMs > 0 ? Math.round(60000 / delayMs) : 'unlimited',
+    };
+    if (slowingDown) {
+      logger.warn('Backing off requests', context);
+    } else {
+      logger.info('Easing request rate back up', context);
+    }
+  }
+
+  return {
+    async wait(): Promise<void> {
+      // Claim the slot before sleeping so concurrent callers queue up behind it
+      const now = Date.now();
+      const slot = Math.max(now, lastCall + delayMs);
+      lastCall = slot;
+
+      if (slot > now) {
+        await sleep(slot - now);
+      }
+    },
+
+    recordResponse(status: number, durationMs: number): void {
+      const backoffFrom = Math.max(delayMs, MIN_BACKOFF_DELAY_MS);
+
+      if (status === 429 || status === 503) {
+        healthyStreak = 0;
+        setDelay(backoffFrom * 2, 'throttled', status, durationMs);
+      } else if (status >= 500 || status === 0) {
+        healthyStreak = 0;
+        setDelay(backoffFrom * 1.5, status === 0 ? 'no response' : 'server error', status, durationMs);
+      } else if (durationMs > slowResponseMs) {
+        healthyStreak = 0;
+        setDelay(backoffFrom * 1.5, 'slow response', status, durationMs);
+      } else if (++healthyStreak >= recoveryAfter) {
+        healthyStreak = 0;
+        setDelay(delayMs * 0.75, 'healthy', status, durationMs);
+      }
+    },
+
+    getDelayMs(): number {
+      return delayMs;
+    },
+  };
+}
+
 /**
  * Batch executor with concurrency control
  * Uses p-limit pattern but simpler implementation
@@ -0,0 +1,82 @@
+/**
+ * Tests for address standardization
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  standardizeStreetAddress,
+  parseMailingAddress,
+  formatMailingAddress,
+} from '../src/processors/address.js';
+
+describe('standardizeStreetAddress', () => {
+  it.each([
+    ['OWEN RD 467', '467 OWEN RD'],
+    ['OWEN ROAD  467', '467 OWEN RD'],
+    ['123 north main street', '123 N MAIN ST'],
+    ['123 Main Street North', '123 MAIN ST N'],
+    ['45 Oak Cove', '45 OAK CV'],
+    ['MUNFORD AVENUE 1200 APARTMENT 4', '1200 MUNFORD AVE APT 4'],
+    ['100 Court Square Suite 2', '100 COURT SQ STE 2'],
+    ['12 Elm Dr #3', '12 ELM DR # 3'],
+    ['P.O. Box 1220', 'PO BOX 1220'],
+    ['POST OFFICE BOX 7', 'PO BOX 7'],
+  ])('standardizes %s', (address, expected) => {
+    expect(standardizeStreetAddress(address)).toBe(expected);
+  });
+
+  it('keeps words that are the street name', () => {
+    expect(standardizeStreetAddress('123 NORTH ST')).toBe('123 NORTH ST');
+    expect(standardizeStreetAddress('9 COURT ST')).toBe('9 COURT ST');
+  });
+
+  it('does not take a route number for a house number', () => {
+    expect(standardizeStreetAddress('HWY 51')).toBe('HWY 51');
+    expect(standardizeStreetAddress('HIGHWAY 51 1840')).toBe('1840 HWY 51');
+    expect(standardizeStreetAddress('HWY 70')).toBe('HWY 70');
+    expect(standardizeStreetAddress('COUNTY ROAD 12')).toBe('COUNTY ROAD 12');
+    expect(standardizeStreetAddress('CO RD 12')).toBe('CO RD 12');
+    expect(standardizeStreetAddress('STATE ROUTE 59')).toBe('STATE ROUTE 59');
+    expect(standardizeStreetAddress('US 51')).toBe('US 51');
+    expect(standardizeStreetAddress('I 40')).toBe('I 40');
+    expect(standardizeStreetAddress('COUNTY ROAD 12 220')).toBe('220 COUNTY ROAD 12');
+  });
+
+  it('returns empty for empty input', () => {
+    expect(standardizeStreetAddress('')).toBe('');
+  });
+});
+
+describe('parseMailingAddress', () => {
+  it('reads the owner card format', () => {
+    expect(parseMailingAddress('PO BOX 1220, MILLINGTON TN 38083')).toEqual({
+      street: 'PO BOX 1220',
+      city: 'MILLINGTON',
+      state: 'TN',
+      zip: '38083',
+    });
+  });
+
+  it('keeps units with the street and reads ZIP+4', () => {
+    expect(parseMailingAddress('123 Main Street, Apt 4, Memphis, TN 381111234')).toEqual({
+      street: '123 MAIN ST APT 4',
+      city: 'MEMPHIS',
+      state: 'TN',
+      zip: '38111-1234',
+    });
+  });
+
+  it('keeps out-of-state owners', () => {
+    expect(parseMailingAddress('500 Elm Avenue, Tupelo MS 38801')).toMatchObject({ state: 'MS', city: 'TUPELO' });
+  });
+
+  it('falls back to the street alone when there is no state and ZIP', () => {
+    expect(parseMailingAddress('123 Main Street')).toEqual({ street: '123 MAIN ST', city: '', state: '', zip: '' });
+    expect(parseMailingAddress('')).toEqual({ street: '', city: '', state: '', zip: '' });
+  });
+
+  it('formats the components back into one line', () => {
+    expect(formatMailingAddress(parseMailingAddress('p.o. box 1220, Millington TN 38083')))
+      .toBe('PO BOX 1220, MILLINGTON TN 38083');
+  });
+});
@@ -14,6 +14,8 @@ import {
   isDateInRange,
   formatDateRange,
   getDateRangeFilename,
+  getDayCount,
+  splitDateRange,
 } from '../src/utils/date-range.js';
 
 describe('formatDate', () => {
@@ -154,3 +156,32 @@ describe('getDateRangeFilename', () => {
   });
 });
 
+describe('getDayCount', () => {
+  it('counts both ends of the range', () => {
+    expect(getDayCount(getWeekRangeFromMonday('2025-01-06'))).toBe(7);
+  });
+});
+
+describe('splitDateRange', () => {
+  it('splits a week into disjoint halves that cover every day', () => {
+    const [first, second] = splitDateRange(getWeekRangeFromMonday('2025-01-06'))!;
+
+    expect(formatDateRange(first)).toBe('2025-01-06 to 2025-01-08');
+    expect(formatDateRange(second)).toBe('2025-01-09 to 2025-01-12');
+    expect(second.start.getTime()).toBeGreaterThan(first.end.getTime());
+    expect(getDayCount(first) + getDayCount(second)).toBe(7);
+  });
+
+  it('splits across a month boundary', () => {
+    const range = { start: parseDate('2025-01-20'), end: parseDate('2025-02-18'), label: 'backfill' };
+    const [first, second] = splitDateRange(range)!;
+
+    expect(first.label).toBe('2025-01-20 to 2025-02-03');
+    expect(second.label).toBe('2025-02-04 to 2025-02-18');
+  });
+
+  it('returns null for a single day', () => {
+    const day = parseDate('2025-01-06');
+    expect(splitDateRange({ start: day, end: day, label: 'one day' })).toBeNull();
+  });
+});
@@ -0,0 +1,321 @@
+/**
+ * Tests for deduplication and the rejected records audit
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  deduplicateRawRecords,
+  deduplicateCleanedSales,
+  deduplicateByOwnerAddress,
+} from '../src/processors/dedupe.js';
+import {
+  deduplicateFuzzy,
+  soundex,
+  nameSimilarity,
+  addressSimilarity,
+} from '../src/processors/fuzzy-dedupe.js';
+import { groupTransactions, getTransactionKey } from '../src/processors/transactions.js';
+import { createRejectionLog, summarizeRejections } from '../src/processors/rejection-log.js';
+import { transformRecord } from '../src/processors/transform.js';
+import { filterRecords } from '../src/processors/filter.js';
+import { writeRejectedCsv, writeCleanedCsv, readCsv } from '../src/output/csv-writer.js';
+import { writeRejectedJson } from '../src/output/json-writer.js';
+import { getWeekRangeFromMonday } from '../src/utils/date-range.js';
+import type { RawParcelRecord, ExtractorConfig } from '../src/types/index.js';
+
+const week = getWeekRangeFromMonday('2025-01-06');
+
+const createMockRecord = (overrides: Partial<RawParcelRecord> = {}): RawParcelRecord => ({
+  parcel_id: '067 05308 000',
+  county: 'Tipton',
+  owner_name: 'SMITH JOHN',
+  owner_mailing_address: '',
+  property_address: '123 MAIN ST',
+  city: 'COVINGTON',
+  zip: '38019',
+  location_confidence: 'parcel',
+  classification: '00',
+  land_use: 'Residential',
+  acreage: '',
+  land_value: '',
+  improvement_value: '',
+  appraised_value: '',
+  assessed_value: '',
+  year_built: '',
+  finished_sqft: '',
+  building_type: '',
+  subdivision: '',
+  lot: '',
+  sale_date: '1/8/2025',
+  sale_price: '$250,000',
+  deed_instrument: 'WD - WARRANTY DEED',
+  seller_name: '',
+  buyer_name: '',
+  qualified_sale: '',
+  book_page: '',
+  vacant_improved: '',
+  prior_sale_date: '',
+  prior_sale_price: '',
+  prior_deed_instrument: '',
+  source_url: 'http://x/1',
+  ...overrides,
+});
+
+describe('deduplicateRawRecords', () => {
+  it('keeps the first record and logs the duplicate against it', () => {
+    const rejections = createRejectionLog();
+    const first = createMockRecord();
+    const duplicate = createMockRecord({ parcel_id: '067    05308 000', sale_date: '01/08/2025', source_url: 'http://x/2' });
+
+    expect(deduplicateRawRecords([first, duplicate], rejections)).toEqual([first]);
+    expect(rejections.getEntries()).toEqual([expect.objectContaining({
+      stage: 'dedupe_raw',
+      parcel_id: '067    05308 000',
+      sale_date: '2025-01-08',
+      sale_price: 250000,
+      source_url: 'http://x/2',
+      duplicate_key: '067 05308 000|2025-01-08|250000',
+      kept_parcel_id: '067 05308 000',
+      kept_sale_price: 250000,
+    })]);
+  });
+});
+
+describe('deduplicateCleanedSales', () => {
+  it('says which key matched', () => {
+    const rejections = createRejectionLog();
+    const sale = transformRecord(createMockRecord());
+
+    deduplicateCleanedSales([
+      sale,
+      transformRecord(createMockRecord()),
+      transformRecord(createMockRecord({ parcel_id: '067 05308 001' })),
+    ], rejections);
+
+    expect(rejections.getEntries().map(e => e.reason)).toEqual([
+      'Same parcel, address, sale date and price',
+      'Same address, sale date and price',
+    ]);
+  });
+});
+
+describe('deduplicateByOwnerAddress', () => {
+  it('logs every loser against the final winner', () => {
+    const rejections = createRejectionLog();
+    const sales = [
+      transformRecord(createMockRecord({ parcel_id: '1', sale_price: '$10,000' })),
+      transformRecord(createMockRecord({ parcel_id: '2', sale_price: '$250,000' })),
+      transformRecord(createMockRecord({ parcel_id: '3', sale_price: '$300,000' })),
+      transformRecord(createMockRecord({ parcel_id: '4', owner_name: '', property_address: '' })),
+    ];
+
+    const kept = deduplicateByOwnerAddress(sales, rejections);
+
+    expect(kept.map(s => s.parcel_id)).toEqual(['3']);
+    expect(rejections.getEntries().map(e => [e.parcel_id, e.kept_parcel_id])).toEqual([
+      ['4', ''],
+      ['1', '3'],
+      ['2', '3'],
+    ]);
+  });
+});
+
+describe('groupTransactions', () => {
+  const house = createMockRecord({
+    parcel_id: '067 05308 000', book_page: '1840-221', acreage: '1.25', improvement_value: '$240,000',
+  });
+  const lot = createMockRecord({
+    parcel_id: '067 05309 000', property_address: 'MAIN ST', book_page: '1840-221', acreage: '0.5', improvement_value: '',
+  });
+
+  it('combines parcels on the same book/page and date into one sale', () => {
+    const rejections = createRejectionLog();
+    const grouped = groupTransactions([lot, house], rejections);
+
+    expect(grouped).toHaveLength(1);
+    expect(transformRecord(grouped[0])).toMatchObject({
+      parcel_id: '067 05308 000',
+      situs_address: '123 MAIN ST',
+      transaction_parcel_ids: ['067 05308 000', '067 05309 000'],
+      acreage: 1.75,
+      sale_price: 250000,
+      shared_consideration: true,
+    });
+    expect(rejections.getEntries()).toEqual([expect.objectContaining({
+      stage: 'dedupe_transaction',
+      reason: 'Another parcel of the same sale (book/page 1840-221)',
+      parcel_id: '067 05309 000',
+      kept_parcel_id: '067 05308 000',
+      duplicate_key: 'Tipton|1840-221|2025-01-08',
+    })]);
+  });
+
+  it('adds up prices split between the parcels', () => {
+    const splitLot = { ...lot, sale_price: '$20,000' };
+    const [sale] = groupTransactions([house, splitLot]);
+
+    expect(sale.sale_price).toBe('$270,000');
+    expect(transformRecord(sale).shared_consideration).toBe(false);
+  });
+
+  it('filters the combined transaction, not each parcel on its own', () => {
+    const config = {
+      classifications: [{ code: '00', name: 'Residential', minSalePrice: 1000, instrumentDenylist: [] }],
+      excludedEntityTypes: [],
+      saleTypeModes: { new_construction: 'include', existing_home: 'include', vacant_lot: 'include' },
+    } as unknown as ExtractorConfig;
+    // The lot alone would fail the minimum price
+    const splitLot = { ...lot, sale_price: '$500' };
+    expect(filterRecords([splitLot], config, week).passed).toHaveLength(0);
+
+    const { passed } = filterRecords(groupTransactions([house, splitLot]), config, week);
+
+    expect(passed).toHaveLength(1);
+    expect(transformRecord(passed[0])).toMatchObject({
+      sale_price: 250500,
+      transaction_parcel_ids: ['067 05308 000', '067 05309 000'],
+    });
+  });
+
+  it('leaves single parcels and sales without a book/page alone', () => {
+    const otherDate = { ...lot, sale_date: '1/9/2025' };
+    const unknown = [house, lot].map(record => ({ ...record, book_page: '-' }));
+
+    expect(groupTransactions([house, otherDate])).toEqual([house, otherDate]);
+    expect(groupTransactions(unknown)).toEqual(unknown);
+    expect(getTransactionKey(unknown[0])).toBeNull();
+    expect(transformRecord(house)).toMatchObject({ transaction_parcel_ids: ['067 05308 000'], shared_consideration: false });
+  });
+
+  it('writes the parcel list and flag to CSV', () => {
+    const outDir = fs.mkdtempSync(path.join(os.tmpdir(), 'transactions-test-'));
+    try {
+      const csvPath = writeCleanedCsv(groupTransactions([house, lot]).map(transformRecord), outDir, 'sales.csv');
+      expect(readCsv<Record<string, string>>(csvPath)[0]).toMatchObject({
+        book_page: '1840-221',
+        transaction_parcel_ids: '067 05308 000; 067 05309 000',
+        shared_consideration: 'true',
+        acreage: '1.75',
+      });
+    } finally {
+      fs.rmSync(outDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('similarity', () => {
+  it('computes Soundex codes', () => {
+    expect(soundex('SMITH')).toBe('S530');
+    expect(soundex('SMYTH')).toBe('S530');
+    expect(soundex('ASHCRAFT')).toBe('A261');
+    expect(soundex('TYMCZAK')).toBe('T522');
+  });
+
+  it('ignores punctuation, word order, initials and joint markers in names', () => {
+    expect(nameSimilarity('SMITH JOHN', 'SMITH, JOHN')).toBe(1);
+    expect(nameSimilarity('SMITH JOHN A', 'JOHN SMITH')).toBe(1);
+    expect(nameSimilarity('SMITH JOHN ETUX', 'SMITH JOHN')).toBe(1);
+    expect(nameSimilarity('SMYTH JOHN', 'SMITH JOHN')).toBeGreaterThanOrEqual(0.9);
+    expect(nameSimilarity('SMITH JOHN', 'JONES MARY')).toBeLessThan(0.5);
+  });
+
+  it('never matches different house numbers or units', () => {
+    expect(addressSimilarity('123 OAK DR', '123 OAK DRIVE')).toBe(1);
+    expect(addressSimilarity('123 OAK DR', '123 OAKS DR')).toBeGreaterThan(0.85);
+    expect(addressSimilarity('123 OAK DR', '125 OAK DR')).toBe(0);
+    expect(addressSimilarity('123 OAK DR APT 1', '123 OAK DR APT 2')).toBe(0);
+  });
+});
+
+describe('deduplicateFuzzy', () => {
+  const sales = [
+    transformRecord(createMockRecord({ parcel_id: 'A', owner_name: 'SMITH, JOHN', property_address: '123 OAK DRIVE', sale_price: '$200,000' })),
+    transformRecord(createMockRecord({ parcel_id: 'B', owner_name: 'SMITH JOHN & JANE', property_address: 'OAK DR 123', sale_price: '$250,000' })),
+    transformRecord(createMockRecord({ parcel_id: 'C', owner_name: 'SMITH JOHN', property_address: '125 OAK DR' })),
+    transformRecord(createMockRecord({ parcel_id: 'D', owner_name: 'JONES MARY', property_address: '123 OAK DR' })),
+  ];
+
+  it('merges similar owners at the same address into one cluster', () => {
+    const rejections = createRejectionLog();
+    const { unique, clusters } = deduplicateFuzzy(sales, 0.85, rejections);
+
+    expect(unique.map(s => s.parcel_id)).toEqual(['B', 'C', 'D']);
+    expect(clusters).toHaveLength(1);
+    expect(clusters[0].survivor.parcel_id).toBe('B');
+    expect(clusters[0].merged.map(m => m.sale.parcel_id)).toEqual(['A']);
+    expect(rejections.getEntries()).toEqual([expect.objectContaining({
+      stage: 'dedupe_fuzzy',
+      parcel_id: 'A',
+      kept_parcel_id: 'B',
+      duplicate_key: 'cluster 1',
+    })]);
+  });
+
+  it('picks the same survivor whatever the input order', () => {
+    const { clusters } = deduplicateFuzzy([...sales].reverse(), 0.85);
+    expect(clusters[0].survivor.parcel_id).toBe('B');
+  });
+
+  it('respects the threshold, and 0 turns it off', () => {
+    expect(deduplicateFuzzy(sales, 0.99).clusters).toHaveLength(0);
+    expect(deduplicateFuzzy(sales, 0).unique).toHaveLength(4);
+  });
+
+  it('does not chain matches through a middle sale', () => {
+    const chain = [
+      transformRecord(createMockRecord({ parcel_id: 'A', owner_name: 'SMITH JOHN', sale_price: '$300,000' })),
+      transformRecord(createMockRecord({ parcel_id: 'B', owner_name: 'SMITH JOHN & JANE' })),
+      transformRecord(createMockRecord({ parcel_id: 'C', owner_name: 'SMITH JANE' })),
+    ];
+
+    // A matches B and B matches C, but A and C are too far apart
+    const { unique, clusters } = deduplicateFuzzy(chain, 0.97);
+
+    expect(unique.map(s => s.parcel_id)).toEqual(['A', 'C']);
+    expect(clusters).toHaveLength(1);
+    expect(clusters[0].merged.map(m => m.sale.parcel_id)).toEqual(['B']);
+  });
+});
+
+describe('rejected records export', () => {
+  it('combines filter and dedupe rejections and writes CSV and JSON', () => {
+    const outDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rejected-test-'));
+    const config = {
+      classifications: [{ code: '00', name: 'Residential', minSalePrice: 1000, instrumentDenylist: ['Quitclaim'] }],
+      excludedEntityTypes: [],
+      saleTypeModes: { new_construction: 'include', existing_home: 'include', vacant_lot: 'include' },
+    } as unknown as ExtractorConfig;
+
+    try {
+      const rejections = createRejectionLog();
+      const records = deduplicateRawRecords([
+        createMockRecord(),
+        createMockRecord(),
+        createMockRecord({ parcel_id: '2', deed_instrument: 'QC - QUITCLAIM' }),
+      ], rejections);
+      filterRecords(records, config, week, undefined, rejections);
+
+      const entries = rejections.getEntries();
+      expect(summarizeRejections(entries)).toEqual({
+        dedupe_raw: { 'Same parcel, sale date and price': 1 },
+        filter: { deniedInstrument: 1 },
+      });
+
+      const csvPath = writeRejectedCsv(entries, outDir, 'rejected_2025_01_06.csv');
+      const rows = readCsv<Record<string, string>>(csvPath);
+      expect(rows.map(r => [r.stage, r.reason, r.address])).toEqual([
+        ['dedupe_raw', 'Same parcel, sale date and price', '123 MAIN ST'],
+        ['filter', 'deniedInstrument', '123 MAIN ST'],
+      ]);
+
+      const jsonPath = writeRejectedJson(entries, week, outDir, 'rejected_2025_01_06.json');
+      const json = JSON.parse(fs.readFileSync(jsonPath, 'utf-8'));
+      expect(json).toMatchObject({ record_count: 2, by_stage: { filter: { deniedInstrument: 1 } } });
+    } finally {
+      fs.rmSync(outDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * Tests for owner entity classification
+ */
+
+import { describe, it, expect } from 'vitest';
+import { classifyEntity, parseEntityType } from '../src/processors/entity.js';
+
+describe('classifyEntity', () => {
+  it.each([
+    ['SMITH JOHN', 'individual'],
+    ['Doe Jane M', 'individual'],
+    ['SMITH JOHN & MARY', 'couple'],
+    ['SMITH JOHN AND MARY', 'couple'],
+    ['DOE JANE ETUX', 'couple'],
+    ['SMITH FAMILY TRUST', 'trust'],
+    ['DOE JOHN TRUSTEE', 'trust'],
+    ['SMITH JOHN & MARY REVOCABLE LIVING TRUST', 'trust'],
+    ['MAIN STREET PROPERTIES, L.L.C.', 'company'],
+    ['ACME RELOCATION INC', 'company'],
+    ['ABC HOMES LLC', 'builder'],
+    ['D.R. HORTON INC', 'builder'],
+    ['SMITH CONSTRUCTION CO', 'builder'],
+    ['FIRST STATE BANK AND TRUST', 'financial'],
+    ['FEDERAL NATIONAL MORTGAGE ASSOC', 'financial'],
+    ['SECRETARY OF HUD', 'government'],
+    ['CITY OF COVINGTON', 'government'],
+    ['TIPTON COUNTY', 'government'],
+    ['COUNTY LINE HOMES LLC', 'builder'],
+  ])('classifies %s as %s', (name, type) => {
+    expect(classifyEntity(name)).toBe(type);
+  });
+
+  it('returns null without a name', () => {
+    expect(classifyEntity('')).toBeNull();
+    expect(classifyEntity(null)).toBeNull();
+    expect(classifyEntity(' . ')).toBeNull();
+  });
+});
+
+describe('parseEntityType', () => {
+  it('accepts known types in any case', () => {
+    expect(parseEntityType(' Builder ')).toBe('builder');
+    expect(parseEntityType('llc')).toBeNull();
+  });
+});
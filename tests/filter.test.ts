@@ -7,11 +7,23 @@ import {
   isDeniedInstrument,
   isLikelyArmsLength,
   isResidential,
+  getClassificationPolicy,
   filterRecords,
+  getFilterRules,
+  getDefaultFilterRules,
   DEFAULT_INSTRUMENT_DENYLIST,
 } from '../src/processors/filter.js';
-import type { RawParcelRecord, ExtractorConfig } from '../src/types/index.js';
+import { parseFilterRules, loadFilterRules, matchesCondition } from '../src/processors/filter-rules.js';
+import type { FilterRule } from '../src/processors/filter-rules.js';
+import {
+  getClassificationCode,
+  getClassificationName,
+  findClassificationOption,
+} from '../src/config/selectors.js';
+import type { RawParcelRecord, ExtractorConfig, ClassificationPolicy } from '../src/types/index.js';
 import { getWeekRangeFromMonday } from '../src/utils/date-range.js';
+import { validateConfig } from '../src/config/index.js';
+import * as path from 'path';
 
 const mockConfig: ExtractorConfig = {
   outDir: './data',
@@ -20,7 +32,12 @@ const mockConfig: ExtractorConfig = {
   requestDelayMs: 1000,
   minSalePrice: 1000,
   instrumentDenylist: DEFAULT_INSTRUMENT_DENYLIST,
-  countyCode: '084',
+  classifications: [
+    { code: '00', name: 'Residential', minSalePrice: 1000, instrumentDenylist: DEFAULT_INSTRUMENT_DENYLIST },
+  ],
+  excludedEntityTypes: [],
+  saleTypeModes: { new_construction: 'separate', existing_home: 'include', vacant_lot: 'include' },
+  counties: [{ code: '084', name: 'Tipton' }],
   countyName: 'Tipton',
   sendgridApiKey: '',
   emailTo: '',
@@ -31,18 +48,36 @@ const mockConfig: ExtractorConfig = {
 
 const createMockRecord = (overrides: Partial<RawParcelRecord> = {}): RawParcelRecord => ({
   parcel_id: '123-456',
+  county: 'Tipton',
   owner_name: 'John Doe',
+  owner_mailing_address: '',
   property_address: '123 Main St',
   city: 'Covington',
   zip: '38019',
+  location_confidence: 'parcel',
   classification: '00',
   land_use: 'Residential',
   acreage: '0.5',
-  assessed_value: '150000',
+  land_value: '30000',
+  improvement_value: '170000',
+  appraised_value: '200000',
+  assessed_value: '50000',
+  year_built: '1998',
+  finished_sqft: '1,850',
+  building_type: 'Single Family',
+  subdivision: 'MAIN ST ADDN',
+  lot: '12',
   sale_date: '01/08/2025',
   sale_price: '$250,000',
   deed_instrument: 'Warranty Deed',
+  seller_name: 'Acme Homes LLC',
+  buyer_name: 'John Doe',
   qualified_sale: 'Y',
+  book_page: '',
+  vacant_improved: '',
+  prior_sale_date: '',
+  prior_sale_price: '',
+  prior_deed_instrument: '',
   source_url: 'https://example.com/parcel/123-456',
   ...overrides,
 });
@@ -138,6 +173,34 @@ describe('isResidential', () => {
   });
 });
 
+describe('classification policies', () => {
+  it('resolves names and codes from CLASSIFICATIONS', () => {
+    expect(getClassificationCode('residential')).toBe('00');
+    expect(getClassificationCode('State Assessed')).toBe('05');
+    expect(getClassificationCode('10')).toBe('10');
+    expect(getClassificationCode('vineyard')).toBeNull();
+  });
+
+  it('names codes for reports', () => {
+    expect(getClassificationName('00')).toBe('Residential');
+    expect(getClassificationName('05')).toBe('State Assessed');
+    expect(getClassificationName('10')).toBe('Class 10');
+  });
+
+  it('picks the dropdown option by code prefix', () => {
+    const options = ['All Classifications', '00 - Residential', '01 - County'];
+    expect(findClassificationOption(options, '00')).toBe('00 - Residential');
+    expect(findClassificationOption(options, '10')).toBeNull();
+  });
+
+  it('matches records by code, falling back to residential land use', () => {
+    const policies = mockConfig.classifications;
+    expect(getClassificationPolicy(createMockRecord({ classification: '00 - Residential' }), policies)?.name).toBe('Residential');
+    expect(getClassificationPolicy(createMockRecord({ classification: '', land_use: 'Single Family' }), policies)?.name).toBe('Residential');
+    expect(getClassificationPolicy(createMockRecord({ classification: '02', land_use: 'Commercial' }), policies)).toBeNull();
+  });
+});
+
 describe('filterRecords', () => {
   const dateRange = getWeekRangeFromMonday('2025-01-06');
 
@@ -182,7 +245,7 @@ describe('filterRecords', () => {
     expect(result.reasons.outsideDateRange).toBe(1);
   });
 
-  it('filters out non-residential', () => {
+  it('filters out classifications that are not configured', () => {
     const records = [
       createMockRecord({ 
         classification: '02',
@@ -192,7 +255,23 @@ describe('filterRecords', () => {
     
     const result = filterRecords(records, mockConfig, dateRange);
     expect(result.passed).toHaveLength(0);
-    expect(result.reasons.nonResidential).toBe(1);
+    expect(result.reasons.excludedClassification).toBe(1);
+  });
+
+  it('applies each classification its own policy', () => {
+    const farm: ClassificationPolicy = { code: '01', name: 'Farm', minSalePrice: 50000, instrumentDenylist: ['Quitclaim'] };
+    const config = { ...mockConfig, classifications: [...mockConfig.classifications, farm] };
+    const records = [
+      createMockRecord({ classification: '01 - Farm', sale_price: '$60,000' }),
+      createMockRecord({ classification: '01 - Farm', sale_price: '$40,000' }),
+      createMockRecord({ classification: '00', sale_price: '$40,000' }),
+      createMockRecord({ classification: '02', land_use: 'Commercial' }),
+    ];
+
+    const result = filterRecords(records, config, dateRange);
+    expect(result.passed).toHaveLength(2);
+    expect(result.reasons.lowSalePrice).toBe(1);
+    expect(result.reasons.excludedClassification).toBe(1);
   });
 
   it('handles multiple records with different filter reasons', () => {
@@ -209,3 +288,174 @@ describe('filterRecords', () => {
   });
 });
 
+describe('filter rule conditions', () => {
+  const fields = {
+    sale_price: '$250,000',
+    deed_instrument: 'WD - WARRANTY DEED',
+    buyer_name: 'Smith Homes LLC',
+    classification_code: '00',
+    in_date_range: true,
+    zip: '',
+  };
+
+  it('compares text ignoring case and numbers after parsing', () => {
+    expect(matchesCondition({ field: 'deed_instrument', equals: 'wd - warranty deed' }, fields)).toBe(true);
+    expect(matchesCondition({ field: 'deed_instrument', contains: 'warranty' }, fields)).toBe(true);
+    expect(matchesCondition({ field: 'sale_price', equals: 250000 }, fields)).toBe(true);
+    expect(matchesCondition({ field: 'sale_price', gte: 100000, lt: 250000 }, fields)).toBe(false);
+    expect(matchesCondition({ field: 'in_date_range', equals: true }, fields)).toBe(true);
+    expect(matchesCondition({ field: 'zip', equals: '' }, fields)).toBe(true);
+  });
+
+  it('matches regexes, allowlists and denylists', () => {
+    expect(matchesCondition({ field: 'buyer_name', regex: '\\bllc$' }, fields)).toBe(true);
+    expect(matchesCondition({ field: 'buyer_name', regex: '\\bllc$', flags: '' }, fields)).toBe(false);
+    expect(matchesCondition({ field: 'classification_code', oneOf: ['00', '01'] }, fields)).toBe(true);
+    expect(matchesCondition({ field: 'deed_instrument', containsAny: ['Quitclaim', 'Trustee'] }, fields)).toBe(false);
+  });
+
+  it('never matches numeric bounds on missing or non-numeric values', () => {
+    expect(matchesCondition({ field: 'zip', lt: 1 }, fields)).toBe(false);
+    expect(matchesCondition({ field: 'buyer_name', gte: 0 }, fields)).toBe(false);
+    expect(matchesCondition({ field: 'nope', lt: 1 }, fields)).toBe(false);
+  });
+
+  it('combines conditions with all, any and not', () => {
+    expect(matchesCondition({
+      all: [
+        { field: 'classification_code', equals: '00' },
+        { any: [{ field: 'sale_price', lt: 1000 }, { field: 'buyer_name', contains: 'homes' }] },
+      ],
+    }, fields)).toBe(true);
+    expect(matchesCondition({ not: { field: 'classification_code', equals: '00' } }, fields)).toBe(false);
+  });
+});
+
+describe('parseFilterRules', () => {
+  it('accepts a valid rules file', () => {
+    const rules = parseFilterRules({
+      rules: [{ name: 'cheap', action: 'exclude', when: { field: 'sale_price', lt: 1000 }, description: 'Too cheap' }],
+    });
+    expect(rules).toEqual([{ name: 'cheap', action: 'exclude', when: { field: 'sale_price', lt: 1000 }, description: 'Too cheap' }]);
+  });
+
+  it('reports where a rule is wrong', () => {
+    expect(() => parseFilterRules([])).toThrow('"rules" array');
+    expect(() => parseFilterRules({ rules: [{ name: 'a', action: 'drop', when: { field: 'x', equals: 1 } }] }))
+      .toThrow('rules[0].action');
+    expect(() => parseFilterRules({ rules: [{ name: 'a', action: 'exclude', when: { any: [{ field: 'x', like: 'y' }] } }] }))
+      .toThrow('rules[0].when.any[0] has unknown operator(s): like');
+    expect(() => parseFilterRules({ rules: [{ name: 'a', action: 'exclude', when: { field: 'x', regex: '(' } }] }))
+      .toThrow('rules[0].when.regex is invalid');
+    expect(() => parseFilterRules({ rules: [{ name: 'a', action: 'exclude', when: { field: 'x', regex: 'a', flags: 'gi' } }] }))
+      .toThrow('rules[0].when.flags must not include g or y');
+    expect(() => parseFilterRules({
+      rules: [
+        { name: 'a', action: 'exclude', when: { field: 'x', equals: 1 } },
+        { name: 'a', action: 'include', when: { field: 'x', equals: 2 } },
+      ],
+    })).toThrow('used by an earlier rule');
+  });
+
+  it('loads the example rules file', () => {
+    const rules = loadFilterRules(path.join(__dirname, '..', 'examples', 'filter-rules.example.json'));
+    expect(rules.map(r => r.name)).toContain('companyBuyer');
+  });
+});
+
+describe('FILTER_RULES_FILE with config-driven filters', () => {
+  const filterRulesFile = path.join(__dirname, '..', 'examples', 'filter-rules.example.json');
+  const rulesFileErrors = (config: ExtractorConfig) =>
+    validateConfig({ ...config, filterRulesFile }, false).filter(error => error.startsWith('FILTER_RULES_FILE'));
+
+  it('accepts a rules file when no filter settings would be ignored', () => {
+    expect(rulesFileErrors(mockConfig)).toEqual([]);
+  });
+
+  it('rejects per-classification policies, entity types and sale types the rules file would ignore', () => {
+    const [errors] = rulesFileErrors({
+      ...mockConfig,
+      classifications: [
+        { ...mockConfig.classifications[0], minSalePrice: 50000 },
+        { code: '01', name: 'Farm', minSalePrice: 1000, instrumentDenylist: ['Quitclaim'] },
+      ],
+      excludedEntityTypes: ['company'],
+      saleTypeModes: { new_construction: 'separate', existing_home: 'include', vacant_lot: 'exclude' },
+    });
+
+    expect(errors).toContain('MIN_SALE_PRICE_RESIDENTIAL');
+    expect(errors).toContain('INSTRUMENT_DENYLIST_FARM');
+    expect(errors).toContain('EXCLUDE_ENTITY_TYPES');
+    expect(errors).toContain('SALE_TYPE_VACANT_LOT=exclude');
+    expect(errors).not.toContain('SALE_TYPE_NEW_CONSTRUCTION');
+  });
+});
+
+describe('filterRecords with rules', () => {
+  const dateRange = getWeekRangeFromMonday('2025-01-06');
+
+  it('counts filtered records under the name of the first matching rule', () => {
+    const rules: FilterRule[] = [
+      { name: 'keepBigSales', action: 'include', when: { field: 'sale_price', gte: 1000000 } },
+      { name: 'companyBuyer', action: 'exclude', when: { field: 'buyer_name', regex: '\\bLLC\\b' } },
+      { name: 'farEast', action: 'exclude', when: { field: 'zip', oneOf: ['38068'] } },
+    ];
+    const records = [
+      createMockRecord(),
+      createMockRecord({ buyer_name: 'ACME LLC' }),
+      createMockRecord({ buyer_name: 'ACME LLC', sale_price: '$2,000,000' }),
+      createMockRecord({ buyer_name: 'ACME LLC', zip: '38068' }),
+    ];
+
+    const result = filterRecords(records, mockConfig, dateRange, rules);
+    expect(result.passed).toHaveLength(2);
+    expect(result.reasons).toEqual({ companyBuyer: 2, farEast: 0 });
+  });
+
+  it('uses the built-in chain without a rules file', () => {
+    const rules = getFilterRules({ ...mockConfig, filterRulesFile: '' });
+    expect(rules.map(r => r.name)).toEqual([
+      'outsideDateRange',
+      'excludedClassification',
+      'lowSalePrice',
+      'deniedInstrument',
+      'qualifiedSaleFailed',
+    ]);
+  });
+
+  it('excludes owner entity types listed in the config', () => {
+    const config = { ...mockConfig, excludedEntityTypes: ['company', 'builder'] as ExtractorConfig['excludedEntityTypes'] };
+    const records = [
+      createMockRecord(),
+      createMockRecord({ owner_name: 'ACME PROPERTIES LLC' }),
+      createMockRecord({ owner_name: 'ABC HOMES INC' }),
+      createMockRecord({ owner_name: 'SMITH FAMILY TRUST' }),
+    ];
+
+    const result = filterRecords(records, config, dateRange);
+    expect(result.passed.map(r => r.owner_name)).toEqual(['John Doe', 'SMITH FAMILY TRUST']);
+    expect(result.reasons.excludedEntityType).toBe(2);
+    expect(getFilterRules({ ...config, filterRulesFile: '' }).at(-1)?.name).toBe('excludedEntityType');
+  });
+
+  it('excludes sale types set to exclude', () => {
+    const config: ExtractorConfig = {
+      ...mockConfig,
+      saleTypeModes: { new_construction: 'include', existing_home: 'include', vacant_lot: 'exclude' },
+    };
+    const records = [
+      createMockRecord(),
+      createMockRecord({ parcel_id: 'LOT', vacant_improved: 'V' }),
+    ];
+
+    const result = filterRecords(records, config, dateRange);
+    expect(result.passed.map(r => r.parcel_id)).not.toContain('LOT');
+    expect(result.reasons.excludedSaleType).toBe(1);
+    expect(getDefaultFilterRules(mockConfig).map(rule => rule.name)).not.toContain('excludedSaleType');
+  });
+
+  it('treats a missing sale price as low, as the built-in chain always has', () => {
+    const result = filterRecords([createMockRecord({ sale_price: '' })], mockConfig, dateRange);
+    expect(result.reasons.lowSalePrice).toBe(1);
+  });
+});
@@ -0,0 +1,222 @@
+/**
+ * Tests for city/ZIP estimation
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  createGazetteer,
+  loadGazetteer,
+  saveGazetteer,
+  getStreetKey,
+  learnLocations,
+  resolveLocation,
+  fillMissingLocations,
+} from '../src/processors/gazetteer.js';
+import { getZipCode, getCityZipCodes } from '../src/config/zip-codes.js';
+import type { RawParcelRecord } from '../src/types/index.js';
+
+const createMockRecord = (overrides: Partial<RawParcelRecord> = {}): RawParcelRecord => ({
+  parcel_id: '067 05308 000',
+  county: 'Tipton',
+  owner_name: 'SMITH JOHN & JANE',
+  owner_mailing_address: '',
+  property_address: '467 OWEN RD',
+  city: 'BRIGHTON',
+  zip: '38011',
+  location_confidence: 'parcel',
+  classification: '00 - Residential',
+  land_use: '00 - Residential',
+  acreage: '',
+  land_value: '',
+  improvement_value: '',
+  appraised_value: '',
+  assessed_value: '',
+  year_built: '',
+  finished_sqft: '',
+  building_type: '',
+  subdivision: 'OWEN ESTATES',
+  lot: '4',
+  sale_date: '1/6/2025',
+  sale_price: '$312,500',
+  deed_instrument: 'WD - WARRANTY DEED',
+  seller_name: '',
+  buyer_name: '',
+  qualified_sale: 'A - ACCEPTED',
+  book_page: '',
+  vacant_improved: '',
+  prior_sale_date: '',
+  prior_sale_price: '',
+  prior_deed_instrument: '',
+  source_url: '',
+  ...overrides,
+});
+
+/** A search-only record, as left behind when the detail page failed */
+const createUnlocatedRecord = (overrides: Partial<RawParcelRecord> = {}): RawParcelRecord =>
+  createMockRecord({
+    parcel_id: '067 05399 000',
+    property_address: 'OWEN RD 501',
+    city: '',
+    zip: '',
+    location_confidence: 'none',
+    subdivision: '',
+    ...overrides,
+  });
+
+describe('zip code table', () => {
+  it('looks up ZIP and ZIP+4 codes', () => {
+    expect(getZipCode('38019')?.city).toBe('COVINGTON');
+    expect(getZipCode('38011-1234')?.city).toBe('BRIGHTON');
+    expect(getZipCode('99999')).toBeNull();
+  });
+
+  it('lists the ZIP codes for a city within a county', () => {
+    expect(getCityZipCodes('Covington', 'Tipton')).toEqual(['38019']);
+    expect(getCityZipCodes('Cordova', 'Shelby')).toEqual(['38016', '38018']);
+    expect(getCityZipCodes('Covington', 'Shelby')).toEqual([]);
+  });
+});
+
+describe('getStreetKey', () => {
+  it('drops the house number from either end', () => {
+    expect(getStreetKey('OWEN RD 467')).toBe('OWEN RD');
+    expect(getStreetKey('467 Owen Rd')).toBe('OWEN RD');
+    expect(getStreetKey('  MAIN   ST  113 ')).toBe('MAIN ST');
+  });
+
+  it('keeps numbered street names', () => {
+    expect(getStreetKey('HWY 51 N 1200')).toBe('HWY 51 N');
+  });
+});
+
+describe('learnLocations', () => {
+  it('learns from records with a city and ZIP from their detail page', () => {
+    const gazetteer = createGazetteer();
+    const learned = learnLocations(gazetteer, [
+      createMockRecord(),
+      createUnlocatedRecord(),
+    ]);
+
+    expect(learned).toBe(1);
+    expect(gazetteer.counties.Tipton.streets['OWEN RD']).toEqual({ '067 05308 000': 'BRIGHTON|38011' });
+    expect(gazetteer.counties.Tipton.subdivisions['OWEN ESTATES']).toEqual({ '067 05308 000': 'BRIGHTON|38011' });
+  });
+
+  it('ignores ZIP codes outside the county', () => {
+    const gazetteer = createGazetteer();
+    learnLocations(gazetteer, [createMockRecord({ city: 'MEMPHIS', zip: '38117' })]);
+
+    expect(gazetteer.counties.Tipton).toBeUndefined();
+  });
+
+  it('counts a parcel once however many runs it appears in', () => {
+    const gazetteer = createGazetteer();
+    learnLocations(gazetteer, [createMockRecord()]);
+    learnLocations(gazetteer, [createMockRecord()]);
+
+    expect(Object.keys(gazetteer.counties.Tipton.streets['OWEN RD'])).toHaveLength(1);
+  });
+});
+
+describe('resolveLocation', () => {
+  const neighbours = (locations: [string, string][]) => {
+    const gazetteer = createGazetteer();
+    learnLocations(gazetteer, locations.map(([city, zip], i) =>
+      createMockRecord({ parcel_id: `067 0530${i} 000`, city, zip, subdivision: '' })
+    ));
+    return gazetteer;
+  };
+
+  it('is highly confident when several parcels on the street agree', () => {
+    const gazetteer = neighbours([['BRIGHTON', '38011'], ['BRIGHTON', '38011']]);
+    expect(resolveLocation(gazetteer, 'Tipton', 'OWEN RD 501', '')).toEqual({
+      city: 'BRIGHTON',
+      zip: '38011',
+      confidence: 'high',
+    });
+  });
+
+  it('is less confident with one parcel or a mixed street', () => {
+    expect(resolveLocation(neighbours([['BRIGHTON', '38011']]), 'Tipton', 'OWEN RD 501', '')?.confidence)
+      .toBe('medium');
+
+    const mixed = neighbours([['BRIGHTON', '38011'], ['BRIGHTON', '38011'], ['ATOKA', '38004']]);
+    expect(resolveLocation(mixed, 'Tipton', 'OWEN RD 501', '')).toMatchObject({
+      city: 'BRIGHTON',
+      confidence: 'low',
+    });
+  });
+
+  it('prefers the subdivision unless the street is more consistent', () => {
+    const gazetteer = createGazetteer();
+    learnLocations(gazetteer, [
+      createMockRecord({ parcel_id: '1', property_address: '10 OWEN RD', subdivision: 'OWEN ESTATES' }),
+      createMockRecord({ parcel_id: '2', property_address: '20 OWEN RD', subdivision: '' }),
+      createMockRecord({ parcel_id: '5', property_address: '40 OWEN RD', subdivision: '' }),
+      createMockRecord({
+        parcel_id: '3',
+        property_address: '30 OWEN RD',
+        city: 'ATOKA',
+        zip: '38004',
+        subdivision: 'OWEN ESTATES',
+      }),
+      createMockRecord({ parcel_id: '4', property_address: '5 ELM ST', city: 'ATOKA', zip: '38004', subdivision: 'ELM PARK' }),
+    ]);
+
+    expect(resolveLocation(gazetteer, 'Tipton', 'ELM ST 9', 'ELM PARK')?.city).toBe('ATOKA');
+    // OWEN ESTATES is split 1-1, OWEN RD is 3-1 for Brighton
+    expect(resolveLocation(gazetteer, 'Tipton', 'OWEN RD 501', 'OWEN ESTATES')?.city).toBe('BRIGHTON');
+  });
+
+  it('returns null for unknown counties and streets', () => {
+    const gazetteer = neighbours([['BRIGHTON', '38011']]);
+    expect(resolveLocation(gazetteer, 'Shelby', 'OWEN RD 501', '')).toBeNull();
+    expect(resolveLocation(gazetteer, 'Tipton', 'MAIN ST 113', '')).toBeNull();
+  });
+});
+
+describe('fillMissingLocations', () => {
+  it('fills city and ZIP with a confidence flag', () => {
+    const gazetteer = createGazetteer();
+    learnLocations(gazetteer, [createMockRecord()]);
+
+    const [located, unknown] = fillMissingLocations([
+      createUnlocatedRecord(),
+      createUnlocatedRecord({ property_address: 'MAIN ST 113' }),
+    ], gazetteer);
+
+    expect(located).toMatchObject({ city: 'BRIGHTON', zip: '38011', location_confidence: 'medium' });
+    expect(unknown).toMatchObject({ city: '', zip: '', location_confidence: 'none' });
+  });
+
+  it('leaves detail-page locations alone, filling only a missing ZIP', () => {
+    const [complete, noZip] = fillMissingLocations([
+      createMockRecord(),
+      createMockRecord({ city: 'COVINGTON', zip: '' }),
+    ], createGazetteer());
+
+    expect(complete).toEqual(createMockRecord());
+    expect(noZip).toMatchObject({ city: 'COVINGTON', zip: '38019', location_confidence: 'parcel' });
+  });
+});
+
+describe('gazetteer persistence', () => {
+  it('saves and reloads, starting empty when there is no file', () => {
+    const outDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gazetteer-test-'));
+
+    try {
+      expect(loadGazetteer(outDir).counties).toEqual({});
+
+      const gazetteer = createGazetteer();
+      learnLocations(gazetteer, [createMockRecord()]);
+      saveGazetteer(outDir, gazetteer);
+
+      expect(loadGazetteer(outDir).counties).toEqual(gazetteer.counties);
+    } finally {
+      fs.rmSync(outDir, { recursive: true, force: true });
+    }
+  });
+});
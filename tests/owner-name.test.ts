@@ -0,0 +1,85 @@
+/**
+ * Tests for owner name mail-merge fields
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseOwnerName, toNameCase } from '../src/processors/owner-name.js';
+
+describe('parseOwnerName', () => {
+  it('splits a couple sharing a last name', () => {
+    expect(parseOwnerName('SMITH, JOHN & JANE')).toEqual({
+      owner_first_name: 'John',
+      owner_middle_name: '',
+      owner_last_name: 'Smith',
+      owner_suffix: '',
+      co_owner_first_name: 'Jane',
+      co_owner_last_name: 'Smith',
+      household_name: 'John & Jane Smith',
+      salutation: 'Dear John and Jane',
+    });
+  });
+
+  it('reads middle names and suffixes', () => {
+    expect(parseOwnerName('SMITH JOHN A JR & JANE B')).toMatchObject({
+      owner_first_name: 'John',
+      owner_middle_name: 'A',
+      owner_last_name: 'Smith',
+      owner_suffix: 'Jr',
+      co_owner_first_name: 'Jane',
+      household_name: 'John & Jane Smith',
+    });
+    expect(parseOwnerName('SMITH JR, JOHN')).toMatchObject({ owner_suffix: 'Jr', household_name: 'John Smith Jr' });
+  });
+
+  it('treats ETUX and ETVIR as co-owners', () => {
+    expect(parseOwnerName('SMITH JOHN ETUX JANE').household_name).toBe('John & Jane Smith');
+    expect(parseOwnerName('DOE JANE ETVIR JOHN').salutation).toBe('Dear Jane and John');
+    expect(parseOwnerName('DOE JANE ETUX')).toMatchObject({ co_owner_first_name: '', household_name: 'Jane Doe' });
+  });
+
+  it('drops life estate and trustee markers', () => {
+    expect(parseOwnerName('DOE JANE LIFE ESTATE')).toMatchObject({ household_name: 'Jane Doe', salutation: 'Dear Jane' });
+    expect(parseOwnerName('SMITH JOHN TRUSTEE')).toMatchObject({ household_name: 'John Smith', salutation: 'Dear John' });
+    expect(parseOwnerName('SMITH JOHN LE & JANE TR')).toMatchObject({ household_name: 'John & Jane Smith' });
+    expect(parseOwnerName('DOE JANE TRS')).toMatchObject({ household_name: 'Jane Doe' });
+  });
+
+  it('keeps LE and TR when they are part of the name', () => {
+    expect(parseOwnerName('LE MINH & HOA')).toMatchObject({
+      owner_first_name: 'Minh',
+      owner_last_name: 'Le',
+      household_name: 'Minh & Hoa Le',
+      salutation: 'Dear Minh and Hoa',
+    });
+    expect(parseOwnerName('NGUYEN LE')).toMatchObject({ owner_first_name: 'Le', household_name: 'Le Nguyen' });
+  });
+
+  it('keeps separate last names when the co-owner has their own comma', () => {
+    expect(parseOwnerName('SMITH, JOHN & DOE, JANE')).toMatchObject({
+      co_owner_last_name: 'Doe',
+      household_name: 'John Smith & Jane Doe',
+    });
+  });
+
+  it('leaves entities as written', () => {
+    expect(parseOwnerName('ABC HOMES, L.L.C.')).toMatchObject({
+      owner_last_name: '',
+      household_name: 'ABC HOMES, L.L.C.',
+      salutation: 'Dear Homeowner',
+    });
+    expect(parseOwnerName('SMITH FAMILY TRUST').salutation).toBe('Dear Homeowner');
+  });
+
+  it('falls back without a first name or any name', () => {
+    expect(parseOwnerName('SMITH').salutation).toBe('Dear Smith Family');
+    expect(parseOwnerName('')).toMatchObject({ household_name: '', salutation: 'Dear Homeowner' });
+    expect(parseOwnerName(null).salutation).toBe('Dear Homeowner');
+  });
+});
+
+describe('toNameCase', () => {
+  it('capitalizes name parts', () => {
+    expect(toNameCase('MCDONALD')).toBe('McDonald');
+    expect(toNameCase("O'BRIEN-SMITH")).toBe("O'Brien-Smith");
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * Tests for the TPAD page parsers
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseOwnerCard,
+  parseLocationAddress,
+  parseClassification,
+  isSalesTable,
+  parseSalesRows,
+  parseLabeledValues,
+  parseCharacteristics,
+  assignSaleParties,
+} from '../src/scraper/parsers.js';
+import { parcelDetailsToRawRecord, parcelDetailsToSalesHistory } from '../src/scraper/parcel-details.js';
+import type { ParcelDetails } from '../src/types/index.js';
+
+const ownerText = `
+  January 1 Owner
+  HOLT BUILDERS LLC
+  PO BOX 1220
+  MILLINGTON TN 38083
+  Current Owner
+  SMITH JOHN & JANE
+  467 OWEN RD
+  BRIGHTON TN 38011
+`;
+
+const salesRows = [
+  ['1/6/2025', '$312,500', '1840', '221', 'I', 'WD - WARRANTY DEED', 'A - ACCEPTED'],
+  ['3/14/2024', '$45,000', '1791', '87', 'V', 'WD - WARRANTY DEED', 'A - ACCEPTED'],
+];
+
+const characteristicsSource = {
+  generalInfo: 'Parcel ID: 067 05308 000\nClass: 00 - Residential\nSubdivision: OWEN ESTATES\nLot: 4\nDeeded Acreage: 1.25',
+  values: 'Land Market Value: $45,000\nImprovement Value: $280,000\nTotal Market Appraisal: $325,000\n' +
+    'Assessment Percentage: 25%\nAssessment: $81,250',
+  tables: [{
+    headers: ['building', 'type', 'year built', 'square footage'],
+    rows: [['1', 'Single Family', '2024', '2,150']],
+  }],
+};
+
+describe('parseOwnerCard', () => {
+  it('reads current owner, property address and mailing address', () => {
+    expect(parseOwnerCard(ownerText)).toEqual({
+      januaryOwner: 'HOLT BUILDERS LLC',
+      januaryAddress: 'PO BOX 1220, MILLINGTON TN 38083',
+      currentOwner: 'SMITH JOHN & JANE',
+      currentAddress: '467 OWEN RD',
+      currentCity: 'BRIGHTON',
+      currentState: 'TN',
+      currentZip: '38011',
+    });
+  });
+
+  it('returns empty fields when the sections are missing', () => {
+    expect(parseOwnerCard('Nothing here').currentOwner).toBe('');
+  });
+});
+
+describe('card text helpers', () => {
+  it('reads the location address without running into the next line', () => {
+    expect(parseLocationAddress('Address: OWEN RD 467\nMap: 067')).toBe('OWEN RD 467');
+  });
+
+  it('reads the classification code and label', () => {
+    expect(parseClassification('Parcel ID: 067 05308 000\nClass: 00 - Residential')).toBe('00 - Residential');
+  });
+
+});
+
+describe('sales table parsing', () => {
+  it('recognizes the sales table by its headers', () => {
+    expect(isSalesTable(['sale date', 'price', 'book', 'page', 'vacant/improved', 'type instrument', 'qualification'])).toBe(true);
+    expect(isSalesTable(['building type', 'year built'])).toBe(false);
+  });
+
+  it('skips short rows and joins book and page', () => {
+    const sales = parseSalesRows([
+      ['1/6/2025', '$312,500', '1840', '221', 'I', 'WD - WARRANTY DEED', 'A - ACCEPTED'],
+      ['No sales'],
+    ]);
+
+    expect(sales).toHaveLength(1);
+    expect(sales[0].book_page).toBe('1840-221');
+    expect(sales[0].vacant_improved).toBe('I');
+  });
+});
+
+describe('sales history', () => {
+  const owner = parseOwnerCard(ownerText);
+  const details: ParcelDetails = {
+    parcel_id: '067    05308 000',
+    owner_name: owner.currentOwner,
+    owner_mailing_address: owner.januaryAddress,
+    property_address: owner.currentAddress,
+    city: owner.currentCity,
+    zip: owner.currentZip,
+    classification: '00 - Residential',
+    land_use: '00 - Residential',
+    characteristics: parseCharacteristics(characteristicsSource),
+    sales: assignSaleParties(parseSalesRows(salesRows), owner, 2025),
+    source_url: 'http://x/Parcel',
+  };
+
+  it('attaches the previous sale to each sale record', () => {
+    expect(parcelDetailsToRawRecord(details, details.sales[0], 'Tipton')).toMatchObject({
+      sale_date: '1/6/2025',
+      prior_sale_date: '3/14/2024',
+      prior_sale_price: '$45,000',
+      prior_deed_instrument: 'WD - WARRANTY DEED',
+    });
+    expect(parcelDetailsToRawRecord(details, details.sales[1], 'Tipton')).toMatchObject({
+      prior_sale_date: '',
+      prior_sale_price: '',
+      prior_deed_instrument: '',
+    });
+  });
+
+  it('lists every sale newest first with parsed dates and prices', () => {
+    const history = parcelDetailsToSalesHistory(details, 'Tipton');
+
+    expect(history.map(h => [h.sale_date, h.sale_price])).toEqual([
+      ['2025-01-06', 312500],
+      ['2024-03-14', 45000],
+    ]);
+    expect(history[0]).toMatchObject({
+      county: 'Tipton',
+      property_address: '467 OWEN RD',
+      seller_name: 'HOLT BUILDERS LLC',
+      buyer_name: 'SMITH JOHN & JANE',
+      book_page: expect.stringContaining('1840'),
+    });
+  });
+});
+
+describe('assignSaleParties', () => {
+  const owner = parseOwnerCard(ownerText);
+  // Oldest first, to check that sales are ordered by date rather than table position
+  const rows = [...salesRows].reverse();
+
+  it('uses the January 1 and current owners for the newest sale and chains older sales', () => {
+    const sales = assignSaleParties(parseSalesRows(rows), owner, 2025);
+
+    expect(sales[1]).toMatchObject({ grantor: 'HOLT BUILDERS LLC', grantee: 'SMITH JOHN & JANE' });
+    expect(sales[0]).toMatchObject({ grantor: '', grantee: 'HOLT BUILDERS LLC' });
+  });
+
+  it('leaves the seller blank when the owner has not changed since January 1', () => {
+    const sales = assignSaleParties(parseSalesRows(rows), { ...owner, januaryOwner: owner.currentOwner }, 2025);
+
+    expect(sales[1]).toMatchObject({ grantor: '', grantee: 'SMITH JOHN & JANE' });
+    expect(sales[0]).toMatchObject({ grantor: '', grantee: '' });
+  });
+
+  it('does not guess the seller when the parcel sold more than once since January 1', () => {
+    const resale = ['2/20/2025', '$340,000', '1852', '14', 'I', 'WD - WARRANTY DEED', 'A - ACCEPTED'];
+    const sales = assignSaleParties(parseSalesRows([...rows, resale]), owner, 2025);
+
+    // The January 1 owner sold on 1/6 to the owner who resold on 2/20
+    expect(sales[2]).toMatchObject({ grantor: '', grantee: 'SMITH JOHN & JANE' });
+    expect(sales[1]).toMatchObject({ grantor: '', grantee: '' });
+    expect(sales[0]).toMatchObject({ grantor: '', grantee: '' });
+  });
+
+  it('leaves the seller blank when the newest sale is before January 1', () => {
+    const sales = assignSaleParties(parseSalesRows(rows), owner, 2026);
+    expect(sales[1]).toMatchObject({ grantor: '', grantee: 'SMITH JOHN & JANE' });
+  });
+
+  it('leaves sales untouched without an owner card', () => {
+    const sales = assignSaleParties(parseSalesRows(rows), null, 2025);
+    expect(sales.every(s => s.grantor === '' && s.grantee === '')).toBe(true);
+  });
+});
+
+describe('property characteristics', () => {
+  it('reads several labeled fields from one line', () => {
+    const values = parseLabeledValues('Map: 067 Group: Parcel: 053.08\nDeeded Acreage: 1.25');
+
+    expect(values.get('map')).toBe('067');
+    expect(values.get('group')).toBe('');
+    expect(values.get('parcel')).toBe('053.08');
+    expect(values.get('deeded acreage')).toBe('1.25');
+  });
+
+  it('reads lot, value and building details from the parcel page cards', () => {
+    expect(parseCharacteristics(characteristicsSource)).toEqual({
+      acreage: '1.25',
+      land_value: '$45,000',
+      improvement_value: '$280,000',
+      appraised_value: '$325,000',
+      assessed_value: '$81,250',
+      year_built: '2024',
+      finished_sqft: '2,150',
+      building_type: 'Single Family',
+      subdivision: 'OWEN ESTATES',
+      lot: '4',
+    });
+  });
+
+  it('leaves fields empty when the page does not list them', () => {
+    const characteristics = parseCharacteristics({ generalInfo: 'Class: 00 - Residential', values: '', tables: [] });
+
+    expect(characteristics.acreage).toBe('');
+    expect(characteristics.year_built).toBe('');
+  });
+});
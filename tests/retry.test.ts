@@ -0,0 +1,113 @@
+/**
+ * Tests for retry and rate limiting utilities
+ */
+
+import { describe, it, expect } from 'vitest';
+import { withRetry, isNetworkRetryable, createAdaptiveRateLimiter } from '../src/utils/retry.js';
+
+describe('withRetry', () => {
+  it('calls onRetry before each retry and returns the eventual result', async () => {
+    const retries: number[] = [];
+    let calls = 0;
+
+    const result = await withRetry(async () => {
+      if (++calls < 3) {
+        throw new Error('socket hang up');
+      }
+      return 'done';
+    }, {
+      maxRetries: 3,
+      initialDelayMs: 1,
+      isRetryable: isNetworkRetryable,
+      onRetry: (attempt) => retries.push(attempt),
+    });
+
+    expect(result).toBe('done');
+    expect(retries).toEqual([1, 2]);
+  });
+
+  it('does not retry errors that are not retryable', async () => {
+    let retried = false;
+
+    await expect(withRetry(async () => {
+      throw new Error('HTTP 404 Not Found');
+    }, {
+      initialDelayMs: 1,
+      isRetryable: isNetworkRetryable,
+      onRetry: () => { retried = true; },
+    })).rejects.toThrow('HTTP 404');
+
+    expect(retried).toBe(false);
+  });
+
+  it('treats throttling responses as retryable', () => {
+    expect(isNetworkRetryable(new Error('HTTP 429 Too Many Requests for http://x'))).toBe(true);
+    expect(isNetworkRetryable(new Error('HTTP 503 Service Unavailable for http://x'))).toBe(true);
+  });
+});
+
+describe('createAdaptiveRateLimiter', () => {
+  const create = (baseDelayMs = 1000) => createAdaptiveRateLimiter({
+    baseDelayMs,
+    maxDelayMs: 10000,
+    slowResponseMs: 5000,
+  });
+
+  it('backs off on throttling, server errors and slow responses', () => {
+    const limiter = create();
+
+    limiter.recordResponse(429, 100);
+    expect(limiter.getDelayMs()).toBe(2000);
+
+    limiter.recordResponse(503, 100);
+    expect(limiter.getDelayMs()).toBe(4000);
+
+    limiter.recordResponse(500, 100);
+    expect(limiter.getDelayMs()).toBe(6000);
+
+    limiter.recordResponse(200, 8000);
+    expect(limiter.getDelayMs()).toBe(9000);
+
+    limiter.recordResponse(0, 30000);
+    expect(limiter.getDelayMs()).toBe(10000);
+  });
+
+  it('backs off from a zero base delay', () => {
+    const limiter = create(0);
+    limiter.recordResponse(429, 100);
+    expect(limiter.getDelayMs()).toBe(2000);
+  });
+
+  it('eases back to the base delay after a run of healthy responses', () => {
+    const limiter = create();
+    limiter.recordResponse(429, 100);
+    limiter.recordResponse(429, 100);
+    expect(limiter.getDelayMs()).toBe(4000);
+
+    const healthy = (count: number) => {
+      for (let i = 0; i < count; i++) limiter.recordResponse(200, 100);
+    };
+
+    healthy(4);
+    expect(limiter.getDelayMs()).toBe(4000);
+    healthy(1);
+    expect(limiter.getDelayMs()).toBe(3000);
+    healthy(25);
+    expect(limiter.getDelayMs()).toBe(1000);
+  });
+
+  it('ignores client errors', () => {
+    const limiter = create();
+    limiter.recordResponse(404, 100);
+    expect(limiter.getDelayMs()).toBe(1000);
+  });
+
+  it('spaces out concurrent callers by the current delay', async () => {
+    const limiter = create(30);
+    const started = Date.now();
+
+    await Promise.all([limiter.wait(), limiter.wait(), limiter.wait()]);
+
+    expect(Date.now() - started).toBeGreaterThanOrEqual(55);
+  });
+});
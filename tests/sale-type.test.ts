@@ -0,0 +1,58 @@
+/**
+ * Tests for vacant lot / existing home / new construction tagging
+ */
+
+import { describe, it, expect } from 'vitest';
+import { classifySaleType, parseVacantImproved } from '../src/processors/sale-type.js';
+import type { SaleTypeSignals } from '../src/processors/sale-type.js';
+
+const signals = (overrides: Partial<SaleTypeSignals> = {}): SaleTypeSignals => ({
+  vacant_improved: 'I',
+  seller_entity_type: 'individual',
+  year_built: 1998,
+  sale_date: '2025-01-06',
+  ...overrides,
+});
+
+describe('parseVacantImproved', () => {
+  it('reads the letter or the word', () => {
+    expect(parseVacantImproved('V')).toBe('vacant');
+    expect(parseVacantImproved('Vacant')).toBe('vacant');
+    expect(parseVacantImproved(' i ')).toBe('improved');
+    expect(parseVacantImproved('IMPROVED')).toBe('improved');
+    expect(parseVacantImproved('')).toBeNull();
+    expect(parseVacantImproved(undefined)).toBeNull();
+  });
+});
+
+describe('classifySaleType', () => {
+  it('tags parcels sold vacant as vacant lots', () => {
+    expect(classifySaleType(signals({ vacant_improved: 'V', seller_entity_type: 'builder' }))).toBe('vacant_lot');
+  });
+
+  it('tags a recent home sold by a builder as new construction', () => {
+    expect(classifySaleType(signals({ seller_entity_type: 'builder', year_built: 2024 }))).toBe('new_construction');
+    expect(classifySaleType(signals({ seller_entity_type: 'builder', year_built: null }))).toBe('new_construction');
+  });
+
+  it('counts a company selling a just-built home as the builder', () => {
+    expect(classifySaleType(signals({ seller_entity_type: 'company', year_built: 2025 }))).toBe('new_construction');
+  });
+
+  it('needs a builder or company seller for new construction', () => {
+    expect(classifySaleType(signals({ seller_entity_type: null, year_built: 2024 }))).toBe('existing_home');
+    expect(classifySaleType(signals({ seller_entity_type: 'financial', year_built: 2024 }))).toBe('existing_home');
+    expect(classifySaleType(signals({ seller_entity_type: 'government', year_built: 2024 }))).toBe('existing_home');
+  });
+
+  it('tags resales as existing homes', () => {
+    expect(classifySaleType(signals())).toBe('existing_home');
+    expect(classifySaleType(signals({ year_built: 2024 }))).toBe('existing_home');
+    expect(classifySaleType(signals({ seller_entity_type: 'builder', year_built: 1998 }))).toBe('existing_home');
+    expect(classifySaleType(signals({ vacant_improved: '', year_built: null, seller_entity_type: null }))).toBe('existing_home');
+  });
+
+  it('reads a house built after the sale as a vacant lot when the column is missing', () => {
+    expect(classifySaleType(signals({ vacant_improved: '', year_built: 2026 }))).toBe('vacant_lot');
+  });
+});
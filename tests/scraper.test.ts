@@ -0,0 +1,869 @@
+/**
+ * Tests for the TPAD scraper against a local stand-in server
+ *
+ * The browser tests drive real Playwright and are skipped when Chromium is not
+ * installed (run `npx playwright install chromium` to enable them).
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { chromium } from 'playwright';
+import type { Page } from 'playwright';
+import { startTpadServer, loadFixtureResults } from './support/tpad-server.js';
+import type { TpadTestServer } from './support/tpad-server.js';
+import { BrowserManager, getContextOptions } from '../src/scraper/browser.js';
+import {
+  navigateToSearch,
+  executeSearch,
+  createSearchParams,
+  hasResults,
+  getResultCount,
+  extractResultsFromPage,
+  searchResultToRawRecord,
+  hasNextPage,
+  goToNextPage,
+  formatAddressQuery,
+} from '../src/scraper/search.js';
+import { extractParcelDetails } from '../src/scraper/parcel-details.js';
+import { TpadClient, applyCachedDetails, buildExtractionResult } from '../src/scraper/tpad-client.js';
+import { createPagePool } from '../src/scraper/page-pool.js';
+import {
+  getCheckpointPath,
+  createCheckpoint,
+  saveCheckpoint,
+  isCheckpointCompatible,
+  getUnfetchedParcels,
+  getParcelKey,
+} from '../src/scraper/checkpoint.js';
+import { openParcelCache, getParcelCachePath } from '../src/scraper/parcel-cache.js';
+import {
+  createScrapeRecorder,
+  categorizeError,
+  writeScrapeReport,
+  getArtifactDir,
+  captureFailureArtifacts,
+  removeFailureArtifacts,
+} from '../src/scraper/scrape-report.js';
+import { runSiteCheck, getSiteCheckDiff, formatSiteCheckTable } from '../src/scraper/site-check.js';
+import type { SiteCheckReport } from '../src/scraper/site-check.js';
+import { runLookup, validateLookupQuery, formatLookupResult } from '../src/scraper/lookup.js';
+import type { LookupResult } from '../src/scraper/lookup.js';
+import { getWeekRangeFromMonday } from '../src/utils/date-range.js';
+import { DEFAULT_INSTRUMENT_DENYLIST } from '../src/processors/filter.js';
+import type { ExtractorConfig, ParcelDetails } from '../src/types/index.js';
+
+const chromiumInstalled = fs.existsSync(chromium.executablePath());
+
+const BROWSER_TEST_TIMEOUT = 60000;
+
+const createTestConfig = (overrides: Partial<ExtractorConfig> = {}): ExtractorConfig => ({
+  outDir: fs.mkdtempSync(path.join(os.tmpdir(), 'tpad-test-')),
+  headless: true,
+  exportSalesHistory: false,
+  browserProxyServer: '',
+  browserProxyUsername: '',
+  browserProxyPassword: '',
+  browserLocale: 'en-US',
+  browserTimezone: 'America/Chicago',
+  browserTimeoutMs: 30000,
+  browserNavigationTimeoutMs: 60000,
+  browserStorageState: '',
+  browserBlockedResources: ['image', 'media', 'font'],
+  browserIsolateWorkers: false,
+  concurrency: 2,
+  requestDelayMs: 0,
+  maxRequestDelayMs: 30000,
+  slowResponseMs: 10000,
+  parcelCacheTtlHours: 168,
+  maxSearchResults: 500,
+  minSalePrice: 1000,
+  instrumentDenylist: DEFAULT_INSTRUMENT_DENYLIST,
+  classifications: [
+    { code: '00', name: 'Residential', minSalePrice: 1000, instrumentDenylist: DEFAULT_INSTRUMENT_DENYLIST },
+  ],
+  excludedEntityTypes: [],
+  saleTypeModes: { new_construction: 'separate', existing_home: 'include', vacant_lot: 'include' },
+  filterRulesFile: '',
+  fuzzyDedupeThreshold: 0,
+  counties: [{ code: '084', name: 'Tipton' }],
+  countyName: 'Tipton',
+  tpadBaseUrl: 'http://127.0.0.1/TPAD',
+  scraperBackend: 'playwright',
+  sendgridApiKey: '',
+  emailTo: '',
+  emailFrom: '',
+  s3Bucket: '',
+  awsRegion: 'us-east-1',
+  googleMapsApiKey: '',
+  mapImageType: 'streetview',
+  mapImageWidth: 600,
+  mapImageHeight: 300,
+  ...overrides,
+});
+
+const tipton = { code: '084', name: 'Tipton' };
+const shelby = { code: '079', name: 'Shelby' };
+
+const week = getWeekRangeFromMonday('2025-01-06');
+const emptyWeek = getWeekRangeFromMonday('2024-06-03');
+
+describe('searchResultToRawRecord', () => {
+  const [row] = loadFixtureResults();
+
+  it('resolves the view link against the configured base URL', () => {
+    const record = searchResultToRawRecord(row, tipton, 'http://127.0.0.1:8080/TPAD');
+    expect(record.source_url).toBe(
+      'http://127.0.0.1:8080/TPAD/Parcel/Details?parcelId=067%20%20%20%2005308%20000'
+    );
+  });
+
+  it('defaults to the live TPAD site', () => {
+    const record = searchResultToRawRecord(row, tipton);
+    expect(record.source_url.startsWith('https://assessment.cot.tn.gov/TPAD/Parcel/Details')).toBe(true);
+  });
+
+  it('tags the record with its county', () => {
+    expect(searchResultToRawRecord(row, tipton).county).toBe('Tipton');
+  });
+
+  it('leaves city and ZIP for the detail page or gazetteer to fill', () => {
+    expect(searchResultToRawRecord(row, tipton)).toMatchObject({
+      city: '',
+      zip: '',
+      location_confidence: 'none',
+    });
+  });
+});
+
+describe('site check reporting', () => {
+  const report: SiteCheckReport = {
+    checkedAt: '2025-01-13T12:00:00.000Z',
+    baseUrl: 'http://127.0.0.1/TPAD',
+    parcelUrl: null,
+    passed: false,
+    checks: [
+      { stage: 'search', name: 'County dropdown', selector: '#countySelect', expected: 'present', actual: '1 found', passed: true },
+      { stage: 'results', name: 'Results table', selector: '#searchResultsTable', expected: 'present', actual: 'missing', passed: false },
+    ],
+  };
+
+  it('lists only the failed checks in the diff', () => {
+    const diff = getSiteCheckDiff(report);
+    expect(diff).toMatchObject({ passed: false, failed: 1, total: 2 });
+    expect(diff.missing).toEqual([
+      { stage: 'results', name: 'Results table', selector: '#searchResultsTable', expected: 'present', actual: 'missing' },
+    ]);
+  });
+
+  it('formats a pass/fail table', () => {
+    const lines = formatSiteCheckTable(report).split('\n');
+    expect(lines).toHaveLength(4);
+    expect(lines[2].startsWith('PASS')).toBe(true);
+    expect(lines[3].startsWith('FAIL')).toBe(true);
+    expect(lines[3]).toContain('Results table');
+  });
+});
+
+describe('scrape report', () => {
+  it('categorizes errors by message', () => {
+    expect(categorizeError(new Error('page.goto: Timeout 30000ms exceeded'))).toBe('timeout');
+    expect(categorizeError(new Error('HTTP 503 Service Unavailable for http://x'))).toBe('http');
+    expect(categorizeError(new Error('connect ECONNREFUSED 127.0.0.1:80'))).toBe('network');
+    expect(categorizeError(new Error('Target closed'))).toBe('browser');
+    expect(categorizeError(new Error('No owner or sales found in page'))).toBe('parse');
+    expect(categorizeError(new Error('something odd'))).toBe('unknown');
+  });
+
+  it('times phases and marks fallbacks on recorded parcels', async () => {
+    const recorder = createScrapeRecorder(week);
+    const entry = {
+      key: '084:1', county: 'Tipton', parcelId: '1', url: '', backend: 'playwright' as const,
+      status: 'ok' as const, cached: false, retries: 1, durationMs: 10, errorCategory: null, error: null, artifacts: {},
+    };
+
+    await recorder.time({ phase: 'details' }, async () => {
+      recorder.recordParcel(entry);
+      recorder.recordParcel({ ...entry, key: '084:2', parcelId: '2', retries: 2 });
+    });
+    await expect(recorder.time({ phase: 'search' }, async () => {
+      throw new Error('boom');
+    })).rejects.toThrow('boom');
+
+    recorder.setParcelStatus('084:2', 'fallback', 'No sales on detail page');
+    recorder.setParcelStatus('084:missing', 'fallback');
+
+    const report = recorder.getReport();
+    expect(report.phases.map(p => p.phase)).toEqual(['details', 'search']);
+    expect(report.summary).toMatchObject({ parcels: 2, ok: 1, fallback: 1, retries: 3 });
+    expect(report.parcels[1].error).toBe('No sales on detail page');
+  });
+
+  it('names artifacts after the parcel, so a failed retry replaces the earlier files', async () => {
+    const outDir = fs.mkdtempSync(path.join(os.tmpdir(), 'scrape-report-test-'));
+    let attempt = 0;
+    const page = {
+      isClosed: () => false,
+      screenshot: async ({ path: filePath }: { path: string }) => fs.writeFileSync(filePath, `png ${attempt}`),
+      content: async () => `<html>${attempt}</html>`,
+    } as unknown as Page;
+
+    try {
+      attempt = 1;
+      const first = await captureFailureArtifacts(page, outDir, week, '084:067    05308 000');
+      attempt = 2;
+      const second = await captureFailureArtifacts(page, outDir, week, '084:067    05308 000');
+
+      expect(second).toEqual(first);
+      expect(path.basename(second.screenshot!)).toBe('084_067_05308_000.png');
+      expect(fs.readdirSync(getArtifactDir(outDir, week))).toHaveLength(2);
+      expect(fs.readFileSync(path.join(outDir, second.html!), 'utf-8')).toBe('<html>2</html>');
+
+      removeFailureArtifacts(outDir, second);
+      expect(fs.readdirSync(getArtifactDir(outDir, week))).toEqual([]);
+    } finally {
+      fs.rmSync(outDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('parcel cache', () => {
+  const DAY_MS = 24 * 60 * 60 * 1000;
+  const [row] = loadFixtureResults();
+
+  const createDetails = (saleDates: string[]): ParcelDetails => ({
+    parcel_id: row.parcelId,
+    owner_name: 'SMITH JOHN & JANE',
+    owner_mailing_address: '',
+    property_address: row.propertyAddress,
+    city: 'BRIGHTON',
+    zip: '38011',
+    classification: '00 - Residential',
+    land_use: '',
+    characteristics: {
+      acreage: '', land_value: '', improvement_value: '', appraised_value: '', assessed_value: '',
+      year_built: '', finished_sqft: '', building_type: '', subdivision: '', lot: '',
+    },
+    sales: saleDates.map(sale_date => ({
+      sale_date, sale_price: '$312,500', deed_instrument: '', grantor: '', grantee: '', qualified_sale: '', book_page: '', vacant_improved: '',
+    })),
+    source_url: '',
+  });
+
+  it('finds entries by normalized parcel ID across reopens, and expires them', () => {
+    const outDir = fs.mkdtempSync(path.join(os.tmpdir(), 'parcel-cache-test-'));
+
+    try {
+      const cache = openParcelCache(outDir, { ttlMs: DAY_MS });
+      cache.set('084', '067    05308 000', createDetails(['1/6/2025']));
+      cache.save();
+
+      const reopened = openParcelCache(outDir, { ttlMs: DAY_MS });
+      expect(reopened.get('084', ' 067 05308 000 ')?.owner_name).toBe('SMITH JOHN & JANE');
+      expect(reopened.get('079', '067 05308 000')).toBeNull();
+      expect(openParcelCache(outDir, { ttlMs: DAY_MS, refresh: true }).get('084', '067 05308 000')).toBeNull();
+
+      const file = JSON.parse(fs.readFileSync(getParcelCachePath(outDir), 'utf-8'));
+      file.parcels['084:067 05308 000'].fetchedAt = new Date(Date.now() - 2 * DAY_MS).toISOString();
+      fs.writeFileSync(getParcelCachePath(outDir), JSON.stringify(file));
+      expect(openParcelCache(outDir, { ttlMs: DAY_MS }).get('084', '067 05308 000')).toBeNull();
+    } finally {
+      fs.rmSync(outDir, { recursive: true, force: true });
+    }
+  });
+
+  it('does nothing with a TTL of 0', () => {
+    const outDir = fs.mkdtempSync(path.join(os.tmpdir(), 'parcel-cache-test-'));
+
+    try {
+      const cache = openParcelCache(outDir, { ttlMs: 0 });
+      cache.set('084', row.parcelId, createDetails([]));
+      cache.save();
+
+      expect(cache.get('084', row.parcelId)).toBeNull();
+      expect(fs.existsSync(getParcelCachePath(outDir))).toBe(false);
+    } finally {
+      fs.rmSync(outDir, { recursive: true, force: true });
+    }
+  });
+
+  it('skips cached pages that are missing a sale the search found', () => {
+    const outDir = fs.mkdtempSync(path.join(os.tmpdir(), 'parcel-cache-test-'));
+
+    try {
+      const record = searchResultToRawRecord(row, tipton);
+      const parcel = {
+        key: getParcelKey(tipton.code, row.parcelId),
+        countyCode: tipton.code,
+        county: tipton.name,
+        parcelId: row.parcelId,
+        url: '',
+      };
+      const checkpoint = createCheckpoint(createTestConfig(), week);
+      checkpoint.searchResults.push(record);
+      checkpoint.parcels.push(parcel);
+
+      const cache = openParcelCache(outDir, { ttlMs: DAY_MS });
+      cache.set(tipton.code, row.parcelId, createDetails(['3/14/2019']));
+      expect(applyCachedDetails(checkpoint, [parcel], cache, 'playwright')).toEqual([parcel]);
+      expect(checkpoint.details[parcel.key]).toBeUndefined();
+
+      cache.set(tipton.code, row.parcelId, createDetails(['3/14/2019', record.sale_date]));
+      const recorder = createScrapeRecorder(week);
+      expect(applyCachedDetails(checkpoint, [parcel], cache, 'playwright', recorder)).toEqual([]);
+      expect(checkpoint.details[parcel.key]?.sales).toHaveLength(2);
+      expect(recorder.getReport().summary).toMatchObject({ ok: 1, cached: 1 });
+    } finally {
+      fs.rmSync(outDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('checkpoint', () => {
+  const [owen, main] = loadFixtureResults();
+  const targets = [owen, main].map(row => ({
+    key: getParcelKey(tipton.code, row.parcelId),
+    countyCode: tipton.code,
+    county: tipton.name,
+    parcelId: row.parcelId,
+    url: '',
+  }));
+
+  it('leaves failed and unfetched parcels for the next run', () => {
+    const checkpoint = createCheckpoint(createTestConfig(), week);
+    checkpoint.parcels.push(...targets);
+    checkpoint.details[targets[1].key] = null;
+
+    expect(getUnfetchedParcels(checkpoint)).toEqual(targets);
+  });
+
+  it('ignores a checkpoint written for other counties or classifications', () => {
+    const config = createTestConfig();
+    const checkpoint = createCheckpoint(config, week);
+
+    expect(isCheckpointCompatible(checkpoint, config, week)).toBe(true);
+    expect(isCheckpointCompatible(checkpoint, { ...config, counties: [tipton, shelby] }, week)).toBe(false);
+    expect(isCheckpointCompatible(checkpoint, {
+      ...config,
+      classifications: [{ code: '01', name: 'Farm', minSalePrice: 1000, instrumentDenylist: [] }],
+    }, week)).toBe(false);
+  });
+
+  it('keeps the search row classification when the detail page has none', () => {
+    const checkpoint = createCheckpoint(createTestConfig(), week);
+    checkpoint.searchResults.push(searchResultToRawRecord(owen, tipton));
+    checkpoint.parcels.push(targets[0]);
+    checkpoint.details[targets[0].key] = {
+      parcel_id: owen.parcelId,
+      owner_name: 'SMITH JOHN & JANE',
+      owner_mailing_address: '',
+      property_address: '467 OWEN RD',
+      city: 'BRIGHTON',
+      zip: '38011',
+      classification: '',
+      land_use: '',
+      characteristics: {
+        acreage: '', land_value: '', improvement_value: '', appraised_value: '', assessed_value: '',
+        year_built: '', finished_sqft: '', building_type: '', subdivision: '', lot: '',
+      },
+      sales: [{
+        sale_date: owen.saleDate, sale_price: '$312,500', deed_instrument: '', grantor: '', grantee: '',
+        qualified_sale: '', book_page: '', vacant_improved: '',
+      }],
+      source_url: '',
+    };
+
+    const [record] = buildExtractionResult(checkpoint, week).rawRecords;
+    expect(record.classification).toBe(owen.classification);
+    expect(record.city).toBe('BRIGHTON');
+  });
+});
+
+describe('lookup helpers', () => {
+  it('puts the house number after the street like TPAD does', () => {
+    expect(formatAddressQuery('467 Owen Rd')).toBe('OWEN RD 467');
+    expect(formatAddressQuery(' 113  Main St, Covington TN ')).toBe('MAIN ST 113');
+    expect(formatAddressQuery('Owen Rd')).toBe('OWEN RD');
+  });
+
+  it('requires exactly one lookup field', () => {
+    expect(validateLookupQuery({ address: '467 Owen Rd' })).toBeNull();
+    expect(validateLookupQuery({ owner: ' ' })).toContain('Specify one of');
+    expect(validateLookupQuery({ owner: 'SMITH', parcel: '067 05308 000' })).toContain('only one');
+  });
+
+  it('prints owner, mailing address and each sale', () => {
+    const result: LookupResult = {
+      query: { address: '467 Owen Rd' },
+      totalMatches: 3,
+      complete: true,
+      matches: [{
+        county: 'Tipton',
+        parcel_id: '067 05308 000',
+        owner_name: 'SMITH JOHN & JANE',
+        owner_mailing_address: 'PO BOX 1220, MILLINGTON TN 38083',
+        property_address: '467 OWEN RD',
+        city: 'BRIGHTON',
+        zip: '38011',
+        classification: '00 - Residential',
+        land_use: '00 - Residential',
+        characteristics: {
+          acreage: '', land_value: '', improvement_value: '', appraised_value: '', assessed_value: '',
+          year_built: '', finished_sqft: '', building_type: '', subdivision: '', lot: '',
+        },
+        sales: [{
+          sale_date: '1/6/2025',
+          sale_price: '$312,500',
+          deed_instrument: 'WD - WARRANTY DEED',
+          grantor: 'HOLT BUILDERS LLC',
+          grantee: 'SMITH JOHN & JANE',
+          qualified_sale: 'A - ACCEPTED',
+          book_page: '1840-221',
+          vacant_improved: 'I',
+        }],
+        source_url: 'http://127.0.0.1/TPAD/Parcel/Details?parcelId=067%2005308%20000',
+      }],
+    };
+
+    const text = formatLookupResult(result);
+    expect(text).toContain('467 OWEN RD, BRIGHTON 38011');
+    expect(text).toContain('Current owner:   SMITH JOHN & JANE');
+    expect(text).toContain('$312,500');
+    expect(text).toContain('HOLT BUILDERS LLC -> SMITH JOHN & JANE');
+    expect(text).toContain('Showing 1 of 3 matches');
+
+    expect(formatLookupResult({ ...result, complete: false })).toContain('Showing 1 of at least 3 matches');
+    expect(formatLookupResult({ ...result, totalMatches: 1, complete: false })).toContain('1 match (search stopped at the limit)');
+  });
+});
+
+/**
+ * Just enough of a Playwright browser to check what BrowserManager does with it
+ */
+function createFakeLauncher() {
+  const withEvents = <T extends object>(target: T) => {
+    const handlers = new Map<string, (() => void)[]>();
+    return Object.assign(target, {
+      on(event: string, handler: () => void) {
+        handlers.set(event, [...(handlers.get(event) ?? []), handler]);
+      },
+      emit(event: string) {
+        for (const handler of handlers.get(event) ?? []) handler();
+      },
+    });
+  };
+
+  const contexts: any[] = [];
+  const browser = {
+    closed: false,
+    async newContext(options: unknown) {
+      const context = withEvents({
+        options,
+        pages: [] as any[],
+        timeouts: {} as Record<string, number>,
+        closed: false,
+        setDefaultTimeout(ms: number) { context.timeouts.action = ms; },
+        setDefaultNavigationTimeout(ms: number) { context.timeouts.navigation = ms; },
+        async newPage() {
+          const page = withEvents({
+            routes: [] as string[],
+            async route(pattern: string) { page.routes.push(pattern); },
+            async close() { page.emit('close'); },
+          });
+          context.pages.push(page);
+          return page;
+        },
+        async close() {
+          if (!context.closed) {
+            context.closed = true;
+            context.emit('close');
+          }
+        },
+      });
+      contexts.push(context);
+      return context;
+    },
+    async close() { browser.closed = true; },
+  };
+
+  const launcher = {
+    launches: 0,
+    async launch() {
+      launcher.launches++;
+      return browser;
+    },
+  };
+
+  return { launcher, browser, contexts };
+}
+
+describe('BrowserManager', () => {
+  it('builds context options from the config', () => {
+    const options = getContextOptions(createTestConfig({
+      browserProxyServer: 'http://proxy.local:8080',
+      browserProxyUsername: 'scraper',
+      browserLocale: 'en-GB',
+      browserStorageState: '/tmp/state.json',
+    }));
+
+    expect(options).toMatchObject({
+      locale: 'en-GB',
+      timezoneId: 'America/Chicago',
+      proxy: { server: 'http://proxy.local:8080', username: 'scraper', password: undefined },
+      storageState: '/tmp/state.json',
+    });
+    expect(getContextOptions(createTestConfig()).proxy).toBeUndefined();
+  });
+
+  it('shares one launch and one default context between pages', async () => {
+    const { launcher, contexts } = createFakeLauncher();
+    const manager = new BrowserManager(createTestConfig({ browserTimeoutMs: 5000 }), launcher as any);
+
+    await Promise.all([manager.newPage(), manager.newPage()]);
+
+    expect(launcher.launches).toBe(1);
+    expect(contexts).toHaveLength(1);
+    expect(contexts[0].pages).toHaveLength(2);
+    expect(contexts[0].timeouts).toEqual({ action: 5000, navigation: 60000 });
+    expect(contexts[0].pages[0].routes).toEqual(['**/*']);
+  });
+
+  it('gives isolated pages their own context, closed with the page', async () => {
+    const { launcher, contexts } = createFakeLauncher();
+    const manager = new BrowserManager(createTestConfig({ browserBlockedResources: [] }), launcher as any);
+
+    const page = await manager.newPage({ isolated: true });
+    await manager.newPage({ isolated: true });
+
+    expect(contexts).toHaveLength(2);
+    expect(contexts[0].pages[0].routes).toEqual([]);
+
+    await page.close();
+    expect(contexts[0].closed).toBe(true);
+    expect(contexts[1].closed).toBe(false);
+  });
+
+  it('closes its contexts and browser, and can be closed twice', async () => {
+    const { launcher, browser, contexts } = createFakeLauncher();
+    const manager = new BrowserManager(createTestConfig(), launcher as any);
+
+    await manager.newPage();
+    await manager.newPage({ isolated: true });
+    await manager.close();
+    await manager.close();
+
+    expect(contexts.every(c => c.closed)).toBe(true);
+    expect(browser.closed).toBe(true);
+  });
+
+  it('backs an isolated page pool with one context per page', async () => {
+    const { launcher, contexts } = createFakeLauncher();
+    const manager = new BrowserManager(createTestConfig(), launcher as any);
+    const pool = createPagePool(manager, 2, { isolated: true });
+
+    await Promise.all([1, 2, 3].map(() => pool.run(async () => undefined)));
+
+    expect(contexts).toHaveLength(2);
+    await pool.close();
+    expect(contexts.every(c => c.closed)).toBe(true);
+  });
+});
+
+describe.skipIf(!chromiumInstalled)('TPAD search (stand-in server)', () => {
+  let server: TpadTestServer;
+  let browser: BrowserManager;
+  let page: Page;
+
+  beforeAll(async () => {
+    server = await startTpadServer();
+    browser = new BrowserManager(createTestConfig({ tpadBaseUrl: server.baseUrl }));
+    page = await browser.newPage();
+  });
+
+  afterAll(async () => {
+    await browser?.close();
+    await server?.close();
+  });
+
+  const search = async (dateRange = week) => {
+    await navigateToSearch(page, server.baseUrl);
+    await executeSearch(page, createSearchParams('084', dateRange));
+  };
+
+  it('finds results and reads the DataTables entry count', async () => {
+    await search();
+    expect(await hasResults(page)).toBe(true);
+    expect(await getResultCount(page)).toBe(23);
+  }, BROWSER_TEST_TIMEOUT);
+
+  it('walks every results page until the next button is disabled', async () => {
+    await search();
+
+    const parcelIds: string[] = [];
+    let pages = 1;
+    parcelIds.push(...(await extractResultsFromPage(page)).map(r => r.parcelId));
+
+    while (await hasNextPage(page)) {
+      expect(await goToNextPage(page)).toBe(true);
+      pages++;
+      parcelIds.push(...(await extractResultsFromPage(page)).map(r => r.parcelId));
+    }
+
+    expect(pages).toBe(3);
+    expect(parcelIds).toHaveLength(23);
+    expect(new Set(parcelIds).size).toBe(23);
+    expect(await goToNextPage(page)).toBe(false);
+  }, BROWSER_TEST_TIMEOUT);
+
+  it('reads rows with and without the GIS map cell', async () => {
+    await search();
+    const results = await extractResultsFromPage(page);
+
+    const withGis = results.find(r => r.parcelId === '067    05308 000');
+    const withoutGis = results.find(r => r.parcelId === '041 107.01 000');
+
+    expect(withGis?.gisMapUrl).toContain('tnmap.tn.gov');
+    expect(withGis?.saleDate).toBe('1/6/2025');
+    expect(withoutGis?.gisMapUrl).toBe('');
+    expect(withoutGis?.owner).toBe('JOHNSON ROBERT');
+    expect(withoutGis?.saleDate).toBe('1/7/2025');
+  }, BROWSER_TEST_TIMEOUT);
+
+  it('treats the "no matching records" row as no results', async () => {
+    await search(emptyWeek);
+    expect(await hasResults(page)).toBe(false);
+    expect(await extractResultsFromPage(page)).toEqual([]);
+  }, BROWSER_TEST_TIMEOUT);
+
+  it('extracts owner, address and the sales table from a parcel page', async () => {
+    const details = await extractParcelDetails(
+      page,
+      './Parcel/Details?parcelId=067%2005308%20000',
+      '067    05308 000',
+      server.baseUrl,
+      2025
+    );
+
+    expect(details).not.toBeNull();
+    expect(details!.owner_name).toBe('SMITH JOHN & JANE');
+    expect(details!.property_address).toBe('467 OWEN RD');
+    expect(details!.city).toBe('BRIGHTON');
+    expect(details!.zip).toBe('38011');
+    expect(details!.owner_mailing_address).toBe('PO BOX 1220, MILLINGTON TN 38083');
+    expect(details!.classification).toBe('00 - Residential');
+    expect(details!.characteristics.appraised_value).toBe('$325,000');
+
+    // The building table comes first but lacks the sale date/price headers
+    expect(details!.sales).toHaveLength(2);
+    expect(details!.sales[0]).toMatchObject({
+      sale_date: '1/6/2025',
+      sale_price: '$312,500',
+      book_page: '1840-221',
+      deed_instrument: 'WD - WARRANTY DEED',
+      qualified_sale: 'A - ACCEPTED',
+      grantor: 'HOLT BUILDERS LLC',
+      grantee: 'SMITH JOHN & JANE',
+    });
+  }, BROWSER_TEST_TIMEOUT);
+
+  it('passes the site check and picks a parcel from the results', async () => {
+    const report = await runSiteCheck(page, createTestConfig({ tpadBaseUrl: server.baseUrl }), {
+      dateRange: week,
+    });
+
+    expect(getSiteCheckDiff(report).missing).toEqual([]);
+    expect(report.passed).toBe(true);
+    expect(report.parcelUrl).toContain(`${server.baseUrl}/Parcel/Details`);
+  }, BROWSER_TEST_TIMEOUT);
+});
+
+describe.skipIf(!chromiumInstalled)('page pool', () => {
+  const browser = new BrowserManager(createTestConfig());
+
+  afterAll(async () => {
+    await browser.close();
+  });
+
+  it('reuses pages and replaces one after a failed task', async () => {
+    const pool = createPagePool(browser, 2);
+
+    try {
+      const pages = new Set<Page>();
+      await Promise.all([1, 2, 3, 4].map(() => pool.run(async (page) => {
+        pages.add(page);
+      })));
+      expect(pages.size).toBe(2);
+
+      await expect(pool.run(async () => {
+        throw new Error('boom');
+      })).rejects.toThrow('boom');
+
+      await pool.run(async (page) => {
+        expect(page.isClosed()).toBe(false);
+      });
+
+      expect(pool.getStats()).toMatchObject({
+        size: 2,
+        pagesCreated: 2,
+        pagesRecycled: 1,
+        tasksCompleted: 5,
+        tasksFailed: 1,
+      });
+    } finally {
+      await pool.close();
+    }
+  }, BROWSER_TEST_TIMEOUT);
+});
+
+describe.skipIf(!chromiumInstalled)('lookup (stand-in server)', () => {
+  let server: TpadTestServer;
+  let browser: BrowserManager;
+  let page: Page;
+  let config: ExtractorConfig;
+
+  beforeAll(async () => {
+    server = await startTpadServer();
+    config = createTestConfig({ tpadBaseUrl: server.baseUrl });
+    browser = new BrowserManager(config);
+    page = await browser.newPage();
+  });
+
+  afterAll(async () => {
+    await browser?.close();
+    await server?.close();
+  });
+
+  it('finds a parcel by street address and reads its details', async () => {
+    const result = await runLookup(page, config, { address: '113 Main St' }, { limit: 5 });
+
+    expect(result.totalMatches).toBe(1);
+    expect(result.matches[0]).toMatchObject({ parcel_id: '041 107.01 000', county: 'Tipton' });
+    expect(result.matches[0].sales.length).toBeGreaterThan(0);
+  }, BROWSER_TEST_TIMEOUT);
+
+  it('searches by parcel ID and follows the result row to its county and page', async () => {
+    const result = await runLookup(page, config, { parcel: '067 05308 000' }, { limit: 5 });
+
+    expect(result.matches).toHaveLength(1);
+    expect(result.matches[0].owner_name).toBe('SMITH JOHN & JANE');
+    expect(result.matches[0].county).toBe('Tipton');
+  }, BROWSER_TEST_TIMEOUT);
+
+  it('returns no matches for an unknown parcel', async () => {
+    const result = await runLookup(page, config, { parcel: '999 99999 000' }, { limit: 5 });
+    expect(result.matches).toEqual([]);
+  }, BROWSER_TEST_TIMEOUT);
+});
+
+describe.skipIf(!chromiumInstalled)('TpadClient (stand-in server)', () => {
+  let server: TpadTestServer;
+
+  beforeAll(async () => {
+    server = await startTpadServer();
+  });
+
+  afterAll(async () => {
+    await server?.close();
+  });
+
+  it('searches every county and enriches results from detail pages', async () => {
+    const config = createTestConfig({
+      tpadBaseUrl: server.baseUrl,
+      counties: [tipton, shelby],
+      countyName: 'Tipton & Shelby',
+    });
+    const client = new TpadClient(config);
+    await client.initialize();
+
+    try {
+      const result = await client.extract(week);
+
+      expect(result.totalPages).toBe(4);
+      expect(result.totalParcels).toBe(25);
+      expect(result.rawRecords.filter(r => r.county === 'Shelby')).toHaveLength(2);
+      expect(result.parcelDetails.length).toBeGreaterThanOrEqual(2);
+
+      const owen = result.rawRecords.filter(r => r.parcel_id === '067    05308 000');
+      expect(owen).toHaveLength(1);
+      expect(owen[0].sale_price).toBe('$312,500');
+      expect(owen[0].county).toBe('Tipton');
+
+      // Both same-day sales on the second parcel fall inside the week
+      expect(result.rawRecords.filter(r => r.parcel_id === '041 107.01 000')).toHaveLength(2);
+
+      // Checkpoint is left for the CLI to clear once outputs are written
+      const checkpoint = JSON.parse(fs.readFileSync(getCheckpointPath(config.outDir, week), 'utf-8'));
+      expect(checkpoint.search['084'].complete).toBe(true);
+      expect(checkpoint.search['079'].complete).toBe(true);
+      expect(Object.keys(checkpoint.details)).toHaveLength(25);
+    } finally {
+      await client.close();
+    }
+  }, BROWSER_TEST_TIMEOUT * 3);
+
+  it('resumes a half-finished checkpoint, fetching only what is left and retrying failed parcels', async () => {
+    const config = createTestConfig({
+      tpadBaseUrl: server.baseUrl,
+      counties: [tipton, shelby],
+      countyName: 'Tipton & Shelby',
+    });
+
+    // Tipton was searched; one parcel finished and one failed before the run died. Shelby was never searched.
+    const checkpoint = createCheckpoint(config, week);
+    const [owen, main] = loadFixtureResults();
+    for (const row of [owen, main]) {
+      const record = searchResultToRawRecord(row, tipton, server.baseUrl);
+      checkpoint.searchResults.push(record);
+      checkpoint.parcels.push({
+        key: getParcelKey(tipton.code, row.parcelId),
+        countyCode: tipton.code,
+        county: tipton.name,
+        parcelId: row.parcelId,
+        url: record.source_url,
+      });
+    }
+    checkpoint.search[tipton.code] = { pagesCompleted: 1, complete: true };
+    checkpoint.details[checkpoint.parcels[0].key] = {
+      parcel_id: owen.parcelId,
+      owner_name: 'SMITH JOHN & JANE',
+      owner_mailing_address: '',
+      property_address: '467 OWEN RD',
+      city: 'BRIGHTON',
+      zip: '38011',
+      classification: '00 - Residential',
+      land_use: '00 - Residential',
+      characteristics: {
+        acreage: '', land_value: '', improvement_value: '', appraised_value: '', assessed_value: '',
+        year_built: '', finished_sqft: '', building_type: '', subdivision: '', lot: '',
+      },
+      sales: [],
+      source_url: checkpoint.parcels[0].url,
+    };
+    checkpoint.details[checkpoint.parcels[1].key] = null;
+    saveCheckpoint(config.outDir, checkpoint);
+
+    const client = new TpadClient(config);
+    await client.initialize();
+    const before = server.requests.length;
+
+    try {
+      const result = await client.extract(week, { resume: true });
+      const requests = server.requests.slice(before);
+
+      const searches = requests.filter(r => r.startsWith('/TPAD/api/search'));
+      expect(searches.length).toBeGreaterThan(0);
+      expect(searches.every(r => r.includes('county=Shelby'))).toBe(true);
+
+      const detailParcelIds = requests
+        .filter(r => r.startsWith('/TPAD/Parcel/Details'))
+        .map(r => new URL(r, server.baseUrl).searchParams.get('parcelId'));
+      expect([...new Set(detailParcelIds)].sort()).toEqual([main.parcelId, 'D00 123 00045', 'D01 123 00045']);
+
+      expect(result.totalParcels).toBe(4);
+      expect(result.rawRecords.find(r => r.parcel_id === main.parcelId)?.city).toBe('COVINGTON');
+    } finally {
+      await client.close();
+    }
+  }, BROWSER_TEST_TIMEOUT * 3);
+});
@@ -0,0 +1,136 @@
+/**
+ * Local stand-in for the TPAD website, used to drive the scraper offline
+ *
+ * The pages in tests/fixtures/tpad/ are hand-written, not saved from TPAD. They copy
+ * the element IDs, classes and DataTables markup the scraper's selectors expect, so
+ * these tests cover the scraper's own logic but cannot catch TPAD changing its markup;
+ * `check-site` (src/scraper/site-check.ts) is the check against the live site. Replace the fixtures with
+ * saved TPAD pages (served at the paths TPAD uses) when they can be captured.
+ *
+ * Routes (all under /TPAD, mirroring the real site's base path):
+ *   GET /TPAD                -> search page (tests/fixtures/tpad/search.html)
+ *   GET /TPAD/api/search?... -> the stand-in search page's own results request (JSON),
+ *                               filtered by county and sale date, or by owner/address/parcel ID
+ *   GET <row viewUrl>        -> parcel detail page (tests/fixtures/tpad/parcels/<id>.html),
+ *                               at whatever link results.json gives the parcel
+ */
+
+import * as fs from 'fs';
+import * as http from 'http';
+import * as path from 'path';
+import type { AddressInfo } from 'net';
+import type { SearchResultRow } from '../../src/scraper/search.js';
+
+const FIXTURES_DIR = path.join(__dirname, '..', 'fixtures', 'tpad');
+
+/**
+ * Search result row as stored in the fixture file
+ */
+export interface FixtureResultRow extends SearchResultRow {
+  county: string;
+}
+
+export interface TpadTestServer {
+  /** Base URL to use in place of TPAD_BASE_URL */
+  baseUrl: string;
+  /** Paths requested so far, for asserting on scraper behaviour */
+  requests: string[];
+  close(): Promise<void>;
+}
+
+/**
+ * Load the stand-in search result rows
+ */
+export function loadFixtureResults(): FixtureResultRow[] {
+  return JSON.parse(fs.readFileSync(path.join(FIXTURES_DIR, 'results.json'), 'utf-8'));
+}
+
+/**
+ * Convert "M/D/YYYY" to "YYYY-MM-DD" so it can be compared against date inputs
+ */
+function toIsoDate(date: string): string {
+  const [month, day, year] = date.split('/');
+  return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+}
+
+function normalizeSpaces(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Map a parcel ID to its fixture file name ("067    05308 000" -> "067_05308_000.html")
+ */
+function parcelFixturePath(parcelId: string): string {
+  const name = parcelId.trim().replace(/\s+/g, '_');
+  return path.join(FIXTURES_DIR, 'parcels', `${name}.html`);
+}
+
+function send(res: http.ServerResponse, status: number, contentType: string, body: string): void {
+  res.writeHead(status, { 'Content-Type': contentType });
+  res.end(body);
+}
+
+/**
+ * Start the stand-in server on a random free port
+ */
+export async function startTpadServer(): Promise<TpadTestServer> {
+  const results = loadFixtureResults();
+  const requests: string[] = [];
+
+  // Detail pages are served at the links the result rows point to, so no detail URL is assumed here
+  const detailPages = new Map(results.map((row) => {
+    const link = new URL(row.viewUrl, 'http://localhost/TPAD/');
+    return [link.pathname + link.search, row.parcelId];
+  }));
+
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    requests.push(url.pathname + url.search);
+
+    if (url.pathname === '/TPAD' || url.pathname === '/TPAD/') {
+      send(res, 200, 'text/html', fs.readFileSync(path.join(FIXTURES_DIR, 'search.html'), 'utf-8'));
+      return;
+    }
+
+    if (url.pathname === '/TPAD/api/search') {
+      const county = url.searchParams.get('county') || '';
+      const start = url.searchParams.get('start') || '0000-00-00';
+      const end = url.searchParams.get('end') || '9999-99-99';
+      const owner = (url.searchParams.get('owner') || '').toUpperCase();
+      const address = normalizeSpaces(url.searchParams.get('address') || '').toUpperCase();
+      const parcel = normalizeSpaces(url.searchParams.get('parcel') || '').toUpperCase();
+
+      const rows = results.filter((row) => {
+        const saleDate = toIsoDate(row.saleDate);
+        return row.county === county && saleDate >= start && saleDate <= end &&
+          row.owner.includes(owner) && normalizeSpaces(row.propertyAddress).includes(address) &&
+          normalizeSpaces(row.parcelId).startsWith(parcel);
+      });
+
+      send(res, 200, 'application/json', JSON.stringify({ rows }));
+      return;
+    }
+
+    const parcelId = detailPages.get(url.pathname + url.search);
+    if (parcelId) {
+      const filePath = parcelFixturePath(parcelId);
+      if (fs.existsSync(filePath)) {
+        send(res, 200, 'text/html', fs.readFileSync(filePath, 'utf-8'));
+        return;
+      }
+    }
+
+    send(res, 404, 'text/html', '<html><body><h1>Not Found</h1></body></html>');
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    baseUrl: `http://127.0.0.1:${port}/TPAD`,
+    requests,
+    close: () => new Promise<void>((resolve, reject) => {
+      server.close((error) => (error ? reject(error) : resolve()));
+    }),
+  };
+}
@@ -8,6 +8,8 @@ import {
   cleanOwnerName,
   cleanAddress,
   transformRecord,
+  parseNumericField,
+  formatAcreage,
   formatSalePrice,
   formatDisplayDate,
   getSalesStats,
@@ -16,18 +18,36 @@ import type { RawParcelRecord, CleanedSale } from '../src/types/index.js';
 
 const createMockRecord = (overrides: Partial<RawParcelRecord> = {}): RawParcelRecord => ({
   parcel_id: '123-456',
+  county: 'Tipton',
   owner_name: 'John Doe',
+  owner_mailing_address: '',
   property_address: '123 Main St',
   city: 'Covington',
   zip: '38019',
+  location_confidence: 'parcel',
   classification: '00',
   land_use: 'Residential',
   acreage: '0.5',
-  assessed_value: '150000',
+  land_value: '30000',
+  improvement_value: '170000',
+  appraised_value: '200000',
+  assessed_value: '50000',
+  year_built: '1998',
+  finished_sqft: '1,850',
+  building_type: 'Single Family',
+  subdivision: 'MAIN ST ADDN',
+  lot: '12',
   sale_date: '01/08/2025',
   sale_price: '$250,000',
   deed_instrument: 'Warranty Deed',
+  seller_name: 'Acme Homes LLC',
+  buyer_name: 'John Doe',
   qualified_sale: 'Y',
+  book_page: '',
+  vacant_improved: '',
+  prior_sale_date: '',
+  prior_sale_price: '',
+  prior_deed_instrument: '',
   source_url: 'https://example.com/parcel/123-456',
   ...overrides,
 });
@@ -101,16 +121,80 @@ describe('transformRecord', () => {
     expect(cleaned.sale_price).toBe(250000);
     expect(cleaned.sale_date).toBe('2025-01-08');
     expect(cleaned.deed_instrument).toBe('Warranty Deed');
+    expect(cleaned.seller_name).toBe('Acme Homes LLC');
+    expect(cleaned.buyer_name).toBe('John Doe');
+    expect(cleaned.owner_entity_type).toBe('individual');
+    expect(cleaned.seller_entity_type).toBe('builder');
     expect(cleaned.source_url).toBe('https://example.com/parcel/123-456');
     expect(cleaned.extracted_at).toMatch(/^\d{4}-\d{2}-\d{2}T/);
   });
 
+  it('adds mail-merge name fields', () => {
+    const cleaned = transformRecord(createMockRecord({ owner_name: 'SMITH JOHN ETUX JANE' }));
+    expect(cleaned.owner_first_name).toBe('John');
+    expect(cleaned.owner_last_name).toBe('Smith');
+    expect(cleaned.household_name).toBe('John & Jane Smith');
+    expect(cleaned.salutation).toBe('Dear John and Jane');
+  });
+
+  it('standardizes the situs address and splits the mailing address', () => {
+    const cleaned = transformRecord(createMockRecord({
+      property_address: 'OWEN ROAD  467',
+      owner_mailing_address: 'P.O. Box 1220, Millington TN 38083',
+    }));
+    expect(cleaned.situs_address).toBe('467 OWEN RD');
+    expect(cleaned.owner_mailing_address).toBe('PO BOX 1220, MILLINGTON TN 38083');
+    expect(cleaned.owner_mailing_street).toBe('PO BOX 1220');
+    expect(cleaned.owner_mailing_city).toBe('MILLINGTON');
+    expect(cleaned.owner_mailing_state).toBe('TN');
+    expect(cleaned.owner_mailing_zip).toBe('38083');
+    expect(transformRecord(createMockRecord()).owner_mailing_address).toBeNull();
+  });
+
   it('handles missing owner name', () => {
     const raw = createMockRecord({ owner_name: '' });
     const cleaned = transformRecord(raw);
     expect(cleaned.owner_name).toBeNull();
   });
 
+  it('names the classification the sale is reported under', () => {
+    expect(transformRecord(createMockRecord()).property_class).toBe('Residential');
+    expect(transformRecord(createMockRecord({ classification: '01 - Farm', land_use: '' })).property_class).toBe('Farm');
+    expect(transformRecord(createMockRecord({ classification: '', land_use: 'Vacant' })).property_class).toBe('');
+  });
+
+  it('tags the sale type', () => {
+    expect(transformRecord(createMockRecord({ vacant_improved: 'V' })).sale_type).toBe('vacant_lot');
+    expect(transformRecord(createMockRecord({
+      vacant_improved: 'I', seller_name: 'ABC HOMES LLC', year_built: '2024', sale_date: '1/6/2025',
+    })).sale_type).toBe('new_construction');
+  });
+
+  it('leaves unknown seller and buyer as null', () => {
+    const cleaned = transformRecord(createMockRecord({ seller_name: '', buyer_name: '' }));
+    expect(cleaned.seller_name).toBeNull();
+    expect(cleaned.buyer_name).toBeNull();
+  });
+
+  it('cleans the prior sale, leaving it null when there is none', () => {
+    const cleaned = transformRecord(createMockRecord({
+      prior_sale_date: '3/14/2024',
+      prior_sale_price: '$45,000',
+      prior_deed_instrument: ' WD - WARRANTY DEED ',
+    }));
+    expect(cleaned).toMatchObject({
+      prior_sale_date: '2024-03-14',
+      prior_sale_price: 45000,
+      prior_deed_instrument: 'WD - WARRANTY DEED',
+    });
+
+    expect(transformRecord(createMockRecord())).toMatchObject({
+      prior_sale_date: null,
+      prior_sale_price: null,
+      prior_deed_instrument: null,
+    });
+  });
+
   it('parses various price formats', () => {
     const raw1 = createMockRecord({ sale_price: '$1,250,000' });
     expect(transformRecord(raw1).sale_price).toBe(1250000);
@@ -131,6 +215,39 @@ describe('transformRecord', () => {
   });
 });
 
+describe('property characteristics', () => {
+  it('parses currency, comma and decimal fields', () => {
+    expect(parseNumericField('$325,000')).toBe(325000);
+    expect(parseNumericField('2,150')).toBe(2150);
+    expect(parseNumericField('1.25')).toBe(1.25);
+  });
+
+  it('returns null for missing or non-numeric fields', () => {
+    expect(parseNumericField('')).toBeNull();
+    expect(parseNumericField(undefined)).toBeNull();
+    expect(parseNumericField('N/A')).toBeNull();
+  });
+
+  it('maps characteristics onto the cleaned record', () => {
+    const cleaned = transformRecord(createMockRecord({
+      acreage: '0.5',
+      finished_sqft: '1,850',
+      year_built: '',
+      building_type: ' Single Family ',
+    }));
+
+    expect(cleaned.acreage).toBe(0.5);
+    expect(cleaned.finished_sqft).toBe(1850);
+    expect(cleaned.building_type).toBe('Single Family');
+    expect(cleaned.year_built).toBeNull();
+  });
+
+  it('formats acreage for display', () => {
+    expect(formatAcreage(1.25)).toBe('1.25 ac');
+    expect(formatAcreage(null)).toBe('N/A');
+  });
+});
+
 describe('formatSalePrice', () => {
   it('formats as USD currency', () => {
     expect(formatSalePrice(250000)).toBe('$250,000');